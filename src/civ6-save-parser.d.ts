@@ -1,35 +1,41 @@
 declare module 'civ6-save-parser' {
+  interface ParsedEntry<T> {
+    marker: Buffer;
+    type: number;
+    data: T;
+    chunk: Buffer;
+  }
+
   interface ParsedCiv {
-    SLOT_HEADER?: { marker: Buffer; type: number; data: number; chunk: Buffer };
-    PLAYER_ALIVE?: { marker: Buffer; type: number; data: boolean; chunk: Buffer };
-    PLAYER_PASSWORD?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    IS_CURRENT_TURN?: { marker: Buffer; type: number; data: boolean; chunk: Buffer };
-    ACTOR_NAME?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    ACTOR_TYPE?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    ACTOR_AI_HUMAN?: { marker: Buffer; type: number; data: number; chunk: Buffer };
-    LEADER_NAME?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    START_ACTOR?: { marker: Buffer; type: number; data: number; chunk: Buffer };
+    SLOT_HEADER?: ParsedEntry<number>;
+    PLAYER_ALIVE?: ParsedEntry<boolean>;
+    PLAYER_NAME?: ParsedEntry<string>;
+    PLAYER_PASSWORD?: ParsedEntry<string>;
+    IS_CURRENT_TURN?: ParsedEntry<boolean>;
+    ACTOR_NAME?: ParsedEntry<string>;
+    ACTOR_TYPE?: ParsedEntry<string>;
+    ACTOR_AI_HUMAN?: ParsedEntry<number>;
+    LEADER_NAME?: ParsedEntry<string>;
+    START_ACTOR?: ParsedEntry<number>;
   }
 
+  // One entry of a mod block's array; the blocks repeat the same mods
   interface ParsedMod {
-    MOD_ID?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    MOD_TITLE?: { marker: Buffer; type: number; data: string; chunk: Buffer };
+    MOD_ID?: ParsedEntry<string>;
+    MOD_TITLE?: ParsedEntry<string>;
   }
 
   interface ParsedData {
-    GAME_TURN?: { marker: Buffer; type: number; data: number; chunk: Buffer };
-    GAME_SPEED?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    MAP_SIZE?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    MAP_FILE?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    MAP_FILE_2?: { marker: Buffer; type: number; data: string; chunk: Buffer };
-    CIVS: ParsedCiv[];
-    ACTORS: ParsedCiv[];
-    MOD_BLOCK_1?: ParsedMod[];
-    MOD_BLOCK_2?: ParsedMod[];
-    MOD_BLOCK_3?: ParsedMod[];
-    MOD_BLOCK_4?: ParsedMod[];
-    MOD_BLOCK_2_2?: ParsedMod[];
-    MOD_BLOCK_3_2?: ParsedMod[];
+    GAME_TURN?: ParsedEntry<number>;
+    GAME_SPEED?: ParsedEntry<string>;
+    MAP_SIZE?: ParsedEntry<string>;
+    MAP_FILE?: ParsedEntry<string>;
+    MAP_FILE_2?: ParsedEntry<string>;
+    CIVS: ParsedCiv[];   // Major civs, in slot order
+    ACTORS: ParsedCiv[]; // Everything else with a type and name (city-states, closed slots, ...)
+    // MOD_BLOCK_1 to MOD_BLOCK_4, plus suffixed repeats like MOD_BLOCK_2_2.
+    // `data` is an error message string when the block couldn't be read.
+    [block: `MOD_BLOCK_${string}`]: ParsedEntry<ParsedMod[] | string> | undefined;
   }
 
   interface ParseResult {
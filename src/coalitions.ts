@@ -0,0 +1,266 @@
+import { normalizeName } from './names.js';
+import type {
+  CoalitionAnalysis,
+  DiplomaticBloc,
+  DiplomaticModifier,
+  DiplomaticRelation,
+  DogpileRisk,
+  JointWarPartner,
+  MutualEnemy,
+} from './types.js';
+
+// Blocs, shared enemies, joint-war partners and dogpile risk from the latest
+// relations (getLatestRelations) and diplomatic modifiers. Everything here is
+// inferred from how civs regard each other; the logs don't record actual
+// pacts beyond alliances.
+
+const HOSTILE_STATES = ['WAR', 'DENOUNCED', 'UNFRIENDLY'];
+const FRIENDLY_STATES = ['ALLIED', 'DECLARED_FRIEND', 'FRIENDLY'];
+// States both sides share, so one side's row is enough
+const MUTUAL_STATES = ['ALLIED', 'DECLARED_FRIEND'];
+
+// Scores at or beyond these count as friendly or hostile whatever the state
+const FRIENDLY_SCORE = 10;
+const HOSTILE_SCORE = -10;
+
+const RISK_ORDER = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+function isHostile(rel: DiplomaticRelation | undefined): boolean {
+  return !!rel && (HOSTILE_STATES.includes(rel.state) || rel.score <= HOSTILE_SCORE);
+}
+
+function isFriendly(rel: DiplomaticRelation | undefined): boolean {
+  return !!rel && !isHostile(rel) && (FRIENDLY_STATES.includes(rel.state) || rel.score >= FRIENDLY_SCORE);
+}
+
+function signed(n: number): string {
+  return `${n >= 0 ? '+' : ''}${n}`;
+}
+
+// ============ Relation Lookup ============
+
+interface RelationIndex {
+  civs: string[];
+  get(from: string, to: string): DiplomaticRelation | undefined;
+}
+
+function indexRelations(relations: DiplomaticRelation[]): RelationIndex {
+  const byPair = new Map(relations.map(r => [`${r.fromCiv}|${r.toCiv}`, r]));
+  const civs = [...new Set(relations.flatMap(r => [r.fromCiv, r.toCiv]))].sort();
+  return { civs, get: (from, to) => byPair.get(`${from}|${to}`) };
+}
+
+// Friends both ways, or in an alliance or declared friendship (which both sides share)
+function friendlyLink(index: RelationIndex, a: string, b: string): boolean {
+  const ab = index.get(a, b);
+  const ba = index.get(b, a);
+  if (isHostile(ab) || isHostile(ba)) return false;
+  if ([ab, ba].some(r => r && MUTUAL_STATES.includes(r.state))) return true;
+  return (ab === undefined || isFriendly(ab)) && (ba === undefined || isFriendly(ba)) && (ab !== undefined || ba !== undefined);
+}
+
+// ============ Analysis ============
+
+function findBlocs(index: RelationIndex): DiplomaticBloc[] {
+  const seen = new Set<string>();
+  const blocs: DiplomaticBloc[] = [];
+
+  for (const start of index.civs) {
+    if (seen.has(start)) continue;
+
+    // Everyone reachable through friendly links
+    const members: string[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const civ = queue.shift()!;
+      members.push(civ);
+      for (const other of index.civs) {
+        if (!seen.has(other) && friendlyLink(index, civ, other)) {
+          seen.add(other);
+          queue.push(other);
+        }
+      }
+    }
+    if (members.length < 2) continue;
+
+    const scores = members.flatMap(a => members.filter(b => b !== a).map(b => index.get(a, b)?.score))
+      .filter((score): score is number => score !== undefined);
+    const commonEnemies = index.civs.filter(enemy =>
+      !members.includes(enemy) &&
+      members.filter(m => isHostile(index.get(m, enemy))).length * 2 > members.length
+    );
+
+    blocs.push({
+      members: members.sort(),
+      cohesion: scores.length > 0 ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : 0,
+      commonEnemies,
+    });
+  }
+
+  return blocs.sort((a, b) => b.members.length - a.members.length || b.cohesion - a.cohesion);
+}
+
+function findMutualEnemies(index: RelationIndex): MutualEnemy[] {
+  return index.civs
+    .map(enemy => ({ enemy, opposedBy: index.civs.filter(c => c !== enemy && isHostile(index.get(c, enemy))) }))
+    .filter(e => e.opposedBy.length >= 2)
+    .sort((a, b) => b.opposedBy.length - a.opposedBy.length);
+}
+
+function assessDogpileRisk(index: RelationIndex, civ: string): DogpileRisk {
+  const hostileCivs = index.civs.filter(c => c !== civ && isHostile(index.get(c, civ)));
+  const coordinated = hostileCivs.filter(c => hostileCivs.some(other => other !== c && friendlyLink(index, c, other)));
+  const atWar = hostileCivs.some(c => index.get(c, civ)?.state === 'WAR');
+
+  const risk = coordinated.length >= 2 || hostileCivs.length >= 3
+    ? 'HIGH'
+    : hostileCivs.length >= 2 || atWar ? 'MEDIUM' : 'LOW';
+  return { civilization: civ, risk, hostileCivs, coordinated };
+}
+
+// The modifier behind a civ's dislike of another, e.g. "Denounced them (-9)"
+function strongestGrievance(modifiers: DiplomaticModifier[], from: string, to: string): string | null {
+  const grievance = modifiers
+    .filter(m => m.player === from && m.opponent === to && m.value < 0)
+    .sort((a, b) => a.value - b.value)[0];
+  return grievance ? `${grievance.modifier} (${grievance.value})` : null;
+}
+
+function findJointWarPartners(
+  index: RelationIndex,
+  modifiers: DiplomaticModifier[],
+  target: string,
+  playerCiv?: string
+): JointWarPartner[] {
+  const partners: JointWarPartner[] = [];
+
+  for (const civ of index.civs) {
+    if (civ === target || civ === playerCiv) continue;
+
+    const towardTarget = index.get(civ, target);
+    const towardYou = playerCiv ? index.get(civ, playerCiv) : undefined;
+    if (!isHostile(towardTarget)) continue;
+
+    const likelihood = towardTarget?.state === 'WAR' || isFriendly(towardYou)
+      ? 'HIGH'
+      : isHostile(towardYou) ? 'LOW' : 'MEDIUM';
+
+    const stance = towardTarget!.state === 'WAR' ? `at war with ${target}`
+      : towardTarget!.state === 'DENOUNCED' ? `denounced ${target}`
+      : `${towardTarget!.state.replace(/_/g, ' ').toLowerCase()} toward ${target}`;
+    const reasons = [`${stance} (${signed(towardTarget!.score)})`];
+    const grievance = strongestGrievance(modifiers, civ, target);
+    if (grievance) reasons.push(grievance);
+    if (playerCiv && towardYou) {
+      reasons.push(isFriendly(towardYou) ? 'friendly toward you' : isHostile(towardYou) ? 'also hostile toward you' : 'neutral toward you');
+    }
+
+    partners.push({
+      civilization: civ,
+      likelihood,
+      scoreTowardTarget: towardTarget?.score ?? null,
+      scoreTowardYou: towardYou?.score ?? null,
+      reason: reasons.join('; '),
+    });
+  }
+
+  return partners.sort((a, b) =>
+    RISK_ORDER[a.likelihood] - RISK_ORDER[b.likelihood] || (a.scoreTowardTarget ?? 0) - (b.scoreTowardTarget ?? 0)
+  );
+}
+
+/**
+ * Blocs, shared enemies, dogpile risk for every civ and joint-war partners
+ * against `target`. Without a target, the civ the player likes least is used.
+ */
+export function analyzeCoalitions(
+  relations: DiplomaticRelation[],
+  modifiers: DiplomaticModifier[],
+  options: { playerCiv?: string; target?: string } = {}
+): CoalitionAnalysis {
+  const index = indexRelations(relations);
+  const findCiv = (name?: string) => name ? index.civs.find(c => normalizeName(c) === normalizeName(name)) : undefined;
+  const playerCiv = findCiv(options.playerCiv);
+
+  if (options.target && !findCiv(options.target)) {
+    throw new Error(`Unknown civilization: ${options.target}. Known: ${index.civs.join(', ') || 'none (no diplomatic data)'}`);
+  }
+  const worstRelation = playerCiv
+    ? relations.filter(r => r.fromCiv === playerCiv).sort((a, b) => a.score - b.score)[0]
+    : undefined;
+  const target = findCiv(options.target) ?? (isHostile(worstRelation) ? worstRelation!.toCiv : undefined);
+
+  // Every modifier row of the game can be here, too many to spread into Math.max
+  const latestModifierTurn = modifiers.reduce((turn, m) => Math.max(turn, m.turn), 0);
+  const latestModifiers = modifiers.filter(m => m.turn === latestModifierTurn);
+
+  const dogpileRisks = index.civs
+    .map(civ => assessDogpileRisk(index, civ))
+    .sort((a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk] || b.hostileCivs.length - a.hostileCivs.length);
+
+  return {
+    turn: relations.reduce((turn, r) => Math.max(turn, r.turn), 0),
+    blocs: findBlocs(index),
+    mutualEnemies: findMutualEnemies(index),
+    dogpileRisks,
+    target: target ?? null,
+    jointWarPartners: target ? findJointWarPartners(index, latestModifiers, target, playerCiv) : [],
+  };
+}
+
+// ============ Formatting ============
+
+export function formatCoalitions(analysis: CoalitionAnalysis, playerCiv?: string): string {
+  const lines: string[] = [];
+  const you = (civ: string) => civ === playerCiv ? `${civ} (you)` : civ;
+
+  lines.push(`# Coalitions (Turn ${analysis.turn})`);
+  lines.push('');
+
+  lines.push('## Friendly Blocs');
+  lines.push('');
+  if (analysis.blocs.length === 0) {
+    lines.push('No blocs: no two civilizations are friends with each other.');
+  }
+  for (const bloc of analysis.blocs) {
+    const enemies = bloc.commonEnemies.length > 0 ? ` - common enemies: ${bloc.commonEnemies.map(you).join(', ')}` : '';
+    lines.push(`- **${bloc.members.map(you).join(', ')}** (cohesion ${signed(bloc.cohesion)})${enemies}`);
+  }
+  lines.push('');
+
+  if (analysis.mutualEnemies.length > 0) {
+    lines.push('## Mutual Enemies');
+    lines.push('');
+    for (const enemy of analysis.mutualEnemies) {
+      lines.push(`- **${you(enemy.enemy)}** is opposed by ${enemy.opposedBy.map(you).join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Dogpile Risk');
+  lines.push('');
+  lines.push('| Civilization | Risk | Hostile Civs | Coordinated |');
+  lines.push('|--------------|------|--------------|-------------|');
+  for (const risk of analysis.dogpileRisks) {
+    const hostile = risk.hostileCivs.length > 0 ? risk.hostileCivs.join(', ') : '-';
+    const coordinated = risk.coordinated.length > 0 ? risk.coordinated.join(', ') : '-';
+    lines.push(`| ${you(risk.civilization)} | ${risk.risk} | ${hostile} | ${coordinated} |`);
+  }
+  lines.push('');
+  lines.push('*Coordinated = hostile civs that are also friends with another hostile civ, so likely to join the same war.*');
+
+  if (analysis.target) {
+    lines.push('');
+    lines.push(`## Joint-War Partners Against ${analysis.target}`);
+    lines.push('');
+    if (analysis.jointWarPartners.length === 0) {
+      lines.push(`Nobody else is hostile toward ${analysis.target}.`);
+    }
+    for (const partner of analysis.jointWarPartners) {
+      lines.push(`- **${partner.civilization}** (${partner.likelihood}): ${partner.reason}`);
+    }
+  }
+
+  return lines.join('\n');
+}
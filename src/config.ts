@@ -0,0 +1,169 @@
+import { readFileSync, existsSync, statSync } from 'fs';
+import { homedir, platform } from 'os';
+import { join } from 'path';
+
+/**
+ * Settings that can be provided through the config file.
+ */
+export interface Civ6McpConfig {
+  logsDir?: string;
+  savesDir?: string;
+  gameDir?: string;
+  language?: string;
+  transport?: 'stdio' | 'http';
+  httpHost?: string;
+  httpPort?: number;
+  httpToken?: string;
+  player?: string;
+}
+
+/**
+ * Where the Streamable HTTP transport listens, and the bearer token it requires (if any).
+ */
+export interface HttpOptions {
+  host: string;
+  port: number;
+  token?: string;
+}
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_LANGUAGE = 'en_US';
+
+/**
+ * Read a `--name value` or `--name=value` command-line argument.
+ */
+export function getCliArgument(name: string, argv: string[] = process.argv.slice(2)): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag && i + 1 < argv.length) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expand a leading `~` to the user's home directory.
+ */
+export function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  if (path.startsWith('~/') || path.startsWith('~\\')) {
+    return join(homedir(), path.slice(2));
+  }
+  return path;
+}
+
+/**
+ * Get the config file location. Can be overridden with `--config` or CIV6MCP_CONFIG.
+ */
+export function getConfigFilePath(): string {
+  const override = getCliArgument('config') || process.env.CIV6MCP_CONFIG;
+  if (override) {
+    return expandHome(override);
+  }
+
+  if (platform() === 'win32' && process.env.APPDATA) {
+    return join(process.env.APPDATA, 'civ6mcp', 'config.json');
+  }
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'civ6mcp', 'config.json');
+}
+
+// Parsed config by path, re-read only when the file's mtime or size changes.
+// Keeps loadConfig cheap and an invalid file from being reported on every call.
+const configCache = new Map<string, { fingerprint: string; config: Civ6McpConfig }>();
+
+function parseConfig(configPath: string): Civ6McpConfig {
+  try {
+    const raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+    if (!raw || typeof raw !== 'object') return {};
+
+    const config: Civ6McpConfig = {};
+    if (typeof raw.logsDir === 'string') config.logsDir = expandHome(raw.logsDir);
+    if (typeof raw.savesDir === 'string') config.savesDir = expandHome(raw.savesDir);
+    if (typeof raw.gameDir === 'string') config.gameDir = expandHome(raw.gameDir);
+    if (typeof raw.language === 'string') config.language = raw.language;
+    if (raw.transport === 'stdio' || raw.transport === 'http') config.transport = raw.transport;
+    if (typeof raw.httpHost === 'string') config.httpHost = raw.httpHost;
+    if (typeof raw.httpPort === 'number') config.httpPort = raw.httpPort;
+    if (typeof raw.httpToken === 'string') config.httpToken = raw.httpToken;
+    if (typeof raw.player === 'string' || typeof raw.player === 'number') config.player = String(raw.player);
+    return config;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Ignoring invalid config file ${configPath}: ${message}`);
+    return {};
+  }
+}
+
+/**
+ * Load the config file. Returns an empty config if the file is missing or unreadable.
+ * The result is cached until the file changes.
+ */
+export function loadConfig(): Civ6McpConfig {
+  const configPath = getConfigFilePath();
+  if (!existsSync(configPath)) {
+    configCache.delete(configPath);
+    return {};
+  }
+
+  const stats = statSync(configPath);
+  const fingerprint = `${stats.mtimeMs}:${stats.size}`;
+  const cached = configCache.get(configPath);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.config;
+  }
+
+  const config = parseConfig(configPath);
+  configCache.set(configPath, { fingerprint, config });
+  return config;
+}
+
+/**
+ * Get the configured human player (civ, leader or player ID), used when detection gets it wrong.
+ * Priority: `--player` > CIV6MCP_PLAYER > config file.
+ */
+export function getPlayerOverride(): string | undefined {
+  return getCliArgument('player') || process.env.CIV6MCP_PLAYER || loadConfig().player || undefined;
+}
+
+/**
+ * Get the language for game text, as a Civ6 locale code such as "en_US" or "de_DE".
+ * Priority: `--language` > CIV6MCP_LANGUAGE > config file > en_US.
+ */
+export function getLanguage(): string {
+  return getCliArgument('language') || process.env.CIV6MCP_LANGUAGE || loadConfig().language || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Get the HTTP transport settings, or null when the server should use stdio.
+ * HTTP is opt-in with `--transport http`, CIV6MCP_TRANSPORT=http or `"transport": "http"`
+ * in the config file. Host, port and token follow the same priority (CLI > env > config).
+ */
+export function getHttpOptions(): HttpOptions | null {
+  const config = loadConfig();
+  const transport = getCliArgument('transport') || process.env.CIV6MCP_TRANSPORT || config.transport || 'stdio';
+  if (transport === 'stdio') {
+    return null;
+  }
+  if (transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport}. Use "stdio" or "http"`);
+  }
+
+  const portValue = getCliArgument('port') || process.env.CIV6MCP_HTTP_PORT;
+  const port = portValue !== undefined ? parseInt(portValue, 10) : config.httpPort ?? DEFAULT_HTTP_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${portValue ?? config.httpPort}`);
+  }
+
+  return {
+    host: getCliArgument('host') || process.env.CIV6MCP_HTTP_HOST || config.httpHost || DEFAULT_HTTP_HOST,
+    port,
+    token: getCliArgument('token') || process.env.CIV6MCP_HTTP_TOKEN || config.httpToken || undefined,
+  };
+}
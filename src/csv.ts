@@ -0,0 +1,496 @@
+import { existsSync, statSync, openSync, readSync, closeSync } from 'fs';
+import { join, resolve } from 'path';
+
+// ============ CSV Types ============
+
+/**
+ * A column in a log file. Columns are located by header name first; `index` is
+ * where the column sat in the layout this server was written against.
+ */
+export interface CsvColumn {
+  aliases: string[];
+  index: number;
+  optional?: boolean;
+}
+
+export interface CsvSchema<K extends string> {
+  file: string;
+  columns: Record<K, CsvColumn>;
+}
+
+// standard:   every column found by name at its usual position
+// reordered:  every column found by name, but some have moved (e.g. after a patch)
+// positional: header text not recognized for some columns, usual positions assumed
+export type CsvSchemaVersion = 'standard' | 'reordered' | 'positional';
+
+export interface CsvDiagnostic {
+  file: string;
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface CsvRow<K extends string> {
+  values: string[];
+  has(key: K): boolean;
+  text(key: K): string;
+  int(key: K): number;
+  float(key: K): number;
+}
+
+export interface CsvTable<K extends string> {
+  file: string;
+  path: string;
+  schemaVersion: CsvSchemaVersion;
+  header: string[];
+  columns: Record<K, number>;  // -1 for optional columns that are missing
+  rows: CsvRow<K>[];
+  diagnostics: CsvDiagnostic[];
+  ok: boolean;
+}
+
+// How a file was last read
+interface FileReport {
+  schemaVersion: CsvSchemaVersion;
+  diagnostics: CsvDiagnostic[];
+}
+
+// Latest report per logs directory and file, so responses can explain themselves
+const reportsByDir = new Map<string, Map<string, FileReport>>();
+
+function recordReport(logsDir: string, file: string, report: FileReport | null): void {
+  const dirKey = resolve(logsDir);
+  if (!reportsByDir.has(dirKey)) {
+    reportsByDir.set(dirKey, new Map());
+  }
+  if (report) {
+    reportsByDir.get(dirKey)!.set(file, report);
+  } else {
+    reportsByDir.get(dirKey)!.delete(file);
+  }
+}
+
+// ============ Parsing ============
+
+/**
+ * Split CSV text into rows of trimmed fields. Handles quoted fields containing
+ * commas, escaped quotes ("") and line breaks, CRLF line endings and a UTF-8 BOM.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const text = content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content;
+
+  const endRow = () => {
+    row.push(field.trim());
+    field = '';
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (ch === '\n') {
+      endRow();
+    } else if (ch !== '\r') {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Header cells are compared case-insensitively, ignoring spaces and punctuation
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function makeRow<K extends string>(columns: Record<K, number>, values: string[]): CsvRow<K> {
+  const text = (key: K) => {
+    const index = columns[key];
+    return index >= 0 && index < values.length ? values[index] : '';
+  };
+  return {
+    values,
+    has: (key: K) => columns[key] >= 0 && columns[key] < values.length,
+    text,
+    int: (key: K) => parseInt(text(key), 10),
+    float: (key: K) => parseFloat(text(key)),
+  };
+}
+
+interface ColumnMapping<K extends string> {
+  columns: Record<K, number>;
+  schemaVersion: CsvSchemaVersion;
+  diagnostics: CsvDiagnostic[];
+  requiredWidth: number;
+  ok: boolean;
+}
+
+/**
+ * Locate each schema column in a header row.
+ */
+function mapColumns<K extends string>(schema: CsvSchema<K>, header: string[]): ColumnMapping<K> {
+  const diagnostics: CsvDiagnostic[] = [];
+  const normalizedHeader = header.map(normalizeHeader);
+  const columns = {} as Record<K, number>;
+  const keys = Object.keys(schema.columns) as K[];
+
+  // First pass: find columns by header name
+  const claimed = new Set<number>();
+  for (const key of keys) {
+    const spec = schema.columns[key];
+    const aliases = spec.aliases.map(normalizeHeader);
+    const index = normalizedHeader.findIndex((h, i) => !claimed.has(i) && aliases.includes(h));
+    columns[key] = index;
+    if (index >= 0) claimed.add(index);
+  }
+
+  // Second pass: fall back to the usual position when that header cell is unrecognized
+  let usedPositional = false;
+  let moved = false;
+  for (const key of keys) {
+    const spec = schema.columns[key];
+    if (columns[key] >= 0) {
+      if (columns[key] !== spec.index) moved = true;
+      continue;
+    }
+
+    if (spec.index < header.length && !claimed.has(spec.index)) {
+      columns[key] = spec.index;
+      claimed.add(spec.index);
+      usedPositional = true;
+      diagnostics.push({
+        file: schema.file,
+        level: 'warning',
+        message: `Column "${spec.aliases[0]}" not found by name; assuming column ${spec.index + 1} ("${header[spec.index]}")`,
+      });
+    } else if (spec.optional) {
+      columns[key] = -1;
+    } else {
+      diagnostics.push({
+        file: schema.file,
+        level: 'error',
+        message: `Required column "${spec.aliases[0]}" is missing (header: ${header.join(', ') || 'empty'})`,
+      });
+    }
+  }
+
+  // Rows must reach every required column, otherwise they'd produce NaN-filled records
+  const requiredWidth = Math.max(0, ...keys
+    .filter(k => !schema.columns[k].optional)
+    .map(k => columns[k] + 1));
+
+  return {
+    columns,
+    schemaVersion: usedPositional ? 'positional' : moved ? 'reordered' : 'standard',
+    diagnostics,
+    requiredWidth,
+    ok: !diagnostics.some(d => d.level === 'error'),
+  };
+}
+
+// Append rows for records[from..], returning how many were too short to use
+function appendRows<K extends string>(
+  mapping: ColumnMapping<K>,
+  records: string[][],
+  from: number,
+  rows: CsvRow<K>[]
+): number {
+  let shortRows = 0;
+  for (let i = from; i < records.length; i++) {
+    if (records[i].length < mapping.requiredWidth) {
+      shortRows++;
+      continue;
+    }
+    rows.push(makeRow(mapping.columns, records[i]));
+  }
+  return shortRows;
+}
+
+function assembleTable<K extends string>(
+  schema: CsvSchema<K>,
+  filePath: string,
+  header: string[],
+  mapping: ColumnMapping<K>,
+  rows: CsvRow<K>[],
+  shortRows: number
+): CsvTable<K> {
+  const diagnostics = [...mapping.diagnostics];
+  if (shortRows > 0) {
+    diagnostics.push({
+      file: schema.file,
+      level: 'warning',
+      message: `Skipped ${shortRows} row(s) with fewer than ${mapping.requiredWidth} columns`,
+    });
+  }
+
+  return {
+    file: schema.file,
+    path: filePath,
+    schemaVersion: mapping.schemaVersion,
+    header,
+    columns: mapping.columns,
+    rows,
+    diagnostics,
+    ok: mapping.ok,
+  };
+}
+
+/**
+ * Map schema columns onto parsed CSV rows (first row is the header).
+ */
+export function buildCsvTable<K extends string>(
+  schema: CsvSchema<K>,
+  filePath: string,
+  records: string[][]
+): CsvTable<K> {
+  const header = records[0] || [];
+  const mapping = mapColumns(schema, header);
+  const rows: CsvRow<K>[] = [];
+  const shortRows = mapping.ok ? appendRows(mapping, records, 1, rows) : 0;
+  return assembleTable(schema, filePath, header, mapping, rows, shortRows);
+}
+
+// ============ File Cache ============
+
+// Tables already built from a file's complete lines, one per schema
+interface CachedTable {
+  mapping: ColumnMapping<string>;
+  rows: CsvRow<string>[];
+  recordCount: number;
+  shortRows: number;
+}
+
+// Logs only ever grow during a game, so we keep what we've parsed and read just
+// the bytes appended since. A shrinking file or a changed first line means the
+// file was replaced (new game, cleared logs) and is read again from scratch.
+interface CachedFile {
+  mtimeMs: number;
+  size: number;
+  offset: number;        // bytes parsed so far, always just after a line break
+  head: string;          // first line, to spot a replaced file
+  records: string[][];   // complete lines only
+  tail: string;          // trailing text without a line break yet (row still being written)
+  tables: Map<CsvSchema<string>, CachedTable>;
+}
+
+const fileCache = new Map<string, CachedFile>();
+
+function readBytes(filePath: string, start: number, end: number): Buffer {
+  const buffer = Buffer.alloc(end - start);
+  const fd = openSync(filePath, 'r');
+  try {
+    let read = 0;
+    while (read < buffer.length) {
+      const n = readSync(fd, buffer, read, buffer.length - read, start + read);
+      if (n === 0) break;
+      read += n;
+    }
+    return read < buffer.length ? buffer.subarray(0, read) : buffer;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Split off the text after the last line break, which may be a half-written row
+function splitCompleteLines(bytes: Buffer): { complete: string; completeBytes: number; tail: string } {
+  const lastBreak = bytes.lastIndexOf(0x0A);
+  if (lastBreak < 0) {
+    return { complete: '', completeBytes: 0, tail: bytes.toString('utf-8') };
+  }
+  return {
+    complete: bytes.subarray(0, lastBreak + 1).toString('utf-8'),
+    completeBytes: lastBreak + 1,
+    tail: bytes.subarray(lastBreak + 1).toString('utf-8'),
+  };
+}
+
+function firstLine(filePath: string, size: number): string {
+  const bytes = readBytes(filePath, 0, Math.min(size, 4096));
+  const lineEnd = bytes.indexOf(0x0A);
+  return bytes.subarray(0, lineEnd >= 0 ? lineEnd : bytes.length).toString('utf-8');
+}
+
+function loadFile(filePath: string): CachedFile {
+  const stats = statSync(filePath);
+  const cached = fileCache.get(filePath);
+
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached;
+  }
+
+  // Appended to since we last looked: parse only the new lines
+  if (cached && stats.size >= cached.size && firstLine(filePath, stats.size) === cached.head) {
+    const { complete, completeBytes, tail } = splitCompleteLines(readBytes(filePath, cached.offset, stats.size));
+    if (complete) {
+      cached.records.push(...parseCsv(complete));
+    }
+    cached.offset += completeBytes;
+    cached.tail = tail;
+    cached.mtimeMs = stats.mtimeMs;
+    cached.size = stats.size;
+    return cached;
+  }
+
+  const { complete, completeBytes, tail } = splitCompleteLines(readBytes(filePath, 0, stats.size));
+  const entry: CachedFile = {
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+    offset: completeBytes,
+    head: firstLine(filePath, stats.size),
+    records: parseCsv(complete),
+    tail,
+    tables: new Map(),
+  };
+  fileCache.set(filePath, entry);
+  return entry;
+}
+
+function tableFromCache<K extends string>(schema: CsvSchema<K>, filePath: string, file: CachedFile): CsvTable<K> {
+  const key = schema as CsvSchema<string>;
+  let cached = file.tables.get(key);
+
+  // Only cache once the header line is complete; on a brand new file it may still be the tail
+  if (!cached) {
+    const header = file.records[0] || parseCsv(file.tail)[0] || [];
+    cached = { mapping: mapColumns(key, header), rows: [], recordCount: 1, shortRows: 0 };
+    if (file.records.length > 0) {
+      file.tables.set(key, cached);
+    }
+  }
+
+  if (cached.mapping.ok && file.records.length > cached.recordCount) {
+    cached.shortRows += appendRows(cached.mapping, file.records, cached.recordCount, cached.rows);
+    cached.recordCount = file.records.length;
+  }
+
+  // Include a complete-looking unterminated last row, as a plain read of the file would
+  let rows = cached.rows as CsvRow<K>[];
+  let shortRows = cached.shortRows;
+  if (cached.mapping.ok && file.tail.trim() && file.records.length > 0) {
+    rows = [...rows];
+    shortRows += appendRows(cached.mapping, parseCsv(file.tail), 0, rows as CsvRow<string>[]);
+  }
+
+  const header = file.records[0] || parseCsv(file.tail)[0] || [];
+  return assembleTable(schema, filePath, header, cached.mapping as ColumnMapping<K>, rows, shortRows);
+}
+
+/**
+ * Read a log file from a logs directory and map it with the given schema.
+ * Returns null when the file doesn't exist. Results are cached until the file's
+ * mtime or size changes; rows appended since the last read are parsed on their own.
+ */
+export function readCsvTable<K extends string>(logsDir: string, schema: CsvSchema<K>): CsvTable<K> | null {
+  const filePath = resolve(logsDir, schema.file);
+  if (!existsSync(filePath)) {
+    fileCache.delete(filePath);
+    recordReport(logsDir, schema.file, null);
+    return null;
+  }
+
+  const table = tableFromCache(schema, filePath, loadFile(filePath));
+  recordReport(logsDir, schema.file, { schemaVersion: table.schemaVersion, diagnostics: table.diagnostics });
+  return table;
+}
+
+// ============ Derived Results ============
+
+const derivedCache = new Map<string, { fingerprint: string; value: unknown }>();
+
+// mtime and size of each file, or "missing"
+function filesFingerprint(logsDir: string, files: string[]): string {
+  return files.map(file => {
+    const filePath = join(logsDir, file);
+    if (!existsSync(filePath)) return 'missing';
+    const stats = statSync(filePath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  }).join('|');
+}
+
+/**
+ * Compute a value from one or more log files, reusing the previous result until
+ * any of those files changes. Cached values are shared, so callers must not mutate them.
+ */
+export function cachedFromLogs<T>(logsDir: string, key: string, files: string[], compute: () => T): T {
+  const cacheKey = `${resolve(logsDir)}\0${key}`;
+  const fingerprint = filesFingerprint(logsDir, files);
+  const cached = derivedCache.get(cacheKey);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.value as T;
+  }
+
+  const value = compute();
+  derivedCache.set(cacheKey, { fingerprint, value });
+  return value;
+}
+
+// ============ Diagnostics ============
+
+/**
+ * Get the diagnostics recorded for files in a logs directory.
+ */
+export function getCsvDiagnostics(logsDir: string): CsvDiagnostic[] {
+  const byFile = reportsByDir.get(resolve(logsDir));
+  return byFile ? [...byFile.values()].flatMap(r => r.diagnostics) : [];
+}
+
+/**
+ * A warning for files read by position rather than by header name, whose values
+ * may be wrong if a patch moved their columns. Empty when every file was matched by name.
+ */
+export function formatSchemaNotice(logsDir: string): string {
+  const byFile = reportsByDir.get(resolve(logsDir));
+  const positional = byFile ? [...byFile.entries()].filter(([, r]) => r.schemaVersion === 'positional') : [];
+  if (positional.length === 0) return '';
+
+  const versions = [...byFile!.entries()]
+    .filter(([, r]) => r.schemaVersion !== 'standard')
+    .map(([file, r]) => `${file} ${r.schemaVersion}`);
+  const lines = [
+    '⚠️ Some log columns were matched by position because their headers weren\'t recognized. A game patch may have moved them, so check these values.',
+    `Schema versions: ${versions.join(', ')}`,
+  ];
+  for (const [file, report] of positional) {
+    for (const diag of report.diagnostics.filter(d => d.level === 'warning')) {
+      lines.push(`- ${file}: ${diag.message}`);
+    }
+  }
+  return lines.join('\n');
+}
+export function formatCsvDiagnostics(diagnostics: CsvDiagnostic[]): string {
+  if (diagnostics.length === 0) return '';
+
+  const lines = ['Log file problems:'];
+  for (const diag of diagnostics) {
+    lines.push(`- ${diag.level === 'error' ? 'ERROR' : 'Warning'} ${diag.file}: ${diag.message}`);
+  }
+  return lines.join('\n');
+}
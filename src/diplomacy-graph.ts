@@ -0,0 +1,144 @@
+import type { DiplomaticRelation } from './types.js';
+
+// The latest relations as a Mermaid or Graphviz DOT graph, for pasting into
+// docs or rendering locally. Edges are coloured by state and get thicker the
+// stronger the score; a pair that sees each other the same way gets one
+// undirected edge, otherwise each side gets its own arrow.
+
+export type GraphSyntax = 'mermaid' | 'dot';
+
+export interface DiplomacyGraphOptions {
+  syntax: GraphSyntax;
+  showThreatTrust?: boolean;  // Add threat and trust to the edge labels
+  includeNeutral?: boolean;   // Neutral pairs are left out by default to keep the graph readable
+}
+
+const STATE_COLORS: Record<string, string> = {
+  ALLIED: '#1b5e20',
+  DECLARED_FRIEND: '#43a047',
+  FRIENDLY: '#9ccc65',
+  NEUTRAL: '#9e9e9e',
+  UNFRIENDLY: '#fb8c00',
+  DENOUNCED: '#e53935',
+  WAR: '#7f0000',
+};
+
+interface GraphEdge {
+  from: DiplomaticRelation;
+  back: DiplomaticRelation | null;  // Set when both sides share the state: one undirected edge
+}
+
+// ============ Edges ============
+
+function graphEdges(relations: DiplomaticRelation[], includeNeutral: boolean): GraphEdge[] {
+  const shown = relations.filter(r => includeNeutral || r.state !== 'NEUTRAL');
+  const byPair = new Map(shown.map(r => [`${r.fromPlayerId}:${r.toPlayerId}`, r]));
+  const edges: GraphEdge[] = [];
+
+  for (const rel of shown) {
+    const back = byPair.get(`${rel.toPlayerId}:${rel.fromPlayerId}`);
+    if (back && back.state === rel.state) {
+      // Emit the mutual edge once, from the lower player ID
+      if (rel.fromPlayerId < rel.toPlayerId) edges.push({ from: rel, back });
+    } else {
+      edges.push({ from: rel, back: null });
+    }
+  }
+
+  return edges.sort((a, b) => a.from.fromPlayerId - b.from.fromPlayerId || a.from.toPlayerId - b.from.toPlayerId);
+}
+
+function signed(n: number): string {
+  return `${n >= 0 ? '+' : ''}${n}`;
+}
+
+function edgeLabel(edge: GraphEdge, showThreatTrust: boolean): string {
+  const relations = edge.back ? [edge.from, edge.back] : [edge.from];
+  const parts = [relations.map(r => signed(r.score)).join('/')];
+  if (showThreatTrust) {
+    parts.push(`threat ${relations.map(r => r.threat.toFixed(0)).join('/')}`);
+    parts.push(`trust ${relations.map(r => r.trust.toFixed(0)).join('/')}`);
+  }
+  return parts.join(', ');
+}
+
+// 1px for indifference up to 5px for scores of ±40 and beyond
+function edgeWidth(edge: GraphEdge): number {
+  const scores = edge.back ? [edge.from.score, edge.back.score] : [edge.from.score];
+  const strength = Math.max(...scores.map(Math.abs));
+  return 1 + Math.min(4, Math.round(strength / 10));
+}
+
+function stateColor(state: string): string {
+  return STATE_COLORS[state] ?? STATE_COLORS.NEUTRAL;
+}
+
+function nodes(edges: GraphEdge[]): Map<number, string> {
+  const names = new Map<number, string>();
+  for (const { from } of edges) {
+    names.set(from.fromPlayerId, from.fromCiv);
+    names.set(from.toPlayerId, from.toCiv);
+  }
+  return new Map([...names.entries()].sort((a, b) => a[0] - b[0]));
+}
+
+// ============ Rendering ============
+
+function renderMermaid(edges: GraphEdge[], showThreatTrust: boolean): string {
+  const lines = ['graph LR'];
+  for (const [id, name] of nodes(edges)) {
+    lines.push(`  p${id}["${name.replace(/"/g, '#quot;')}"]`);
+  }
+  edges.forEach(edge => {
+    const link = edge.back ? '---' : '-->';
+    lines.push(`  p${edge.from.fromPlayerId} -- "${edgeLabel(edge, showThreatTrust)}" ${link} p${edge.from.toPlayerId}`);
+  });
+  // linkStyle refers to links by the order they were declared
+  edges.forEach((edge, i) => {
+    lines.push(`  linkStyle ${i} stroke:${stateColor(edge.from.state)},stroke-width:${edgeWidth(edge)}px`);
+  });
+  return lines.join('\n');
+}
+
+function renderDot(edges: GraphEdge[], showThreatTrust: boolean): string {
+  const lines = ['digraph Diplomacy {', '  rankdir=LR;', '  node [shape=box, style=rounded];'];
+  for (const [id, name] of nodes(edges)) {
+    lines.push(`  p${id} [label="${name.replace(/"/g, '\\"')}"];`);
+  }
+  for (const edge of edges) {
+    const attributes = [
+      `label="${edgeLabel(edge, showThreatTrust)}"`,
+      `color="${stateColor(edge.from.state)}"`,
+      `penwidth=${edgeWidth(edge)}`,
+      `tooltip="${edge.from.state.replace(/_/g, ' ')}"`,
+    ];
+    if (edge.back) attributes.push('dir=none');
+    lines.push(`  p${edge.from.fromPlayerId} -> p${edge.from.toPlayerId} [${attributes.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Render relations (normally the latest, see getLatestRelations) as a graph in the chosen syntax.
+ */
+export function renderDiplomacyGraph(relations: DiplomaticRelation[], options: DiplomacyGraphOptions): string {
+  const edges = graphEdges(relations, options.includeNeutral ?? false);
+  const showThreatTrust = options.showThreatTrust ?? false;
+  return options.syntax === 'dot' ? renderDot(edges, showThreatTrust) : renderMermaid(edges, showThreatTrust);
+}
+
+/**
+ * The graph wrapped in a fenced code block with a colour legend.
+ */
+export function formatDiplomacyGraph(graph: string, syntax: GraphSyntax, turn: number): string {
+  const lines: string[] = [];
+  lines.push(`# Diplomacy Graph (Turn ${turn})`);
+  lines.push('');
+  lines.push('```' + syntax);
+  lines.push(graph);
+  lines.push('```');
+  lines.push('');
+  lines.push('Edge colours: allied (dark green), declared friends (green), friendly (light green), neutral (grey), unfriendly (orange), denounced (red), war (dark red). Labels show the score each side gives the other; thicker edges mean stronger feelings. Lines without arrows are mutual.');
+  return lines.join('\n');
+}
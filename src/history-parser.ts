@@ -1,18 +1,16 @@
-import { readFileSync, existsSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import type { CivStatistics, VictoryProgress, GameHistory, TurnData, CivTrend } from './types.js';
 import { getLogsDirectory } from './paths.js';
+import { readCsvTable, cachedFromLogs } from './csv.js';
+import { PLAYER_STATS_SCHEMA, PLAYER_SCORES_SCHEMA } from './log-schemas.js';
+import { civDisplayName, defaultLeaderName, isCityState } from './reference.js';
 
 // Re-export for backwards compatibility
 export { getLogsDirectory } from './paths.js';
 
-const LOGS_PATH = getLogsDirectory();
-
-const PLAYER_STATS_FILE = 'Player_Stats.csv';
-const PLAYER_SCORES_FILE = 'Game_PlayerScores.csv';
-
-export function findHistoryFile(): string | null {
-  const statsPath = join(LOGS_PATH, PLAYER_STATS_FILE);
+export function findHistoryFile(logsDir: string = getLogsDirectory()): string | null {
+  const statsPath = join(logsDir, PLAYER_STATS_SCHEMA.file);
   if (existsSync(statsPath)) {
     return statsPath;
   }
@@ -54,216 +52,81 @@ interface RawPlayerScore {
   wonder: number;
 }
 
-function parsePlayerStatsCSV(): RawPlayerStats[] {
-  const statsPath = join(LOGS_PATH, PLAYER_STATS_FILE);
-  if (!existsSync(statsPath)) {
+function parsePlayerStatsCSV(logsDir: string): RawPlayerStats[] {
+  const table = readCsvTable(logsDir, PLAYER_STATS_SCHEMA);
+  if (!table || !table.ok) {
     return [];
   }
 
-  const content = readFileSync(statsPath, 'utf-8');
-  const lines = content.trim().split('\n');
-
-  if (lines.length < 2) return [];
-
-  const stats: RawPlayerStats[] = [];
-
-  // Skip header line
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 20) continue;
-
-    stats.push({
-      turn: parseInt(values[0], 10),
-      civilization: values[1].replace('CIVILIZATION_', ''),
-      numCities: parseInt(values[2], 10),
-      population: parseInt(values[3], 10),
-      techs: parseInt(values[4], 10),
-      civics: parseInt(values[5], 10),
-      landUnits: parseInt(values[6], 10),
-      corps: parseInt(values[7], 10),
-      armies: parseInt(values[8], 10),
-      navalUnits: parseInt(values[9], 10),
-      tilesOwned: parseInt(values[10], 10),
-      tilesImproved: parseInt(values[11], 10),
-      goldBalance: parseInt(values[12], 10),
-      faithBalance: parseInt(values[13], 10),
-      scienceYield: parseInt(values[14], 10),
-      cultureYield: parseInt(values[15], 10),
-      goldYield: parseInt(values[16], 10),
-      faithYield: parseInt(values[17], 10),
-      productionYield: parseInt(values[18], 10),
-      foodYield: parseInt(values[19], 10),
-    });
-  }
-
-  return stats;
+  return table.rows.map(row => ({
+    turn: row.int('turn'),
+    civilization: row.text('player').replace('CIVILIZATION_', ''),
+    numCities: row.int('numCities'),
+    population: row.int('population'),
+    techs: row.int('techs'),
+    civics: row.int('civics'),
+    landUnits: row.int('landUnits'),
+    corps: row.int('corps'),
+    armies: row.int('armies'),
+    navalUnits: row.int('navalUnits'),
+    tilesOwned: row.int('tilesOwned'),
+    tilesImproved: row.int('tilesImproved'),
+    goldBalance: row.int('goldBalance'),
+    faithBalance: row.int('faithBalance'),
+    scienceYield: row.int('science'),
+    cultureYield: row.int('culture'),
+    goldYield: row.int('gold'),
+    faithYield: row.int('faith'),
+    productionYield: row.int('production'),
+    foodYield: row.int('food'),
+  }));
 }
 
-function parsePlayerScoresCSV(): RawPlayerScore[] {
-  const scoresPath = join(LOGS_PATH, PLAYER_SCORES_FILE);
-  if (!existsSync(scoresPath)) {
+function parsePlayerScoresCSV(logsDir: string): RawPlayerScore[] {
+  const table = readCsvTable(logsDir, PLAYER_SCORES_SCHEMA);
+  if (!table || !table.ok) {
     return [];
   }
 
-  const content = readFileSync(scoresPath, 'utf-8');
-  const lines = content.trim().split('\n');
-
-  if (lines.length < 2) return [];
-
-  const scores: RawPlayerScore[] = [];
-
-  // Skip header line
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 9) continue;
-
-    scores.push({
-      turn: parseInt(values[0], 10),
-      playerId: parseInt(values[1], 10),
-      score: parseInt(values[2], 10),
-      civics: parseInt(values[3], 10),
-      empire: parseInt(values[4], 10),
-      greatPeople: parseInt(values[5], 10),
-      religion: parseInt(values[6], 10),
-      tech: parseInt(values[7], 10),
-      wonder: parseInt(values[8], 10),
-    });
-  }
-
-  return scores;
+  return table.rows.map(row => ({
+    turn: row.int('turn'),
+    playerId: row.int('player'),
+    score: row.int('score'),
+    civics: row.int('civics'),
+    empire: row.int('empire'),
+    greatPeople: row.int('greatPeople'),
+    religion: row.int('religion'),
+    tech: row.int('tech'),
+    wonder: row.int('wonders'),
+  }));
 }
 
-// Map civilization names to proper display names
-const CIV_DISPLAY_NAMES: Record<string, { civ: string; leader: string }> = {
-  // Major Civilizations
-  'AMERICA': { civ: 'America', leader: 'Theodore Roosevelt' },
-  'ARABIA': { civ: 'Arabia', leader: 'Saladin' },
-  'AUSTRALIA': { civ: 'Australia', leader: 'John Curtin' },
-  'AZTEC': { civ: 'Aztec', leader: 'Montezuma' },
-  'BABYLON_STK': { civ: 'Babylon', leader: 'Hammurabi' },
-  'BRAZIL': { civ: 'Brazil', leader: 'Pedro II' },
-  'BYZANTIUM': { civ: 'Byzantium', leader: 'Basil II' },
-  'CANADA': { civ: 'Canada', leader: 'Wilfrid Laurier' },
-  'CHINA': { civ: 'China', leader: 'Qin Shi Huang' },
-  'CREE': { civ: 'Cree', leader: 'Poundmaker' },
-  'EGYPT': { civ: 'Egypt', leader: 'Cleopatra' },
-  'ENGLAND': { civ: 'England', leader: 'Victoria' },
-  'ETHIOPIA': { civ: 'Ethiopia', leader: 'Menelik II' },
-  'FRANCE': { civ: 'France', leader: 'Catherine de Medici' },
-  'GAUL': { civ: 'Gaul', leader: 'Ambiorix' },
-  'GEORGIA': { civ: 'Georgia', leader: 'Tamar' },
-  'GERMANY': { civ: 'Germany', leader: 'Frederick Barbarossa' },
-  'GRAN_COLOMBIA': { civ: 'Gran Colombia', leader: 'Simón Bolívar' },
-  'GREECE': { civ: 'Greece', leader: 'Pericles' },
-  'HUNGARY': { civ: 'Hungary', leader: 'Matthias Corvinus' },
-  'INCA': { civ: 'Inca', leader: 'Pachacuti' },
-  'INDIA': { civ: 'India', leader: 'Gandhi' },
-  'INDONESIA': { civ: 'Indonesia', leader: 'Gitarja' },
-  'JAPAN': { civ: 'Japan', leader: 'Hojo Tokimune' },
-  'KHMER': { civ: 'Khmer', leader: 'Jayavarman VII' },
-  'KONGO': { civ: 'Kongo', leader: 'Mvemba a Nzinga' },
-  'KOREA': { civ: 'Korea', leader: 'Seondeok' },
-  'MACEDON': { civ: 'Macedon', leader: 'Alexander' },
-  'MALI': { civ: 'Mali', leader: 'Mansa Musa' },
-  'MAORI': { civ: 'Maori', leader: 'Kupe' },
-  'MAPUCHE': { civ: 'Mapuche', leader: 'Lautaro' },
-  'MAYA': { civ: 'Maya', leader: 'Lady Six Sky' },
-  'MONGOLIA': { civ: 'Mongolia', leader: 'Genghis Khan' },
-  'NETHERLANDS': { civ: 'Netherlands', leader: 'Wilhelmina' },
-  'NORWAY': { civ: 'Norway', leader: 'Harald Hardrada' },
-  'NUBIA': { civ: 'Nubia', leader: 'Amanitore' },
-  'OTTOMAN': { civ: 'Ottoman Empire', leader: 'Suleiman' },
-  'PERSIA': { civ: 'Persia', leader: 'Cyrus' },
-  'PHOENICIA': { civ: 'Phoenicia', leader: 'Dido' },
-  'POLAND': { civ: 'Poland', leader: 'Jadwiga' },
-  'PORTUGAL': { civ: 'Portugal', leader: 'João III' },
-  'ROME': { civ: 'Rome', leader: 'Trajan' },
-  'RUSSIA': { civ: 'Russia', leader: 'Peter' },
-  'SCOTLAND': { civ: 'Scotland', leader: 'Robert the Bruce' },
-  'SCYTHIA': { civ: 'Scythia', leader: 'Tomyris' },
-  'SPAIN': { civ: 'Spain', leader: 'Philip II' },
-  'SUMERIA': { civ: 'Sumeria', leader: 'Gilgamesh' },
-  'SWEDEN': { civ: 'Sweden', leader: 'Kristina' },
-  'VIETNAM': { civ: 'Vietnam', leader: 'Bà Triệu' },
-  'ZULU': { civ: 'Zulu', leader: 'Shaka' },
-  'FREE_CITIES': { civ: 'Free Cities', leader: 'Free Cities' },
-  // City-states
-  'TARUGA': { civ: 'Taruga', leader: 'Taruga' },
-  'AKKAD': { civ: 'Akkad', leader: 'Akkad' },
-  'NGAZARGAMU': { civ: 'Ngazargamu', leader: 'Ngazargamu' },
-  'BRUSSELS': { civ: 'Brussels', leader: 'Brussels' },
-  'BABYLON': { civ: 'Babylon', leader: 'Babylon' },
-  'LA_VENTA': { civ: 'La Venta', leader: 'La Venta' },
-  'HUNZA': { civ: 'Hunza', leader: 'Hunza' },
-  'HATTUSA': { civ: 'Hattusa', leader: 'Hattusa' },
-  'KABUL': { civ: 'Kabul', leader: 'Kabul' },
-  'SINGAPORE': { civ: 'Singapore', leader: 'Singapore' },
-  'GRANADA': { civ: 'Granada', leader: 'Granada' },
-  'CAHOKIA': { civ: 'Cahokia', leader: 'Cahokia' },
-  'ZANZIBAR': { civ: 'Zanzibar', leader: 'Zanzibar' },
-  'MITLA': { civ: 'Mitla', leader: 'Mitla' },
-  'JOHANNESBURG': { civ: 'Johannesburg', leader: 'Johannesburg' },
-  'MUSCAT': { civ: 'Muscat', leader: 'Muscat' },
-  'GENEVA': { civ: 'Geneva', leader: 'Geneva' },
-  'VALLETTA': { civ: 'Valletta', leader: 'Valletta' },
-  'BUENOS_AIRES': { civ: 'Buenos Aires', leader: 'Buenos Aires' },
-  'ANTANANARIVO': { civ: 'Antananarivo', leader: 'Antananarivo' },
-  'KUMASI': { civ: 'Kumasi', leader: 'Kumasi' },
-  'VILNIUS': { civ: 'Vilnius', leader: 'Vilnius' },
-  'BOLOGNA': { civ: 'Bologna', leader: 'Bologna' },
-  'FEZ': { civ: 'Fez', leader: 'Fez' },
-  'JERUSALEM': { civ: 'Jerusalem', leader: 'Jerusalem' },
-  'KANDY': { civ: 'Kandy', leader: 'Kandy' },
-  'YEREVAN': { civ: 'Yerevan', leader: 'Yerevan' },
-  'VATICAN_CITY': { civ: 'Vatican City', leader: 'Vatican City' },
-  'AUCKLAND': { civ: 'Auckland', leader: 'Auckland' },
-  'NAZCA': { civ: 'Nazca', leader: 'Nazca' },
-  'SAMARKAND': { civ: 'Samarkand', leader: 'Samarkand' },
-  'ANTIOCH': { civ: 'Antioch', leader: 'Antioch' },
-  'BANDAR_BRUNEI': { civ: 'Bandar Brunei', leader: 'Bandar Brunei' },
-  'HONG_KONG': { civ: 'Hong Kong', leader: 'Hong Kong' },
-  'AMSTERDAM': { civ: 'Amsterdam', leader: 'Amsterdam' },
-  'STOCKHOLM': { civ: 'Stockholm', leader: 'Stockholm' },
-  'MOHENJO_DARO': { civ: 'Mohenjo-Daro', leader: 'Mohenjo-Daro' },
-  'NAN_MADOL': { civ: 'Nan Madol', leader: 'Nan Madol' },
-  'PRESLAV': { civ: 'Preslav', leader: 'Preslav' },
-  'RAPA_NUI': { civ: 'Rapa Nui', leader: 'Rapa Nui' },
-  'TORONTO': { civ: 'Toronto', leader: 'Toronto' },
-  'ARMAGH': { civ: 'Armagh', leader: 'Armagh' },
-  'CHINGUETTI': { civ: 'Chinguetti', leader: 'Chinguetti' },
-  'LAHORE': { civ: 'Lahore', leader: 'Lahore' },
-};
-
 function getCivDisplayInfo(rawName: string): { civ: string; leader: string } {
-  const info = CIV_DISPLAY_NAMES[rawName];
-  if (info) return info;
-
-  // Format unknown names
-  const formatted = rawName.split('_')
-    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
-    .join(' ');
-  return { civ: formatted, leader: formatted };
+  return { civ: civDisplayName(rawName), leader: defaultLeaderName(rawName) };
+}
+
+// City-states and the Free Cities are left out of the major civ rankings
+function isMinorPlayer(civName: string): boolean {
+  return isCityState(civName) || civName === 'FREE_CITIES';
 }
 
-function isCityState(civName: string): boolean {
-  const cityStates = [
-    'TARUGA', 'AKKAD', 'NGAZARGAMU', 'BRUSSELS', 'BABYLON', 'LA_VENTA', 'HUNZA',
-    'HATTUSA', 'KABUL', 'SINGAPORE', 'GRANADA', 'CAHOKIA', 'ZANZIBAR', 'MITLA',
-    'JOHANNESBURG', 'MUSCAT', 'GENEVA', 'VALLETTA', 'BUENOS_AIRES', 'ANTANANARIVO',
-    'KUMASI', 'VILNIUS', 'BOLOGNA', 'FEZ', 'JERUSALEM', 'KANDY', 'YEREVAN',
-    'VATICAN_CITY', 'AUCKLAND', 'NAZCA', 'SAMARKAND', 'ANTIOCH', 'BANDAR_BRUNEI',
-  ];
-  return cityStates.includes(civName) || civName === 'FREE_CITIES';
+export function parseGameHistory(logsDir: string = getLogsDirectory()): GameHistory | null {
+  return cachedFromLogs(
+    logsDir,
+    'parseGameHistory',
+    [PLAYER_STATS_SCHEMA.file, PLAYER_SCORES_SCHEMA.file],
+    () => loadGameHistory(logsDir)
+  );
 }
 
-export function parseGameHistory(): GameHistory | null {
-  const rawStats = parsePlayerStatsCSV();
+function loadGameHistory(logsDir: string): GameHistory | null {
+  const rawStats = parsePlayerStatsCSV(logsDir);
   if (rawStats.length === 0) {
     return null;
   }
 
   // Parse scores and group by turn
-  const rawScores = parsePlayerScoresCSV();
+  const rawScores = parsePlayerScoresCSV(logsDir);
   const scoresByTurn = new Map<number, Map<number, number>>();
   for (const score of rawScores) {
     if (!scoresByTurn.has(score.turn)) {
@@ -303,7 +166,7 @@ export function parseGameHistory(): GameHistory | null {
           civilization: displayInfo.civ,
           leader: displayInfo.leader,
           rawCivName: s.civilization,
-          isCityState: isCityState(s.civilization),
+          isCityState: isMinorPlayer(s.civilization),
           turn: s.turn,
           score,
           cities: s.numCities,
@@ -333,8 +196,8 @@ export function parseGameHistory(): GameHistory | null {
   return history;
 }
 
-export function getLatestTurnStats(): CivStatistics[] | null {
-  const history = parseGameHistory();
+export function getLatestTurnStats(logsDir: string = getLogsDirectory()): CivStatistics[] | null {
+  const history = parseGameHistory(logsDir);
   if (!history || history.turns.length === 0) {
     return null;
   }
@@ -344,31 +207,46 @@ export function getLatestTurnStats(): CivStatistics[] | null {
   return latestTurn.civStats;
 }
 
-export function getLatestTurnStatsFullCivsOnly(): CivStatistics[] | null {
+// Find the most recent COMPLETE turn (one with multiple major civs)
+// Current turn may only have the player's data if it's mid-turn
+function findLatestCompleteTurn(history: GameHistory): TurnData | null {
+  for (let i = history.turns.length - 1; i >= 0; i--) {
+    const turnStats = history.turns[i].civStats;
+    if (!turnStats || turnStats.length === 0) continue;
+
+    // If we have multiple major civs, this is a complete turn
+    const majorCivs = turnStats.filter(s => !s.isCityState);
+    if (majorCivs.length > 1) {
+      return history.turns[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the number of the most recent turn every civ has finished, or null if none yet.
+ */
+export function getLatestCompleteTurn(logsDir: string = getLogsDirectory()): number | null {
+  const history = parseGameHistory(logsDir);
+  if (!history) return null;
+  return findLatestCompleteTurn(history)?.turn ?? null;
+}
+
+export function getLatestTurnStatsFullCivsOnly(logsDir: string = getLogsDirectory()): CivStatistics[] | null {
   // Early exit if log file doesn't exist
-  const statsPath = join(LOGS_PATH, PLAYER_STATS_FILE);
+  const statsPath = join(logsDir, PLAYER_STATS_SCHEMA.file);
   if (!existsSync(statsPath)) {
     return null;
   }
 
-  const history = parseGameHistory();
+  const history = parseGameHistory(logsDir);
   if (!history || history.turns.length === 0) {
     return null;
   }
 
-  // Find the most recent COMPLETE turn (one with multiple major civs)
-  // Current turn may only have the player's data if it's mid-turn
-  for (let i = history.turns.length - 1; i >= 0; i--) {
-    const turnStats = history.turns[i].civStats;
-    if (!turnStats || turnStats.length === 0) continue;
-
-    // Filter to major civs only
-    const majorCivs = turnStats.filter(s => !s.isCityState);
-
-    // If we have multiple major civs, this is a complete turn
-    if (majorCivs.length > 1) {
-      return majorCivs;
-    }
+  const completeTurn = findLatestCompleteTurn(history);
+  if (completeTurn) {
+    return completeTurn.civStats.filter(s => !s.isCityState);
   }
 
   // Fallback to latest turn if no complete turns found
@@ -378,8 +256,8 @@ export function getLatestTurnStatsFullCivsOnly(): CivStatistics[] | null {
   return latestStats.filter(s => !s.isCityState);
 }
 
-export function getStatsForTurn(turnNumber: number): CivStatistics[] | null {
-  const history = parseGameHistory();
+export function getStatsForTurn(turnNumber: number, logsDir: string = getLogsDirectory()): CivStatistics[] | null {
+  const history = parseGameHistory(logsDir);
   if (!history) {
     return null;
   }
@@ -521,14 +399,14 @@ export function formatVictoryProgress(progress: VictoryProgress[]): string {
 
 // ============ Trend Analysis ============
 
-export function analyzeTrends(turnsBack: number = 10): CivTrend[] | null {
-  const history = parseGameHistory();
+export function analyzeTrends(turnsBack: number = 10, logsDir: string = getLogsDirectory()): CivTrend[] | null {
+  const history = parseGameHistory(logsDir);
   if (!history || history.turns.length < 2) {
     return null;
   }
 
-  // Get unique civilizations from the latest turn (major civs only)
-  const latestTurn = history.turns[history.turns.length - 1];
+  // End at the latest complete turn: mid-turn the newest one may only have the player's row
+  const latestTurn = findLatestCompleteTurn(history) ?? history.turns[history.turns.length - 1];
   const majorCivs = latestTurn.civStats.filter(s => !s.isCityState);
 
   if (majorCivs.length === 0) {
@@ -4,6 +4,13 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import {
@@ -30,111 +37,337 @@ import {
   parseMilitaryIntel,
   parseCombatLog,
   parseCityProduction,
+  parseCityTransfers,
   parseCityFoundingStats,
   parseTechStatus,
+  forecastTechRace,
+  parseCivicStatus,
   parseWorldCongress,
   parseGreatPeople,
   parseCulturalGreatPeople,
   parseScoreBreakdown,
   formatDiplomacyStatus,
   formatDiplomacyModifiers,
+  formatDiplomaticHistory,
   formatMilitaryIntelligence,
   formatCombatLog,
   formatCityProduction,
+  filterProductionByCiv,
+  filterTransfersByCiv,
   formatCityStatus,
   formatTechStatus,
+  formatCivicStatus,
   formatWorldCongress,
   formatGreatPeople,
   formatCulturalGreatPeople,
   formatScoreBreakdown,
-  generateStrategicOverview,
+  analyzeStrategicSituation,
+  formatStrategicOverview,
+  getLatestRelations,
+  getDiplomaticHistory,
+  latestTurnRecords,
 } from './logs-parser.js';
+import {
+  getLogsDirectoryCandidates,
+  getSavesDirectoryCandidates,
+  formatCheckedDirectories,
+} from './paths.js';
+import { compareSaves, formatSaveComparison } from './save-compare.js';
+import { analyzeRosterTrend, buildHistoryFromAutosaves, formatAutosaveRoster, formatRosterTrend } from './save-history.js';
+import { renderDiplomacyGraph, formatDiplomacyGraph } from './diplomacy-graph.js';
+import { analyzeCoalitions, formatCoalitions } from './coalitions.js';
+import { normalizeName } from './names.js';
+import { getCsvDiagnostics, formatCsvDiagnostics, formatSchemaNotice } from './csv.js';
+import {
+  listResources,
+  listResourceTemplates,
+  readResource,
+  CURRENT_TURN_URI,
+} from './resources.js';
+import { watchForNewTurns } from './turn-watcher.js';
+import { listPrompts, getPrompt } from './prompts.js';
+import { getOutputSchema } from './output-schemas.js';
+import { getHttpOptions } from './config.js';
+import { resolvePlayer, formatPlayerIdentity } from './player-identity.js';
+import {
+  getGameNotes,
+  listNotedGames,
+  addGameNote,
+  editGameNote,
+  deleteGameNote,
+  formatPlayerContext,
+  formatGameNotes,
+} from './notes.js';
+import { startHttpServer, MCP_ENDPOINT } from './http-transport.js';
+
+// Appended to "no data" responses so users can see where we looked for logs
+// and whether any log file was found but couldn't be read
+function logsSearchHint(logsDir?: string): string {
+  const candidates = logsDir
+    ? [{ path: logsDir, source: 'logs_dir argument', override: true }]
+    : getLogsDirectoryCandidates();
+  const hint = formatCheckedDirectories('logs', candidates);
+  const problems = formatCsvDiagnostics(getCsvDiagnostics(logsDir || getLogsDirectory()));
+  return problems ? `${hint}\n\n${problems}` : hint;
+}
 
-// In-memory storage for game context notes
-const gameContext: Map<string, string> = new Map();
-
-const server = new Server(
-  {
-    name: 'civ6mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+type OutputFormat = 'markdown' | 'json';
+
+// Tools always return their records as structuredContent; `format` picks
+// whether the text content is the readable report or the same data as JSON
+function toolResult(format: OutputFormat, text: string, data: Record<string, unknown>) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: format === 'json' ? JSON.stringify(data, null, 2) : text,
+      },
+    ],
+    structuredContent: data,
+  };
+}
+
+// JSON schema for the output format argument
+const FORMAT_PROPERTY = {
+  type: 'string',
+  enum: ['markdown', 'json'],
+  description: 'Text output format. "json" returns the same records as structuredContent. Default: markdown',
+};
+
+// JSON schema for the save file that identifies which game's notes to use
+const SAVE_PATH_PROPERTY = {
+  type: 'string',
+  description: 'Full path to a .Civ6Save file of the game. Defaults to the most recent save',
+};
+
+// JSON schema for a note ID argument
+const NOTE_ID_PROPERTY = {
+  type: 'number',
+  description: 'ID of the note, as shown by list_game_notes',
+};
+
+// JSON schema for the human player override
+const PLAYER_PROPERTY = {
+  type: 'string',
+  description: 'Your civilization, leader or player ID. Only needed if detection from the save picks the wrong one',
+};
+
+// JSON schema for the per-call logs directory argument
+const LOGS_DIR_PROPERTY = {
+  type: 'string',
+  description: 'Logs directory to read instead of the detected game folder (e.g. a copy of a finished game\'s Logs folder)',
+};
+
+// JSON schema for the per-call saves directory argument
+const SAVES_DIR_PROPERTY = {
+  type: 'string',
+  description: 'Saves directory to scan instead of the detected game folder',
+};
 
 // Define tool schemas
+const LogsDirArg = z.string().optional().describe('Logs directory to read instead of the detected game folder');
+const SavesDirArg = z.string().optional().describe('Saves directory to scan instead of the detected game folder');
+const FormatArg = z.enum(['markdown', 'json']).optional().default('markdown').describe('Text output format');
+
 const ListSavesSchema = z.object({
   filter: z.enum(['all', 'autosave', 'manual', 'quicksave']).optional().default('all'),
+  saves_dir: SavesDirArg,
+  format: FormatArg,
 });
 
+const PlayerArg = z.string().optional().describe('Your civilization, leader or player ID, if detection picks the wrong one');
+
 const ReadGameStateSchema = z.object({
   save_path: z.string().describe('Full path to the .Civ6Save file'),
+  player: PlayerArg,
+  format: FormatArg,
+});
+
+const CompareSavesSchema = z.object({
+  before_path: z.string().describe('Full path to the earlier .Civ6Save file'),
+  after_path: z.string().describe('Full path to the later .Civ6Save file'),
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
 const GetStrategyBriefSchema = z.object({
   save_path: z.string().describe('Full path to the .Civ6Save file'),
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
+const SavePathArg = z.string().optional().describe('Save file identifying the game. Defaults to the most recent save');
+
 const SetGameContextSchema = z.object({
   context: z.string().describe('Game context information (yields, military, cities, goals, etc.)'),
+  save_path: SavePathArg,
+  turn: z.number().optional().describe('Turn the note refers to. Defaults to the save\'s turn'),
+  format: FormatArg,
+});
+
+const GetGameContextSchema = z.object({
+  save_path: SavePathArg,
+  format: FormatArg,
+});
+
+const ListGameNotesSchema = z.object({
+  save_path: SavePathArg,
+  all_games: z.boolean().optional().default(false).describe('List notes for every game instead of one'),
+  format: FormatArg,
+});
+
+const EditGameNoteSchema = z.object({
+  note_id: z.number().describe('ID of the note, as shown by list_game_notes'),
+  context: z.string().describe('New text for the note'),
+  save_path: SavePathArg,
+  turn: z.number().optional().describe('New turn for the note'),
+  format: FormatArg,
 });
 
-const GetGameContextSchema = z.object({});
+const DeleteGameNoteSchema = z.object({
+  note_id: z.number().describe('ID of the note, as shown by list_game_notes'),
+  save_path: SavePathArg,
+  format: FormatArg,
+});
 
 const GetCivStatisticsSchema = z.object({
   turn: z.number().optional().describe('Specific turn number to get stats for. Defaults to latest turn.'),
+  logs_dir: LogsDirArg,
+  saves_dir: SavesDirArg,
+  format: FormatArg,
 });
 
-const GetVictoryProgressSchema = z.object({});
+const GetVictoryProgressSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
-const GetYieldComparisonSchema = z.object({});
+const GetYieldComparisonSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
 // New log mining tool schemas
 const GetDiplomaticStatusSchema = z.object({
   civilization: z.string().optional().describe('Filter to show relations for a specific civilization'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
+
+const GetDiplomaticHistorySchema = z.object({
+  civilization: z.string().optional().describe('Only show events involving this civilization'),
+  other_civilization: z.string().optional().describe('With civilization, show this pair\'s events and score/trust trajectory'),
+  turns: z.number().optional().default(30).describe('Number of recent turns to cover'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
+
+const GetDiplomacyGraphSchema = z.object({
+  syntax: z.enum(['mermaid', 'dot']).optional().default('mermaid').describe('Graph syntax'),
+  civilization: z.string().optional().describe('Only show relations involving this civilization'),
+  show_threat_trust: z.boolean().optional().default(false).describe('Add threat and trust to the edge labels'),
+  include_neutral: z.boolean().optional().default(false).describe('Also draw neutral relations'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
+
+const GetCoalitionsSchema = z.object({
+  target: z.string().optional().describe('Civilization to find joint-war partners against. Defaults to the civ you like least'),
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
 const GetDiplomaticModifiersSchema = z.object({
   civilization: z.string().optional().describe('Filter to show modifiers for a specific civilization'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
-const GetMilitaryIntelligenceSchema = z.object({});
+const GetMilitaryIntelligenceSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
 const GetCombatLogSchema = z.object({
   turns: z.number().optional().default(5).describe('Number of recent turns to show'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
 const GetCityProductionSchema = z.object({
-  civilization: z.string().optional().describe('Filter to show production for a specific civilization'),
+  civilization: z.string().optional().describe('Only show cities owned by this civilization'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
 const GetCityStatusSchema = z.object({
-  player_id: z.number().optional().default(0).describe('Player ID (default: 0 for human player)'),
+  player_id: z.number().optional().describe('Player ID. Defaults to the human player'),
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
+
+const GetTechStatusSchema = z.object({
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
-const GetTechStatusSchema = z.object({});
+const GetCivicStatusSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
-const GetWorldCongressSchema = z.object({});
+const GetWorldCongressSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
-const GetGreatPeopleSchema = z.object({});
+const GetGreatPeopleSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
-const GetCulturalGreatPeopleSchema = z.object({});
+const GetCulturalGreatPeopleSchema = z.object({
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
-const GetScoreBreakdownSchema = z.object({});
+const GetScoreBreakdownSchema = z.object({
+  player: PlayerArg,
+  logs_dir: LogsDirArg,
+  format: FormatArg,
+});
 
 const GetStrategicOverviewSchema = z.object({
-  civilization: z.string().optional().describe('Your civilization name for personalized analysis'),
+  civilization: z.string().optional().describe('Your civilization, if detection picks the wrong one'),
+  logs_dir: LogsDirArg,
+  format: FormatArg,
 });
 
 const GetTrendAnalysisSchema = z.object({
   turns: z.number().optional().default(10).describe('Number of turns to analyze (default: 10)'),
+  logs_dir: LogsDirArg,
+  saves_dir: SavesDirArg,
+  format: FormatArg,
 });
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+// Notes belong to a game; without a save path, assume the game in the most recent save
+function resolveSavePath(savePath?: string): string {
+  if (savePath) return savePath;
+
+  const latest = listSaveFiles('all')[0];
+  if (!latest) {
+    throw new Error(`No save files found to identify the game. Pass save_path.\n\n${formatCheckedDirectories('saves', getSavesDirectoryCandidates())}`);
+  }
+  return latest.path;
+}
+
+// Available tools, for tools/list
+function listTools() {
   return {
     tools: [
       {
@@ -148,12 +381,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               enum: ['all', 'autosave', 'manual', 'quicksave'],
               description: 'Filter saves by type. Default: all',
             },
+            saves_dir: SAVES_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('list_saves'),
       },
       {
         name: 'read_game_state',
-        description: 'Parse a Civilization VI save file and return the current game state including leader, civilization, era, difficulty, and other players',
+        description: 'Parse a Civilization VI save file and return the current game state including leader, civilization, era, difficulty, other players (with player IDs and alive/eliminated status), city-states and mods',
         inputSchema: {
           type: 'object',
           properties: {
@@ -161,9 +397,34 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Full path to the .Civ6Save file',
             },
+            player: PLAYER_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
           required: ['save_path'],
         },
+        outputSchema: getOutputSchema('read_game_state'),
+      },
+      {
+        name: 'compare_saves',
+        description: 'Compare two Civilization VI save files of the same game (e.g. before and after a long AI turn) and report what changed: turns elapsed, era, civilizations and city-states eliminated, players added or removed, mods added or removed and changed settings. When logging is enabled, also the techs researched, civics completed, cities founded, captured or razed, wonders completed and first contacts between the two turns, from the logs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            before_path: {
+              type: 'string',
+              description: 'Full path to the earlier .Civ6Save file',
+            },
+            after_path: {
+              type: 'string',
+              description: 'Full path to the later .Civ6Save file',
+            },
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+          required: ['before_path', 'after_path'],
+        },
+        outputSchema: getOutputSchema('compare_saves'),
       },
       {
         name: 'get_strategy_brief',
@@ -175,13 +436,17 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Full path to the .Civ6Save file',
             },
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
           required: ['save_path'],
         },
+        outputSchema: getOutputSchema('get_strategy_brief'),
       },
       {
         name: 'set_game_context',
-        description: 'Store additional game context that cannot be parsed from the save file (e.g., current yields, military strength, cities, technologies, goals, diplomatic relations). This information will be included in strategy briefs.',
+        description: 'Add a note with game context that cannot be parsed from the save file (e.g., current yields, military strength, cities, technologies, goals, diplomatic relations). Notes are saved to disk per game (leader, map and start date) and tagged with the turn. They are included in strategy briefs for that game.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -189,21 +454,84 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Game context information. Can include: Gold/Science/Culture/Faith per turn, Military strength, City names and populations, Key technologies/civics, Current goals, Relations with other civs, etc.',
             },
+            save_path: SAVE_PATH_PROPERTY,
+            turn: {
+              type: 'number',
+              description: 'Turn the note refers to. Defaults to the save\'s turn',
+            },
+            format: FORMAT_PROPERTY,
           },
           required: ['context'],
         },
+        outputSchema: getOutputSchema('set_game_context'),
       },
       {
         name: 'get_game_context',
-        description: 'Retrieve the stored game context information',
+        description: 'Retrieve the stored notes for a game, as they appear in its strategy brief',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            save_path: SAVE_PATH_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('get_game_context'),
+      },
+      {
+        name: 'list_game_notes',
+        description: 'List stored game notes with their IDs, turns and timestamps, for one game or every game',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            save_path: SAVE_PATH_PROPERTY,
+            all_games: {
+              type: 'boolean',
+              description: 'List notes for every game instead of one. Default: false',
+            },
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('list_game_notes'),
+      },
+      {
+        name: 'edit_game_note',
+        description: 'Replace the text (and optionally the turn) of a stored game note',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            note_id: NOTE_ID_PROPERTY,
+            context: {
+              type: 'string',
+              description: 'New text for the note',
+            },
+            save_path: SAVE_PATH_PROPERTY,
+            turn: {
+              type: 'number',
+              description: 'New turn for the note',
+            },
+            format: FORMAT_PROPERTY,
+          },
+          required: ['note_id', 'context'],
+        },
+        outputSchema: getOutputSchema('edit_game_note'),
+      },
+      {
+        name: 'delete_game_note',
+        description: 'Delete a stored game note',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            note_id: NOTE_ID_PROPERTY,
+            save_path: SAVE_PATH_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+          required: ['note_id'],
         },
+        outputSchema: getOutputSchema('delete_game_note'),
       },
       {
         name: 'get_civ_statistics',
-        description: 'Get detailed statistics for ALL civilizations including yields, military, cities, and score. Requires game history logging to be enabled (GameHistoryLogLevel=1 in UserOptions.txt).',
+        description: 'Get detailed statistics for ALL civilizations including yields, military, cities, and score. Requires game history logging to be enabled (GameHistoryLogLevel=1 in UserOptions.txt); without logs, only the era and the civilizations still alive are read from the autosaves.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -211,24 +539,36 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'number',
               description: 'Specific turn number to get stats for. Defaults to latest available turn.',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            saves_dir: SAVES_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_civ_statistics'),
       },
       {
         name: 'get_victory_progress',
         description: 'Get victory progress positions for all civilizations across Science, Culture, Domination, and Score victories. Shows who is leading each victory type.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_victory_progress'),
       },
       {
         name: 'get_yield_comparison',
         description: 'Get a comparison table of all civilizations\' yields (science, culture, gold, faith per turn), cities, and military strength.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_yield_comparison'),
       },
       // New log mining tools
       {
@@ -241,8 +581,81 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Filter to show relations for a specific civilization',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('get_diplomatic_status'),
+      },
+      {
+        name: 'get_diplomatic_history',
+        description: 'Get diplomatic change events over recent turns (first contact, wars declared, peace, alliances formed or ended, denouncements and other state changes). Give two civilizations to also see the score, trust and threat trajectory between them.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            civilization: {
+              type: 'string',
+              description: 'Only show events involving this civilization',
+            },
+            other_civilization: {
+              type: 'string',
+              description: 'With civilization, show this pair\'s events and score/trust trajectory in both directions',
+            },
+            turns: {
+              type: 'number',
+              description: 'Number of recent turns to cover (default: 30)',
+            },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('get_diplomatic_history'),
+      },
+      {
+        name: 'get_diplomacy_graph',
+        description: 'Render the latest diplomatic relations as a Mermaid or Graphviz DOT graph, with edges coloured by state (allied, friendly, denounced, war, ...) and weighted by score. Optionally label edges with threat and trust.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            syntax: {
+              type: 'string',
+              enum: ['mermaid', 'dot'],
+              description: 'Graph syntax. Default: mermaid',
+            },
+            civilization: {
+              type: 'string',
+              description: 'Only show relations involving this civilization',
+            },
+            show_threat_trust: {
+              type: 'boolean',
+              description: 'Add threat and trust to the edge labels. Default: false',
+            },
+            include_neutral: {
+              type: 'boolean',
+              description: 'Also draw neutral relations. Default: false',
+            },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('get_diplomacy_graph'),
+      },
+      {
+        name: 'get_coalitions',
+        description: 'Find friendly blocs, mutual enemies and the risk of each civilization being attacked by several civs at once (who would join a war against you?). Also lists likely joint-war partners against a target civilization.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            target: {
+              type: 'string',
+              description: 'Civilization to find joint-war partners against. Defaults to the civ you like least, if you are hostile toward anyone',
+            },
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_coalitions'),
       },
       {
         name: 'get_diplomatic_modifiers',
@@ -254,16 +667,23 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Filter to show modifiers for a specific civilization',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_diplomatic_modifiers'),
       },
       {
         name: 'get_military_intelligence',
         description: 'Get military strength, combat desire (aggressiveness), and preferred military tech targets for all civilizations.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_military_intelligence'),
       },
       {
         name: 'get_combat_log',
@@ -275,21 +695,27 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'number',
               description: 'Number of recent turns to show (default: 5)',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_combat_log'),
       },
       {
         name: 'get_city_production',
-        description: 'Get what every city is currently building, including strategic items like Giant Death Robots, Manhattan Project, and space race projects.',
+        description: 'Get what every city is currently building and which civilization owns it, including strategic items like Giant Death Robots, Manhattan Project, and space race projects. Also lists cities that recently changed hands.',
         inputSchema: {
           type: 'object',
           properties: {
             civilization: {
               type: 'string',
-              description: 'Filter to show production for a specific civilization',
+              description: 'Only show cities owned by this civilization',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_city_production'),
       },
       {
         name: 'get_city_status',
@@ -299,50 +725,88 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             player_id: {
               type: 'number',
-              description: 'Player ID (default: 0 for human player)',
+              description: 'Player ID. Defaults to the human player (detected from the save)',
             },
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_city_status'),
       },
       {
         name: 'get_tech_status',
-        description: 'Get technology research progress for all civilizations.',
+        description: 'Get technology research progress for all civilizations: techs researched, what each civ is researching now with turns remaining, and when each civ should reach the milestone techs (Rocketry, Nuclear Fission, Satellites, Robotics) compared with you.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
+        },
+        outputSchema: getOutputSchema('get_tech_status'),
+      },
+      {
+        name: 'get_civic_status',
+        description: 'Get civic research progress for all civilizations: civics adopted, the civic each civ is working on with turns remaining, and when each civ reached key government civics (Political Philosophy, Ideology, etc.).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_civic_status'),
       },
       {
         name: 'get_world_congress',
         description: 'Get World Congress voting records and resolution outcomes.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_world_congress'),
       },
       {
         name: 'get_great_people',
         description: 'Get Great People that have been claimed and those available for recruitment.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_great_people'),
       },
       {
         name: 'get_great_people_culture',
         description: 'Track Great Artists, Writers, and Musicians for cultural victory analysis. Shows who is collecting cultural Great People, how many Great Works have been created, and who is leading the culture race.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_great_people_culture'),
       },
       {
         name: 'get_score_breakdown',
         description: 'Get detailed score breakdown by category (Empire, Tech, Civics, Wonders, Great People, Religion) for all civilizations. Shows why each civ is ahead or behind and identifies your strengths and gaps.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            player: PLAYER_PROPERTY,
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
+          },
         },
+        outputSchema: getOutputSchema('get_score_breakdown'),
       },
       {
         name: 'get_strategic_overview',
@@ -352,14 +816,17 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             civilization: {
               type: 'string',
-              description: 'Your civilization name for personalized threat/opportunity analysis',
+              description: 'Your civilization for personalized threat/opportunity analysis. Defaults to the human player detected from the save',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_strategic_overview'),
       },
       {
         name: 'get_trend_analysis',
-        description: 'Analyze trends over multiple turns showing how each civilization\'s score, science, culture, military, and territory are changing. Highlights military buildups, fastest growing civs, and declining powers.',
+        description: 'Analyze trends over multiple turns showing how each civilization\'s score, science, culture, military, and territory are changing. Highlights military buildups, fastest growing civs, and declining powers. Without logs, falls back to era changes and eliminations read from the autosaves.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -367,32 +834,40 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'number',
               description: 'Number of turns to analyze (default: 10)',
             },
+            logs_dir: LOGS_DIR_PROPERTY,
+            saves_dir: SAVES_DIR_PROPERTY,
+            format: FORMAT_PROPERTY,
           },
         },
+        outputSchema: getOutputSchema('get_trend_analysis'),
       },
     ],
   };
-});
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+// Run a tool by name. Used for tools/call and to embed tool output in prompts.
+// Log tools get a warning appended when a log was read by column position, so
+// values from a changed log layout don't pass silently.
+async function callTool(name: string, args: Record<string, unknown> | undefined) {
+  const result = await runTool(name, args);
+  const readsLogs = listTools().tools.some(t => t.name === name && 'logs_dir' in t.inputSchema.properties);
+  const logsDir = typeof args?.logs_dir === 'string' ? args.logs_dir : getLogsDirectory();
+  const notice = readsLogs && !('isError' in result) ? formatSchemaNotice(logsDir) : '';
+  if (!notice) return result;
+  return { ...result, content: [...result.content, { type: 'text' as const, text: notice }] };
+}
 
+async function runTool(name: string, args: Record<string, unknown> | undefined) {
   try {
     switch (name) {
       case 'list_saves': {
         const parsed = ListSavesSchema.parse(args);
-        const saves = listSaveFiles(parsed.filter);
+        const savesDir = parsed.saves_dir || getSavesDirectory();
+        const saves = listSaveFiles(parsed.filter, savesDir);
 
         if (saves.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `No save files found with filter: ${parsed.filter}\n\nSave directory: ${getSavesDirectory()}`,
-              },
-            ],
-          };
+          const message = `No save files found with filter: ${parsed.filter}\n\nSave directory: ${savesDir}\n\n${formatCheckedDirectories('saves', parsed.saves_dir ? [{ path: savesDir, source: 'saves_dir argument', override: true }] : getSavesDirectoryCandidates())}`;
+          return toolResult(parsed.format, message, { savesDir, saves, message });
         }
 
         const formatted = saves.map((s, i) => {
@@ -402,469 +877,484 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           return `${i + 1}. ${s.name}${leader}${turn}\n   Modified: ${date}\n   Path: ${s.path}`;
         }).join('\n\n');
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Found ${saves.length} save file(s):\n\n${formatted}`,
-            },
-          ],
-        };
+        return toolResult(
+          parsed.format,
+          `Found ${saves.length} save file(s) in ${savesDir}:\n\n${formatted}`,
+          { savesDir, saves }
+        );
       }
 
       case 'read_game_state': {
         const parsed = ReadGameStateSchema.parse(args);
-        const state = parseSaveFile(parsed.save_path);
+        const state = parseSaveFile(parsed.save_path, parsed.player);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(state, null, 2),
-            },
-          ],
-        };
+        return toolResult(parsed.format, JSON.stringify(state, null, 2), { ...state });
+      }
+
+      case 'compare_saves': {
+        const parsed = CompareSavesSchema.parse(args);
+        const comparison = compareSaves(parsed.before_path, parsed.after_path, parsed.player, parsed.logs_dir);
+
+        return toolResult(parsed.format, formatSaveComparison(comparison), { ...comparison });
       }
 
       case 'get_strategy_brief': {
         const parsed = GetStrategyBriefSchema.parse(args);
-        const state = parseSaveFile(parsed.save_path);
-        let brief = generateStrategyBrief(state);
+        const state = parseSaveFile(parsed.save_path, parsed.player);
+        let brief = generateStrategyBrief(state, parsed.logs_dir);
 
-        // Append stored game context if available
-        const context = gameContext.get('current');
+        // Append the player's notes for this game if there are any
+        const context = formatPlayerContext(getGameNotes(parsed.save_path));
         if (context) {
           brief += '\n\n## Player-Provided Context\n' + context;
         }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: brief,
-            },
-          ],
-        };
+        return toolResult(parsed.format, brief, { state, brief, playerContext: context });
       }
 
       case 'set_game_context': {
         const parsed = SetGameContextSchema.parse(args);
-        gameContext.set('current', parsed.context);
+        const { game, note } = addGameNote(resolveSavePath(parsed.save_path), parsed.context, parsed.turn);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: 'Game context saved. This information will be included in future strategy briefs.',
-            },
-          ],
-        };
+        return toolResult(
+          parsed.format,
+          `Game context saved as note #${note.id} (turn ${note.turn}) for ${game.leader} on ${game.map}. This information will be included in future strategy briefs for this game.`,
+          { saved: true, context: parsed.context, game, note }
+        );
       }
 
       case 'get_game_context': {
-        const context = gameContext.get('current');
+        const parsed = GetGameContextSchema.parse(args);
+        const { game, notes } = getGameNotes(resolveSavePath(parsed.save_path));
+        const context = formatPlayerContext({ game, notes });
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: context || 'No game context has been set. Use set_game_context to add information about your current game state.',
-            },
-          ],
-        };
+        if (!context) {
+          const message = `No game context has been set for ${game.leader} on ${game.map}. Use set_game_context to add information about your current game state.`;
+          return toolResult(parsed.format, message, { game, context: null, notes, message });
+        }
+
+        return toolResult(parsed.format, context, { game, context, notes });
+      }
+
+      case 'list_game_notes': {
+        const parsed = ListGameNotesSchema.parse(args);
+        const games = parsed.all_games
+          ? listNotedGames()
+          : [getGameNotes(resolveSavePath(parsed.save_path))];
+
+        if (games.length === 0) {
+          const message = 'No game notes have been stored yet. Use set_game_context to add one.';
+          return toolResult(parsed.format, message, { games, message });
+        }
+
+        return toolResult(parsed.format, formatGameNotes(games), { games });
+      }
+
+      case 'edit_game_note': {
+        const parsed = EditGameNoteSchema.parse(args);
+        const { game, note } = editGameNote(resolveSavePath(parsed.save_path), parsed.note_id, parsed.context, parsed.turn);
+
+        return toolResult(parsed.format, `Note #${note.id} updated (turn ${note.turn}).`, { game, note });
+      }
+
+      case 'delete_game_note': {
+        const parsed = DeleteGameNoteSchema.parse(args);
+        const { game, note } = deleteGameNote(resolveSavePath(parsed.save_path), parsed.note_id);
+
+        return toolResult(parsed.format, `Note #${note.id} deleted.`, { game, note });
       }
 
       case 'get_civ_statistics': {
         const parsed = GetCivStatisticsSchema.parse(args);
-        const historyFile = findHistoryFile();
+        const logsDir = parsed.logs_dir || getLogsDirectory();
+        const historyFile = findHistoryFile(logsDir);
 
         if (!historyFile) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Game history logging is not enabled or no data has been recorded yet.
+          // Games played without logging: the roster and era are still in the autosaves
+          // (skipped for an explicit logs_dir, whose game the live autosaves likely aren't)
+          const saveHistory = !parsed.logs_dir || parsed.saves_dir ? buildHistoryFromAutosaves(parsed.saves_dir) : null;
+          const turnData = saveHistory && (parsed.turn !== undefined
+            ? saveHistory.turns.find(t => t.turn === parsed.turn)
+            : saveHistory.turns[saveHistory.turns.length - 1]);
+          if (turnData) {
+            return toolResult(parsed.format, formatAutosaveRoster(turnData), {
+              turn: turnData.turn,
+              civilizations: [],
+              source: 'autosaves',
+              autosave: turnData,
+            });
+          }
+
+          const message = `Game history logging is not enabled or no data has been recorded yet.
 
 To enable logging:
 1. The setting GameHistoryLogLevel has been set to 1 in UserOptions.txt
 2. Load your game in Civ6 and play at least one turn
-3. The game will create a log file at: ${getLogsDirectory()}/GameCoreHistory1.xml
+3. The game will create log files in: ${logsDir}
+
+Once you've played a turn, try this command again.
 
-Once you've played a turn, try this command again.`,
-              },
-            ],
-          };
+${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, civilizations: [], message });
         }
 
         const stats = parsed.turn !== undefined
-          ? getStatsForTurn(parsed.turn)
-          : getLatestTurnStats();
+          ? getStatsForTurn(parsed.turn, logsDir)
+          : getLatestTurnStats(logsDir);
 
         if (!stats || stats.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No statistics found for the requested turn. The game history file exists but may not contain data yet.',
-              },
-            ],
-          };
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(stats, null, 2),
-            },
-          ],
-        };
+          const message = `No statistics found for the requested turn. The game history file exists but may not contain data yet.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: parsed.turn ?? null, civilizations: [], message });
+        }
+
+        return toolResult(parsed.format, JSON.stringify(stats, null, 2), { turn: stats[0].turn, civilizations: stats, source: 'logs' });
       }
 
       case 'get_victory_progress': {
-        const historyFile = findHistoryFile();
+        const parsed = GetVictoryProgressSchema.parse(args);
+        const historyFile = findHistoryFile(parsed.logs_dir);
 
         if (!historyFile) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Game history logging is not enabled. Enable it by setting GameHistoryLogLevel=1 in UserOptions.txt, then play at least one turn.`,
-              },
-            ],
-          };
+          const message = `Game history logging is not enabled. Enable it by setting GameHistoryLogLevel=1 in UserOptions.txt, then play at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, progress: [], message });
         }
 
-        const stats = getLatestTurnStatsFullCivsOnly();
+        const stats = getLatestTurnStatsFullCivsOnly(parsed.logs_dir);
         if (!stats || stats.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No statistics available yet. Play at least one turn with logging enabled.',
-              },
-            ],
-          };
+          const message = `No statistics available yet. Play at least one turn with logging enabled.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, progress: [], message });
         }
 
         const progress = calculateVictoryProgress(stats);
         const formatted = formatVictoryProgress(progress);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatted,
-            },
-          ],
-        };
+        return toolResult(parsed.format, formatted, { turn: stats[0].turn, progress });
       }
 
       case 'get_yield_comparison': {
-        const historyFile = findHistoryFile();
+        const parsed = GetYieldComparisonSchema.parse(args);
+        const historyFile = findHistoryFile(parsed.logs_dir);
 
         if (!historyFile) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: `Game history logging is not enabled. Enable it by setting GameHistoryLogLevel=1 in UserOptions.txt, then play at least one turn.`,
-              },
-            ],
-          };
+          const message = `Game history logging is not enabled. Enable it by setting GameHistoryLogLevel=1 in UserOptions.txt, then play at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, civilizations: [], message });
         }
 
-        const stats = getLatestTurnStatsFullCivsOnly();
+        const stats = getLatestTurnStatsFullCivsOnly(parsed.logs_dir);
         if (!stats || stats.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No statistics available yet. Play at least one turn with logging enabled.',
-              },
-            ],
-          };
+          const message = `No statistics available yet. Play at least one turn with logging enabled.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, civilizations: [], message });
         }
 
         const formatted = formatStatsComparison(stats);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: formatted,
-            },
-          ],
-        };
+        return toolResult(parsed.format, formatted, { turn: stats[0].turn, civilizations: stats });
       }
 
       // New log mining tool handlers
       case 'get_diplomatic_status': {
         const parsed = GetDiplomaticStatusSchema.parse(args);
-        const relations = parseDiplomacy();
+        const relations = parseDiplomacy(parsed.logs_dir);
 
         if (relations.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No diplomatic data available. Make sure game logging is enabled and you have played at least one turn.',
-              },
-            ],
-          };
+          const message = `No diplomatic data available. Make sure game logging is enabled and you have played at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { relations: [], message });
         }
 
         const formatted = formatDiplomacyStatus(relations, parsed.civilization);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        const latest = getLatestRelations(relations).filter(r =>
+          !parsed.civilization || r.fromCiv === parsed.civilization || r.toCiv === parsed.civilization
+        );
+        return toolResult(parsed.format, formatted, { relations: latest });
+      }
+
+      case 'get_diplomatic_history': {
+        const parsed = GetDiplomaticHistorySchema.parse(args);
+        const relations = parseDiplomacy(parsed.logs_dir);
+
+        if (relations.length === 0) {
+          const message = `No diplomatic data available. Make sure game logging is enabled and you have played at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { events: [], trajectories: [], message });
+        }
+
+        const { events, trajectories } = getDiplomaticHistory(relations, {
+          civilization: parsed.civilization,
+          otherCivilization: parsed.other_civilization,
+          turns: parsed.turns,
+        });
+        const formatted = formatDiplomaticHistory(events, trajectories, parsed.turns);
+        return toolResult(parsed.format, formatted, { events, trajectories });
+      }
+
+      case 'get_diplomacy_graph': {
+        const parsed = GetDiplomacyGraphSchema.parse(args);
+        const latestRelations = getLatestRelations(parseDiplomacy(parsed.logs_dir));
+
+        if (latestRelations.length === 0) {
+          const message = `No diplomatic data available. Make sure game logging is enabled and you have played at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, syntax: parsed.syntax, graph: '', relations: [], message });
+        }
+
+        const civ = parsed.civilization ? normalizeName(parsed.civilization) : null;
+        const relations = latestRelations.filter(r =>
+          !civ || normalizeName(r.fromCiv) === civ || normalizeName(r.toCiv) === civ
+        );
+        if (relations.length === 0) {
+          const known = [...new Set(latestRelations.flatMap(r => [r.fromCiv, r.toCiv]))].sort();
+          throw new Error(`Unknown civilization: ${parsed.civilization}. Known: ${known.join(', ')}`);
+        }
+
+        const graph = renderDiplomacyGraph(relations, {
+          syntax: parsed.syntax,
+          showThreatTrust: parsed.show_threat_trust,
+          includeNeutral: parsed.include_neutral,
+        });
+        const turn = Math.max(...relations.map(r => r.turn));
+        const formatted = formatDiplomacyGraph(graph, parsed.syntax, turn);
+        return toolResult(parsed.format, formatted, { turn, syntax: parsed.syntax, graph, relations });
+      }
+
+      case 'get_coalitions': {
+        const parsed = GetCoalitionsSchema.parse(args);
+        const relations = getLatestRelations(parseDiplomacy(parsed.logs_dir));
+
+        if (relations.length === 0) {
+          const message = `No diplomatic data available. Make sure game logging is enabled and you have played at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { analysis: null, message });
+        }
+
+        const player = resolvePlayer({ logsDir: parsed.logs_dir, player: parsed.player });
+        const analysis = analyzeCoalitions(relations, parseDiplomacyModifiers(parsed.logs_dir), {
+          playerCiv: player?.civilization,
+          target: parsed.target,
+        });
+        const formatted = `${formatPlayerIdentity(player)}\n\n${formatCoalitions(analysis, player?.civilization)}`;
+        return toolResult(parsed.format, formatted, { analysis, player });
       }
 
       case 'get_diplomatic_modifiers': {
         const parsed = GetDiplomaticModifiersSchema.parse(args);
-        const modifiers = parseDiplomacyModifiers();
+        const modifiers = parseDiplomacyModifiers(parsed.logs_dir);
 
         if (modifiers.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No diplomatic modifier data available.',
-              },
-            ],
-          };
+          const message = `No diplomatic modifier data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, modifiers: [], message });
         }
 
         const formatted = formatDiplomacyModifiers(modifiers, parsed.civilization);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        const latest = latestTurnRecords(modifiers).filter(m =>
+          !parsed.civilization || m.player === parsed.civilization
+        );
+        return toolResult(parsed.format, formatted, { turn: latestTurnRecords(modifiers)[0].turn, modifiers: latest });
       }
 
       case 'get_military_intelligence': {
-        const intel = parseMilitaryIntel();
+        const parsed = GetMilitaryIntelligenceSchema.parse(args);
+        const intel = parseMilitaryIntel(parsed.logs_dir);
 
         if (intel.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No military intelligence data available.',
-              },
-            ],
-          };
+          const message = `No military intelligence data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, intel: [], message });
         }
 
         const formatted = formatMilitaryIntelligence(intel);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        const latest = latestTurnRecords(intel);
+        return toolResult(parsed.format, formatted, { turn: latest[0].turn, intel: latest });
       }
 
       case 'get_combat_log': {
         const parsed = GetCombatLogSchema.parse(args);
-        const records = parseCombatLog();
+        const records = parseCombatLog(parsed.logs_dir);
 
         if (records.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No combat records available. The game is peaceful (for now).',
-              },
-            ],
-          };
+          const message = `No combat records available. The game is peaceful (for now).\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, records: [], message });
         }
 
         const formatted = formatCombatLog(records, parsed.turns);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        const latestTurn = records.reduce((turn, r) => Math.max(turn, r.turn), -Infinity);
+        const recent = records.filter(r => r.turn >= latestTurn - parsed.turns);
+        return toolResult(parsed.format, formatted, { turn: latestTurn, records: recent });
       }
 
       case 'get_city_production': {
         const parsed = GetCityProductionSchema.parse(args);
-        const production = parseCityProduction();
+        const production = parseCityProduction(parsed.logs_dir);
 
         if (production.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No city production data available.',
-              },
-            ],
-          };
-        }
-
-        const formatted = formatCityProduction(production, parsed.civilization);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+          const message = `No city production data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, production: [], transfers: [], message });
+        }
+
+        const transfers = parseCityTransfers(parsed.logs_dir);
+        const formatted = formatCityProduction(production, parsed.civilization, transfers);
+        const latest = latestTurnRecords(production);
+        if (!parsed.civilization) {
+          return toolResult(parsed.format, formatted, { turn: latest[0].turn, production: latest, transfers });
+        }
+        return toolResult(parsed.format, formatted, {
+          turn: latest[0].turn,
+          production: filterProductionByCiv(latest, parsed.civilization),
+          transfers: filterTransfersByCiv(transfers, parsed.civilization),
+        });
       }
 
       case 'get_city_status': {
         const parsed = GetCityStatusSchema.parse(args);
-        const production = parseCityProduction();
-        const foundingStats = parseCityFoundingStats();
+        const production = parseCityProduction(parsed.logs_dir);
+        const foundingStats = parseCityFoundingStats(parsed.logs_dir);
 
         if (foundingStats.length === 0 && production.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No city data available. Make sure game logging is enabled (GameHistoryLogLevel=1 in UserOptions.txt) and you have played at least one turn.',
-              },
-            ],
-          };
-        }
-
-        const formatted = formatCityStatus(production, foundingStats, parsed.player_id);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+          const message = `No city data available. Make sure game logging is enabled (GameHistoryLogLevel=1 in UserOptions.txt) and you have played at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, playerId: parsed.player_id ?? null, player: null, cities: [], production: [], message });
+        }
+
+        const player = resolvePlayer({
+          logsDir: parsed.logs_dir,
+          player: parsed.player_id !== undefined ? String(parsed.player_id) : parsed.player,
+        });
+        if (!player) {
+          const message = `${formatPlayerIdentity(null)}\n\nPass player_id to choose whose cities to show.`;
+          return toolResult(parsed.format, message, { turn: null, playerId: null, player: null, cities: [], production: [], message });
+        }
+
+        const formatted = `${formatPlayerIdentity(player)}\n\n${formatCityStatus(production, foundingStats, player.playerId)}`;
+        const cities = foundingStats.filter(s => s.playerId === player.playerId);
+        const latest = latestTurnRecords(production);
+        return toolResult(parsed.format, formatted, {
+          turn: latest[0]?.turn ?? null,
+          playerId: player.playerId,
+          player,
+          cities,
+          production: latest.filter(p => p.ownerId === player.playerId),
+        });
       }
 
       case 'get_tech_status': {
-        const progress = parseTechStatus();
+        const parsed = GetTechStatusSchema.parse(args);
+        const progress = parseTechStatus(parsed.logs_dir);
+
+        if (progress.length === 0) {
+          const message = `No technology data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, progress: [], message });
+        }
+
+        const player = resolvePlayer({ logsDir: parsed.logs_dir, player: parsed.player });
+        const forecasts = forecastTechRace(progress, analyzeTrends(10, parsed.logs_dir) || [], player?.playerId);
+        const formatted = `${formatPlayerIdentity(player)}\n\n${formatTechStatus(progress, forecasts)}`;
+        const latest = latestTurnRecords(progress);
+        return toolResult(parsed.format, formatted, { turn: latest[0].turn, player, progress: latest, forecasts });
+      }
+
+      case 'get_civic_status': {
+        const parsed = GetCivicStatusSchema.parse(args);
+        const { progress, milestones } = parseCivicStatus(parsed.logs_dir);
 
         if (progress.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No technology data available.',
-              },
-            ],
-          };
-        }
-
-        const formatted = formatTechStatus(progress);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+          const message = `No civic data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, progress: [], milestones: [], message });
+        }
+
+        const formatted = formatCivicStatus(progress, milestones);
+        const latest = latestTurnRecords(progress);
+        return toolResult(parsed.format, formatted, { turn: latest[0].turn, progress: latest, milestones });
       }
 
       case 'get_world_congress': {
-        const { votes, results } = parseWorldCongress();
+        const parsed = GetWorldCongressSchema.parse(args);
+        const { votes, results } = parseWorldCongress(parsed.logs_dir);
 
         if (votes.length === 0 && results.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No World Congress data available. Congress may not have convened yet.',
-              },
-            ],
-          };
+          const message = `No World Congress data available. Congress may not have convened yet.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { votes, results, message });
         }
 
         const formatted = formatWorldCongress(votes, results);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        return toolResult(parsed.format, formatted, { votes, results });
       }
 
       case 'get_great_people': {
-        const events = parseGreatPeople();
+        const parsed = GetGreatPeopleSchema.parse(args);
+        const events = parseGreatPeople(parsed.logs_dir);
 
         if (events.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No Great People data available.',
-              },
-            ],
-          };
+          const message = `No Great People data available.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { events, message });
         }
 
         const formatted = formatGreatPeople(events);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        return toolResult(parsed.format, formatted, { events });
       }
 
       case 'get_great_people_culture': {
-        const events = parseCulturalGreatPeople();
+        const parsed = GetCulturalGreatPeopleSchema.parse(args);
+        const events = parseCulturalGreatPeople(parsed.logs_dir);
 
         if (events.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No cultural Great People data available. Artists, Writers, and Musicians have not been recruited yet.',
-              },
-            ],
-          };
+          const message = `No cultural Great People data available. Artists, Writers, and Musicians have not been recruited yet.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { events, message });
         }
 
         const formatted = formatCulturalGreatPeople(events);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        return toolResult(parsed.format, formatted, { events });
       }
 
       case 'get_score_breakdown': {
-        const scores = parseScoreBreakdown();
+        const parsed = GetScoreBreakdownSchema.parse(args);
+        const scores = parseScoreBreakdown(parsed.logs_dir);
 
         if (scores.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No score data available. Enable game logging (GameHistoryLogLevel=1 in UserOptions.txt) and play at least one turn.',
-              },
-            ],
-          };
-        }
-
-        const formatted = formatScoreBreakdown(scores);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+          const message = `No score data available. Enable game logging (GameHistoryLogLevel=1 in UserOptions.txt) and play at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { turn: null, scores: [], message });
+        }
+
+        const player = resolvePlayer({ logsDir: parsed.logs_dir, player: parsed.player });
+        const formatted = `${formatPlayerIdentity(player)}\n\n${formatScoreBreakdown(scores, player?.playerId)}`;
+
+        // Scores are logged on each player's turn, so take the latest row per player
+        const latestByPlayer = new Map<number, typeof scores[number]>();
+        for (const score of scores) {
+          latestByPlayer.set(score.playerId, score);
+        }
+        const latest = [...latestByPlayer.values()];
+        return toolResult(parsed.format, formatted, { turn: Math.max(...latest.map(s => s.turn)), player, scores: latest });
       }
 
       case 'get_strategic_overview': {
         const parsed = GetStrategicOverviewSchema.parse(args);
-        const stats = getLatestTurnStatsFullCivsOnly();
+        const stats = getLatestTurnStatsFullCivsOnly(parsed.logs_dir);
 
         if (!stats || stats.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No game data available. Enable logging (GameHistoryLogLevel=1) and play at least one turn.',
-              },
-            ],
-          };
-        }
-
-        const formatted = generateStrategicOverview(stats, parsed.civilization);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+          const message = `No game data available. Enable logging (GameHistoryLogLevel=1) and play at least one turn.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { overview: null, message });
+        }
+
+        const player = resolvePlayer({ logsDir: parsed.logs_dir, player: parsed.civilization });
+        const overview = analyzeStrategicSituation(stats, player?.civilization, parsed.logs_dir);
+        const formatted = `${formatPlayerIdentity(player)}\n\n${formatStrategicOverview(overview)}`;
+        return toolResult(parsed.format, formatted, { overview, player });
       }
 
       case 'get_trend_analysis': {
         const parsed = GetTrendAnalysisSchema.parse(args);
-        const trends = analyzeTrends(parsed.turns);
+        const trends = analyzeTrends(parsed.turns, parsed.logs_dir);
+
+        if ((!trends || trends.length === 0) && !findHistoryFile(parsed.logs_dir) && (!parsed.logs_dir || parsed.saves_dir)) {
+          // Games played without logging: eras and eliminations from the autosaves
+          const saveHistory = buildHistoryFromAutosaves(parsed.saves_dir);
+          const rosterTrend = saveHistory ? analyzeRosterTrend(saveHistory, parsed.turns) : null;
+          if (rosterTrend) {
+            return toolResult(parsed.format, formatRosterTrend(rosterTrend), { trends: [], source: 'autosaves', rosterTrend });
+          }
+        }
 
         if (!trends || trends.length === 0) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: 'No trend data available. Need at least 2 turns of game history. Play more turns with logging enabled.',
-              },
-            ],
-          };
+          const message = `No trend data available. Need at least 2 turns of game history. Play more turns with logging enabled.\n\n${logsSearchHint(parsed.logs_dir)}`;
+          return toolResult(parsed.format, message, { trends: [], message });
         }
 
         const formatted = formatTrendAnalysis(trends);
-        return {
-          content: [{ type: 'text', text: formatted }],
-        };
+        return toolResult(parsed.format, formatted, { trends, source: 'logs' });
       }
 
       default:
@@ -882,12 +1372,118 @@ Once you've played a turn, try this command again.`,
       isError: true,
     };
   }
-});
+}
+
+// Render a prompt, embedding the text output of the same tool handlers
+async function renderPrompt(name: string, args: Record<string, string>) {
+  const prompt = await getPrompt(name, args, async (tool, toolArgs) => {
+    const result = await callTool(tool, toolArgs);
+    return result.content.map(c => c.text).join('\n\n');
+  });
+  return { ...prompt };
+}
+
+// ============ Server ============
+
+// A connected server and the resource URIs its client subscribed to
+interface Session {
+  server: Server;
+  subscriptions: Set<string>;
+}
+
+// One session over stdio, or one per client over HTTP
+const sessions = new Set<Session>();
+
+// Create a server with every handler registered. All sessions share the
+// handlers above; only subscriptions are per session.
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: 'civ6mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {},
+      },
+    }
+  );
+  const session: Session = { server, subscriptions: new Set() };
+  sessions.add(session);
+  server.onclose = () => {
+    sessions.delete(session);
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => listTools());
 
-// Start the server
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return callTool(name, args);
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: listPrompts() };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return renderPrompt(name, args || {});
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listResources() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [readResource(request.params.uri)] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    session.subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    session.subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return server;
+}
+
+// Let subscribed clients know a turn has ended so they can refresh the briefing
+function startTurnWatcher(): void {
+  const logsDir = getLogsDirectory();
+  watchForNewTurns(logsDir, (turn) => {
+    console.error(`Turn ${turn} complete`);
+    for (const { server, subscriptions } of sessions) {
+      if (!subscriptions.has(CURRENT_TURN_URI)) continue;
+      server.sendResourceUpdated({ uri: CURRENT_TURN_URI }).catch((error) => {
+        console.error('Failed to send resource update:', error);
+      });
+    }
+  });
+}
+
+// Start the server on stdio, or over HTTP when configured
 async function main() {
+  const http = getHttpOptions();
+  if (http) {
+    await startHttpServer(http, createServer);
+    startTurnWatcher();
+    console.error(`Civ6 MCP Server running on http://${http.host}:${http.port}${MCP_ENDPOINT}${http.token ? ' (bearer token required)' : ''}`);
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
+  startTurnWatcher();
   console.error('Civ6 MCP Server running on stdio');
 }
 
@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { XMLParser } from 'fast-xml-parser';
+import { getLanguage } from './config.js';
+import { findGameFiles, getGameDirectory } from './paths.js';
+import { EN_US_TEXT_SNAPSHOT } from './text-snapshot.js';
+
+// Official display names from the game's own text XML (Base/ and DLC/ under
+// the install directory), in the configured language. Without an install the
+// bundled English snapshot covers the names title-casing gets wrong.
+
+const BASE_LANGUAGE = 'en_US';
+
+// Containers the text rows appear in, across the base game and expansions
+const TEXT_CONTAINERS = ['LocalizedText', 'BaseGameText', 'EnglishText'];
+
+interface TextTable {
+  source: 'game' | 'snapshot';
+  tags: Map<string, string>;
+}
+
+// ============ Loading ============
+
+// Files named for another language (e.g. "Vanilla_de_DE.xml") can be skipped unread
+function isForOtherLanguage(fileName: string, language: string): boolean {
+  const match = fileName.match(/([a-z]{2}_[A-Z]{2})\.xml$/);
+  return match !== null && match[1] !== language && match[1] !== BASE_LANGUAGE;
+}
+
+function textOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && '#text' in value) return String((value as Record<string, unknown>)['#text']);
+  return undefined;
+}
+
+function asArray(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value;
+  return value && typeof value === 'object' ? [value as Record<string, unknown>] : [];
+}
+
+// Add one file's rows for `language` to `base` / `localized`. Rows without a Language are English.
+function readTextFile(file: string, language: string, base: Map<string, string>, localized: Map<string, string>): void {
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', parseTagValue: false, parseAttributeValue: false });
+  const doc = parser.parse(readFileSync(file, 'utf-8'));
+  const gameData = doc?.GameData;
+  if (!gameData) return;
+
+  for (const container of TEXT_CONTAINERS) {
+    for (const block of asArray(gameData[container])) {
+      for (const row of [...asArray(block.Row), ...asArray(block.Replace)]) {
+        const tag = typeof row.Tag === 'string' ? row.Tag : undefined;
+        const text = textOf(row.Text);
+        if (!tag || text === undefined) continue;
+
+        const rowLanguage = typeof row.Language === 'string' ? row.Language : BASE_LANGUAGE;
+        if (rowLanguage === language) localized.set(tag, text);
+        if (rowLanguage === BASE_LANGUAGE) base.set(tag, text);
+      }
+    }
+  }
+}
+
+function loadGameText(gameDir: string, language: string): Map<string, string> | null {
+  const files = findGameFiles(gameDir, 'Text', name => !isForOtherLanguage(name, language));
+  if (files.length === 0) return null;
+
+  const base = new Map<string, string>();
+  const localized = new Map<string, string>();
+  for (const file of files) {
+    try {
+      readTextFile(file, language, base, localized);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Skipping unreadable game text ${file}: ${message}`);
+    }
+  }
+
+  // Untranslated tags fall back to English, as in the game
+  for (const [tag, text] of localized) {
+    base.set(tag, text);
+  }
+  return base.size > 0 ? base : null;
+}
+
+// Loaded on first use; the install directory and language are read once per process
+let textTable: TextTable | null = null;
+
+function getTextTable(): TextTable {
+  if (textTable) return textTable;
+
+  const gameDir = getGameDirectory();
+  const language = getLanguage();
+  const tags = gameDir ? loadGameText(gameDir, language) : null;
+  if (!tags && language !== BASE_LANGUAGE) {
+    console.error(`Game text for ${language} needs the game install (set --game-dir or CIV6_GAME_DIR); using English names.`);
+  }
+
+  textTable = tags
+    ? { source: 'game', tags }
+    : { source: 'snapshot', tags: new Map(Object.entries(EN_US_TEXT_SNAPSHOT)) };
+  return textTable;
+}
+
+// ============ Lookups ============
+
+// Inline markup like [ICON_Gold] or [COLOR_Red] has no place in a name
+function cleanText(text: string): string {
+  return text.replace(/\[[A-Z_a-z0-9]+\]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The text for a LOC_ tag, e.g. "LOC_CITY_NAME_HUE". Undefined when the game text (or snapshot) lacks it.
+ */
+export function localize(tag: string): string | undefined {
+  const text = getTextTable().tags.get(tag);
+  return text ? cleanText(text) : undefined;
+}
+
+/**
+ * The display name for a game type, e.g. "BUILDING_MONT_ST_MICHEL" via LOC_BUILDING_MONT_ST_MICHEL_NAME.
+ */
+export function localizeType(type: string): string | undefined {
+  return localize(`LOC_${type}_NAME`);
+}
@@ -0,0 +1,193 @@
+import type { CsvSchema } from './csv.js';
+
+// Column layouts for the game's CSV logs. Aliases are matched against the header
+// row; `index` is the position the column had when these parsers were written and
+// is only used when the header text isn't recognized.
+
+const TURN = { aliases: ['Game Turn', 'Turn'], index: 0 };
+
+export const PLAYER_STATS_SCHEMA: CsvSchema<
+  'turn' | 'player' | 'numCities' | 'population' | 'techs' | 'civics' | 'landUnits' | 'corps' | 'armies' |
+  'navalUnits' | 'tilesOwned' | 'tilesImproved' | 'goldBalance' | 'faithBalance' | 'science' | 'culture' |
+  'gold' | 'faith' | 'production' | 'food'
+> = {
+  file: 'Player_Stats.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player', 'Civilization', 'Civ'], index: 1 },
+    numCities: { aliases: ['Num Cities', 'Cities'], index: 2 },
+    population: { aliases: ['Population', 'Pop'], index: 3 },
+    techs: { aliases: ['Techs', 'Technologies'], index: 4 },
+    civics: { aliases: ['Civics'], index: 5 },
+    landUnits: { aliases: ['Land Units'], index: 6 },
+    corps: { aliases: ['Corps'], index: 7 },
+    armies: { aliases: ['Armies'], index: 8 },
+    navalUnits: { aliases: ['Naval Units'], index: 9 },
+    tilesOwned: { aliases: ['TilesOwned', 'Tiles Owned'], index: 10 },
+    tilesImproved: { aliases: ['TilesImproved', 'Tiles Improved'], index: 11 },
+    goldBalance: { aliases: ['Balance Gold', 'Gold Balance'], index: 12 },
+    faithBalance: { aliases: ['Balance Faith', 'Faith Balance'], index: 13 },
+    science: { aliases: ['YIELD_SCIENCE', 'Science'], index: 14 },
+    culture: { aliases: ['YIELD_CULTURE', 'Culture'], index: 15 },
+    gold: { aliases: ['YIELD_GOLD', 'Gold'], index: 16 },
+    faith: { aliases: ['YIELD_FAITH', 'Faith'], index: 17 },
+    production: { aliases: ['YIELD_PRODUCTION', 'Production'], index: 18 },
+    food: { aliases: ['YIELD_FOOD', 'Food'], index: 19 },
+  },
+};
+
+// Just the columns needed to map player IDs, so a broken yield column doesn't break every tool
+export const PLAYER_ROSTER_SCHEMA: CsvSchema<'turn' | 'player'> = {
+  file: PLAYER_STATS_SCHEMA.file,
+  columns: {
+    turn: PLAYER_STATS_SCHEMA.columns.turn,
+    player: PLAYER_STATS_SCHEMA.columns.player,
+  },
+};
+
+export const PLAYER_SCORES_SCHEMA: CsvSchema<
+  'turn' | 'player' | 'score' | 'civics' | 'empire' | 'greatPeople' | 'religion' | 'tech' | 'wonders' |
+  'trade' | 'pillage' | 'income'
+> = {
+  file: 'Game_PlayerScores.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player', 'Player ID'], index: 1 },
+    score: { aliases: ['Score', 'Total Score', 'Total'], index: 2 },
+    civics: { aliases: ['Civics', 'CATEGORY_CIVICS'], index: 3 },
+    empire: { aliases: ['Empire', 'CATEGORY_EMPIRE'], index: 4 },
+    greatPeople: { aliases: ['Great People', 'CATEGORY_GREAT_PEOPLE'], index: 5 },
+    religion: { aliases: ['Religion', 'CATEGORY_RELIGION'], index: 6 },
+    tech: { aliases: ['Tech', 'Technology', 'CATEGORY_TECH'], index: 7 },
+    wonders: { aliases: ['Wonders', 'Wonder', 'CATEGORY_WONDER'], index: 8 },
+    trade: { aliases: ['Trade', 'CATEGORY_TRADE'], index: 9, optional: true },
+    pillage: { aliases: ['Pillage', 'CATEGORY_PILLAGE'], index: 10, optional: true },
+    income: { aliases: ['Income', 'CATEGORY_INCOME'], index: 11, optional: true },
+  },
+};
+
+// Relationship cells start at `firstPlayer` and run one column per player ID
+export const DIPLOMACY_SCHEMA: CsvSchema<'turn' | 'player' | 'action' | 'firstPlayer'> = {
+  file: 'AI_Diplomacy.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player'], index: 1 },
+    action: { aliases: ['Action'], index: 2 },
+    firstPlayer: { aliases: ['Player 0', 'P0', '0'], index: 4 },
+  },
+};
+
+export const DIPLOMACY_MODIFIERS_SCHEMA: CsvSchema<
+  'turn' | 'player' | 'opponent' | 'modifier' | 'action' | 'value' | 'maxValue' | 'cooldown'
+> = {
+  file: 'DiplomacyModifiers.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player'], index: 1 },
+    opponent: { aliases: ['Opponent', 'Other Player', 'Target'], index: 2 },
+    modifier: { aliases: ['Modifier'], index: 3 },
+    action: { aliases: ['Action'], index: 4 },
+    value: { aliases: ['Value', 'Amount'], index: 5 },
+    maxValue: { aliases: ['Max Value', 'Max'], index: 6 },
+    cooldown: { aliases: ['Cooldown', 'Cooldown Turns', 'Turns Remaining'], index: 9, optional: true },
+  },
+};
+
+export const MILITARY_SCHEMA: CsvSchema<
+  'turn' | 'player' | 'regionalStrength' | 'enemyStrength' | 'otherStrength' | 'explorers' | 'favoriteTech' | 'combatDesire'
+> = {
+  file: 'AI_Military.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player'], index: 1 },
+    regionalStrength: { aliases: ['Regional Strength', 'Strength'], index: 2 },
+    enemyStrength: { aliases: ['Enemy Strength'], index: 3 },
+    otherStrength: { aliases: ['Other Strength'], index: 4 },
+    explorers: { aliases: ['Explorers', 'Current Explorers'], index: 5 },
+    favoriteTech: { aliases: ['Favorite Tech', 'Fav Tech', 'Favored Tech'], index: 7 },
+    combatDesire: { aliases: ['Combat Desire'], index: 8 },
+  },
+};
+
+export const COMBAT_SCHEMA: CsvSchema<
+  'turn' | 'attackerId' | 'defenderId' | 'attackerUnit' | 'defenderUnit' | 'attackerStrength' |
+  'defenderStrength' | 'defenderDamage' | 'attackerDamage'
+> = {
+  file: 'CombatLog.csv',
+  columns: {
+    turn: TURN,
+    attackerId: { aliases: ['Attacker Player', 'Attacker', 'Attacker ID'], index: 1 },
+    defenderId: { aliases: ['Defender Player', 'Defender', 'Defender ID'], index: 2 },
+    attackerUnit: { aliases: ['Attacker Unit', 'Attacker Type'], index: 5 },
+    defenderUnit: { aliases: ['Defender Unit', 'Defender Type'], index: 6 },
+    attackerStrength: { aliases: ['Attacker Strength', 'Attacker CS'], index: 9 },
+    defenderStrength: { aliases: ['Defender Strength', 'Defender CS'], index: 10 },
+    defenderDamage: { aliases: ['Defender Damage', 'Damage To Defender'], index: 12 },
+    attackerDamage: { aliases: ['Attacker Damage', 'Damage To Attacker'], index: 13 },
+  },
+};
+
+export const CITY_BUILD_QUEUE_SCHEMA: CsvSchema<
+  'turn' | 'city' | 'productionPerTurn' | 'item' | 'progress' | 'needed' | 'overflow'
+> = {
+  file: 'City_BuildQueue.csv',
+  columns: {
+    turn: TURN,
+    city: { aliases: ['City', 'City Name'], index: 1 },
+    productionPerTurn: { aliases: ['Production', 'Production Per Turn', 'Prod Per Turn'], index: 2 },
+    item: { aliases: ['Current Item', 'Item', 'Building'], index: 3 },
+    progress: { aliases: ['Progress', 'Current Progress'], index: 4 },
+    needed: { aliases: ['Cost', 'Production Needed', 'Needed'], index: 5 },
+    overflow: { aliases: ['Overflow'], index: 6, optional: true },
+  },
+};
+
+export const CITY_BUILD_SCHEMA: CsvSchema<'turn' | 'player' | 'city' | 'foodAdvantage' | 'productionAdvantage'> = {
+  file: 'AI_CityBuild.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player'], index: 1 },
+    city: { aliases: ['City', 'City Name'], index: 2 },
+    // Only founding rows carry these; build decision rows still name the owner
+    foodAdvantage: { aliases: ['Food Advantage', 'Food Adv'], index: 3, optional: true },
+    productionAdvantage: { aliases: ['Production Advantage', 'Prod Advantage', 'Production Adv'], index: 4, optional: true },
+  },
+};
+
+export const RESEARCH_SCHEMA: CsvSchema<'turn' | 'player' | 'action' | 'item' | 'status' | 'turnsRemaining'> = {
+  file: 'AI_Research.csv',
+  columns: {
+    turn: TURN,
+    player: { aliases: ['Player'], index: 1 },
+    action: { aliases: ['Action', 'Type'], index: 2 },
+    item: { aliases: ['Tech', 'Item', 'Name', 'Tech/Civic'], index: 3 },
+    status: { aliases: ['Status', 'State'], index: 5 },
+    turnsRemaining: { aliases: ['Turns', 'Turns Remaining', 'Turns Left'], index: 6 },
+  },
+};
+
+// The meaning of the argument columns depends on the action (VOTES, OPTIONS, RESOLUTION DECIDED)
+export const WORLD_CONGRESS_SCHEMA: CsvSchema<'turn' | 'action' | 'resolution' | 'arg1' | 'arg2' | 'arg3'> = {
+  file: 'World_Congress.csv',
+  columns: {
+    turn: TURN,
+    action: { aliases: ['Action'], index: 1 },
+    resolution: { aliases: ['Resolution'], index: 2 },
+    arg1: { aliases: ['Arg1', 'Value1'], index: 3, optional: true },
+    arg2: { aliases: ['Arg2', 'Value2'], index: 4, optional: true },
+    arg3: { aliases: ['Arg3', 'Value3'], index: 5, optional: true },
+  },
+};
+
+export const GREAT_PEOPLE_SCHEMA: CsvSchema<'turn' | 'event' | 'individual' | 'gpClass' | 'era' | 'cost' | 'recipient'> = {
+  file: 'Game_GreatPeople.csv',
+  columns: {
+    turn: TURN,
+    event: { aliases: ['Event', 'Action'], index: 1 },
+    individual: { aliases: ['Individual', 'Great Person'], index: 2 },
+    gpClass: { aliases: ['Class', 'Great Person Class'], index: 3 },
+    era: { aliases: ['Era'], index: 4 },
+    cost: { aliases: ['Cost'], index: 5 },
+    recipient: { aliases: ['Recipient', 'Player'], index: 6 },
+  },
+};
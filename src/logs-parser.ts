@@ -1,65 +1,93 @@
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
 import type {
   DiplomaticRelation,
+  DiplomaticEvent,
+  DiplomaticEventKind,
+  DiplomaticTrajectory,
   DiplomaticModifier,
   MilitaryIntelligence,
   CombatRecord,
   CityProduction,
   CityFoundingStats,
+  CityOwnerSource,
+  CityTransfer,
   TechProgress,
+  TechForecast,
+  MilestoneForecast,
+  CivTrend,
+  CivicProgress,
+  CivicMilestone,
   CongressVote,
   CongressResult,
   GreatPersonEvent,
   ScoreBreakdown,
   StrategicThreat,
   StrategicOpportunity,
+  StrategicOverview,
+  ActiveConflict,
+  VictoryRaceEntry,
   CivStatistics,
+  GameRule,
 } from './types.js';
 import { getLogsDirectory } from './paths.js';
-
-const LOGS_PATH = getLogsDirectory();
-
-// Log file names
-const LOG_FILES = {
-  DIPLOMACY: 'AI_Diplomacy.csv',
-  DIPLOMACY_MODIFIERS: 'DiplomacyModifiers.csv',
-  MILITARY: 'AI_Military.csv',
-  COMBAT: 'CombatLog.csv',
-  CITY_PRODUCTION: 'City_BuildQueue.csv',
-  CITY_BUILD: 'AI_CityBuild.csv',
-  TECH: 'AI_Research.csv',
-  WORLD_CONGRESS: 'World_Congress.csv',
-  GREAT_PEOPLE: 'Game_GreatPeople.csv',
-  PLAYER_STATS: 'Player_Stats.csv',
-  PLAYER_SCORES: 'Game_PlayerScores.csv',
-};
+import { readCsvTable, cachedFromLogs } from './csv.js';
+import type { CsvSchema } from './csv.js';
+import {
+  PLAYER_ROSTER_SCHEMA,
+  PLAYER_SCORES_SCHEMA,
+  DIPLOMACY_SCHEMA,
+  DIPLOMACY_MODIFIERS_SCHEMA,
+  MILITARY_SCHEMA,
+  COMBAT_SCHEMA,
+  CITY_BUILD_QUEUE_SCHEMA,
+  CITY_BUILD_SCHEMA,
+  RESEARCH_SCHEMA,
+  WORLD_CONGRESS_SCHEMA,
+  GREAT_PEOPLE_SCHEMA,
+} from './log-schemas.js';
+import { civDisplayName, findCivForCity, isCityState } from './reference.js';
+import { localize, localizeType } from './localization.js';
+import { analyzeCoalitions } from './coalitions.js';
+import { normalizeName } from './names.js';
+import {
+  eraDisplayName,
+  getRule,
+  getStrategicTypes,
+  getTechEra,
+  getTechsBeforeEra,
+  getWeaponTypes,
+  isRuleType,
+  unitClassDisplayName,
+} from './rules.js';
+
+
+// ============ Caching ============
+
+// Parsed results are kept until their log (or Player_Stats.csv, which names the players) changes
+function logFiles(schema: CsvSchema<string>): string[] {
+  return [schema.file, PLAYER_ROSTER_SCHEMA.file];
+}
 
 // ============ Player ID Mapping ============
 
 // Build mapping from Player_Stats.csv (has both player index and civ name)
-export function buildPlayerIdMap(): Map<number, string> {
+export function buildPlayerIdMap(logsDir: string = getLogsDirectory()): Map<number, string> {
+  return cachedFromLogs(logsDir, 'buildPlayerIdMap', [PLAYER_ROSTER_SCHEMA.file], () => loadPlayerIdMap(logsDir));
+}
+
+function loadPlayerIdMap(logsDir: string): Map<number, string> {
   const playerMap = new Map<number, string>();
-  const statsPath = join(LOGS_PATH, LOG_FILES.PLAYER_STATS);
+  const table = readCsvTable(logsDir, PLAYER_ROSTER_SCHEMA);
 
-  if (!existsSync(statsPath)) {
+  if (!table || !table.ok) {
     return playerMap;
   }
 
-  const content = readFileSync(statsPath, 'utf-8');
-  const lines = content.trim().split('\n');
-
-  if (lines.length < 2) return playerMap;
-
   // Get the latest turn's data to build the mapping
   // Each civ appears in order, so index = player ID
   const latestTurn = new Map<string, number>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 2) continue;
-
-    const civName = values[1].replace('CIVILIZATION_', '');
+  for (const row of table.rows) {
+    const civName = row.text('player').replace('CIVILIZATION_', '');
     if (!latestTurn.has(civName)) {
       latestTurn.set(civName, latestTurn.size);
     }
@@ -73,30 +101,34 @@ export function buildPlayerIdMap(): Map<number, string> {
   return playerMap;
 }
 
-// Get civilization name from player ID
+// Get civilization display name from player ID
 function getCivName(playerId: number, playerMap: Map<number, string>): string {
-  return playerMap.get(playerId) || `Player ${playerId}`;
-}
-
-// Format civilization name for display
-function formatCivName(rawName: string): string {
-  return rawName.split('_')
-    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
-    .join(' ');
+  const rawName = playerMap.get(playerId);
+  return rawName ? civDisplayName(rawName) : `Player ${playerId}`;
 }
 
-// Format enum-style names (UNIT_TANK -> Tank, BUILDING_LIBRARY -> Library)
+// Format enum-style names (UNIT_TANK -> Tank, BUILDING_LIBRARY -> Library), from the game text when available
 function formatEnumName(name: string): string {
-  return name
-    .replace(/^(UNIT_|BUILDING_|DISTRICT_|PROJECT_|TECH_|CIVIC_|GREAT_PERSON_INDIVIDUAL_|GREAT_PERSON_CLASS_)/, '')
+  return localizeType(name) ?? name
+    .replace(/^(UNIT_|BUILDING_|DISTRICT_|PROJECT_|TECH_|CIVIC_|GOVERNMENT_|GREAT_PERSON_INDIVIDUAL_|GREAT_PERSON_CLASS_)/, '')
     .split('_')
     .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
     .join(' ');
 }
 
-// Format city name (LOC_CITY_HA_NOI -> Ha Noi, LOC_CITY_NAME_GEELONG -> Geelong)
+// Rule kind plus unit class and era display names for a production item, from the rules data
+function describeItem(type: string): { kind: GameRule['kind'] | null; unitClass: string | null; era: string | null } {
+  const rule = getRule(type);
+  return {
+    kind: rule?.kind ?? null,
+    unitClass: rule?.unitClass ? unitClassDisplayName(rule.unitClass) : null,
+    era: rule?.era ? eraDisplayName(rule.era) : null,
+  };
+}
+
+// Format city name (LOC_CITY_NAME_GEELONG -> Geelong), from the game text when available
 function formatCityName(locName: string): string {
-  return locName
+  return localize(locName) ?? locName
     .replace(/^LOC_CITY_NAME_/, '')  // Must come before LOC_CITY_
     .replace(/^LOC_CITY_/, '')
     .replace(/^NAME_/, '')  // Handle if NAME_ prefix remains
@@ -107,35 +139,28 @@ function formatCityName(locName: string): string {
 
 // ============ Diplomacy Parsing ============
 
-export function parseDiplomacy(): DiplomaticRelation[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.DIPLOMACY);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseDiplomacy(logsDir: string = getLogsDirectory()): DiplomaticRelation[] {
+  return cachedFromLogs(logsDir, 'parseDiplomacy', logFiles(DIPLOMACY_SCHEMA), () => loadDiplomacy(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadDiplomacy(logsDir: string): DiplomaticRelation[] {
+  const table = readCsvTable(logsDir, DIPLOMACY_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
+  const firstPlayerCol = table.columns.firstPlayer;
   const relations: DiplomaticRelation[] = [];
 
   // Parse diplomatic relations (rows without "Threat and Trust" in Action column)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    const parts = line.split(',').map(v => v.trim());
-
-    if (parts.length < 4) continue;
-
-    const turn = parseInt(parts[0], 10);
-    const fromPlayerId = parseInt(parts[1], 10);
-    const action = parts[2];
+  for (const row of table.rows) {
+    const fromPlayerId = row.int('player');
 
     // Skip "Threat and Trust" rows - we'll parse those separately
-    if (action === 'Threat and Trust') continue;
+    if (row.text('action') === 'Threat and Trust') continue;
 
-    // Parse relationship data from columns 4+ (player IDs 0, 1, 2, ...)
-    for (let col = 4; col < parts.length; col++) {
-      const cellValue = parts[col];
+    // Parse relationship data from the player columns (player IDs 0, 1, 2, ...)
+    for (let col = firstPlayerCol; col < row.values.length; col++) {
+      const cellValue = row.values[col];
       if (!cellValue || cellValue === '') continue;
 
       // Format: "score:DIPLO_STATE_XXX" e.g., "-23:DIPLO_STATE_UNFRIENDLY"
@@ -144,14 +169,15 @@ export function parseDiplomacy(): DiplomaticRelation[] {
 
       const score = parseInt(match[1], 10);
       const state = match[2];
-      const toPlayerId = col - 4; // Column offset to player ID
+      const toPlayerId = col - firstPlayerCol; // Column offset to player ID
 
       // Skip self-relations
       if (fromPlayerId === toPlayerId) continue;
 
       relations.push({
-        fromCiv: formatCivName(getCivName(fromPlayerId, playerMap)),
-        toCiv: formatCivName(getCivName(toPlayerId, playerMap)),
+        turn: row.int('turn'),
+        fromCiv: getCivName(fromPlayerId, playerMap),
+        toCiv: getCivName(toPlayerId, playerMap),
         fromPlayerId,
         toPlayerId,
         state,
@@ -162,17 +188,16 @@ export function parseDiplomacy(): DiplomaticRelation[] {
     }
   }
 
-  // Now parse "Threat and Trust" rows to fill in those values
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    const parts = line.split(',').map(v => v.trim());
-
-    if (parts.length < 4 || parts[2] !== 'Threat and Trust') continue;
+  // Now parse "Threat and Trust" rows to fill in those values for the same turn
+  const byTurnAndPair = new Map(relations.map(r => [`${r.turn}:${r.fromPlayerId}:${r.toPlayerId}`, r]));
+  for (const row of table.rows) {
+    if (row.text('action') !== 'Threat and Trust') continue;
 
-    const fromPlayerId = parseInt(parts[1], 10);
+    const turn = row.int('turn');
+    const fromPlayerId = row.int('player');
 
-    for (let col = 4; col < parts.length; col++) {
-      const cellValue = parts[col];
+    for (let col = firstPlayerCol; col < row.values.length; col++) {
+      const cellValue = row.values[col];
       if (!cellValue || cellValue === '') continue;
 
       // Format: "threat:rank:trust" e.g., "60.16:1:32.00"
@@ -181,12 +206,10 @@ export function parseDiplomacy(): DiplomaticRelation[] {
 
       const threat = parseFloat(match[1]);
       const trust = parseFloat(match[3]);
-      const toPlayerId = col - 4;
+      const toPlayerId = col - firstPlayerCol;
 
       // Find and update the corresponding relation
-      const relation = relations.find(
-        r => r.fromPlayerId === fromPlayerId && r.toPlayerId === toPlayerId
-      );
+      const relation = byTurnAndPair.get(`${turn}:${fromPlayerId}:${toPlayerId}`);
       if (relation) {
         relation.threat = threat;
         relation.trust = trust;
@@ -197,42 +220,32 @@ export function parseDiplomacy(): DiplomaticRelation[] {
   return relations;
 }
 
-export function parseDiplomacyModifiers(): DiplomaticModifier[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.DIPLOMACY_MODIFIERS);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseDiplomacyModifiers(logsDir: string = getLogsDirectory()): DiplomaticModifier[] {
+  return cachedFromLogs(logsDir, 'parseDiplomacyModifiers', logFiles(DIPLOMACY_MODIFIERS_SCHEMA), () => loadDiplomacyModifiers(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadDiplomacyModifiers(logsDir: string): DiplomaticModifier[] {
+  const table = readCsvTable(logsDir, DIPLOMACY_MODIFIERS_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
   const modifiers: DiplomaticModifier[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 7) continue;
-
-    const turn = parseInt(values[0], 10);
-    const playerId = parseInt(values[1], 10);
-    const opponentId = parseInt(values[2], 10);
-    const modifier = values[3];
-    const action = values[4];
-    const value = parseFloat(values[5]);
-    const maxValue = parseFloat(values[6]);
-    const cooldownTurns = values.length > 9 ? parseInt(values[9], 10) : 0;
+  for (const row of table.rows) {
+    const playerId = row.int('player');
+    const opponentId = row.int('opponent');
 
     modifiers.push({
-      turn,
-      player: formatCivName(getCivName(playerId, playerMap)),
+      turn: row.int('turn'),
+      player: getCivName(playerId, playerMap),
       playerId,
-      opponent: formatCivName(getCivName(opponentId, playerMap)),
+      opponent: getCivName(opponentId, playerMap),
       opponentId,
-      modifier,
-      action,
-      value,
-      maxValue,
-      cooldownTurns,
+      modifier: row.text('modifier'),
+      action: row.text('action'),
+      value: row.float('value'),
+      maxValue: row.float('maxValue'),
+      cooldownTurns: row.has('cooldown') ? row.int('cooldown') : 0,
     });
   }
 
@@ -241,44 +254,35 @@ export function parseDiplomacyModifiers(): DiplomaticModifier[] {
 
 // ============ Military Parsing ============
 
-export function parseMilitaryIntel(): MilitaryIntelligence[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.MILITARY);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseMilitaryIntel(logsDir: string = getLogsDirectory()): MilitaryIntelligence[] {
+  return cachedFromLogs(logsDir, 'parseMilitaryIntel', logFiles(MILITARY_SCHEMA), () => loadMilitaryIntel(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadMilitaryIntel(logsDir: string): MilitaryIntelligence[] {
+  const table = readCsvTable(logsDir, MILITARY_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
   const intel: MilitaryIntelligence[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 9) continue;
-
-    const turn = parseInt(values[0], 10);
-    const playerId = parseInt(values[1], 10);
-    const regionalStrength = parseInt(values[2], 10);
-    const enemyStrength = parseInt(values[3], 10);
-    const otherStrength = parseInt(values[4], 10);
+  for (const row of table.rows) {
+    const playerId = row.int('player');
 
     // Parse explorers "current:desired" format
-    const explorerParts = values[5].split(':');
+    const explorerParts = row.text('explorers').split(':');
     const currentExplorers = parseInt(explorerParts[0], 10) || 0;
     const desiredExplorers = parseInt(explorerParts[1], 10) || 0;
 
-    // Skip desired explorers column (6), get fav tech (7) and combat desire (8)
-    const favoriteTech = values[7] || 'NO_TECH';
-    const combatDesire = parseFloat(values[8]) || 0;
+    const favoriteTech = row.text('favoriteTech') || 'NO_TECH';
+    const combatDesire = row.float('combatDesire') || 0;
 
     intel.push({
-      turn,
-      civilization: formatCivName(getCivName(playerId, playerMap)),
+      turn: row.int('turn'),
+      civilization: getCivName(playerId, playerMap),
       playerId,
-      regionalStrength,
-      enemyStrength,
-      otherStrength,
+      regionalStrength: row.int('regionalStrength'),
+      enemyStrength: row.int('enemyStrength'),
+      otherStrength: row.int('otherStrength'),
       combatDesire,
       favoriteTech: formatEnumName(favoriteTech),
       currentExplorers,
@@ -289,44 +293,41 @@ export function parseMilitaryIntel(): MilitaryIntelligence[] {
   return intel;
 }
 
-export function parseCombatLog(): CombatRecord[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.COMBAT);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseCombatLog(logsDir: string = getLogsDirectory()): CombatRecord[] {
+  return cachedFromLogs(logsDir, 'parseCombatLog', logFiles(COMBAT_SCHEMA), () => loadCombatLog(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadCombatLog(logsDir: string): CombatRecord[] {
+  const table = readCsvTable(logsDir, COMBAT_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
   const records: CombatRecord[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 14) continue;
-
-    const turn = parseInt(values[0], 10);
-    const attackerId = parseInt(values[1], 10);
-    const defenderId = parseInt(values[2], 10);
-    const attackerUnit = values[5] || 'UNKNOWN';
-    const defenderUnit = values[6] || 'UNKNOWN';
-    const attackerStrength = parseInt(values[9], 10);
-    const defenderStrength = parseInt(values[10], 10);
-    const attackerDamage = parseInt(values[13], 10);
-    const defenderDamage = parseInt(values[12], 10);
+  for (const row of table.rows) {
+    const attackerId = row.int('attackerId');
+    const defenderId = row.int('defenderId');
+    const attackerUnit = row.text('attackerUnit') || 'UNKNOWN';
+    const defenderUnit = row.text('defenderUnit') || 'UNKNOWN';
+    const attacker = describeItem(attackerUnit);
+    const defender = describeItem(defenderUnit);
 
     records.push({
-      turn,
-      attackerCiv: formatCivName(getCivName(attackerId, playerMap)),
-      defenderCiv: formatCivName(getCivName(defenderId, playerMap)),
+      turn: row.int('turn'),
+      attackerCiv: getCivName(attackerId, playerMap),
+      defenderCiv: getCivName(defenderId, playerMap),
       attackerId,
       defenderId,
       attackerUnit: formatEnumName(attackerUnit),
       defenderUnit: formatEnumName(defenderUnit),
-      attackerStrength,
-      defenderStrength,
-      attackerDamage,
-      defenderDamage,
+      attackerStrength: row.int('attackerStrength'),
+      defenderStrength: row.int('defenderStrength'),
+      attackerDamage: row.int('attackerDamage'),
+      defenderDamage: row.int('defenderDamage'),
+      attackerClass: attacker.unitClass,
+      attackerEra: attacker.era,
+      defenderClass: defender.unitClass,
+      defenderEra: defender.era,
     });
   }
 
@@ -335,33 +336,40 @@ export function parseCombatLog(): CombatRecord[] {
 
 // ============ Production/Tech Parsing ============
 
-export function parseCityProduction(): CityProduction[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.CITY_PRODUCTION);
-  if (!existsSync(filePath)) return [];
-
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseCityProduction(logsDir: string = getLogsDirectory()): CityProduction[] {
+  return cachedFromLogs(
+    logsDir,
+    'parseCityProduction',
+    [...logFiles(CITY_BUILD_QUEUE_SCHEMA), CITY_BUILD_SCHEMA.file],
+    () => loadCityProduction(logsDir)
+  );
+}
 
-  if (lines.length < 2) return [];
+function loadCityProduction(logsDir: string): CityProduction[] {
+  const table = readCsvTable(logsDir, CITY_BUILD_QUEUE_SCHEMA);
+  if (!table || !table.ok) return [];
 
   const production: CityProduction[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 7) continue;
-
-    const turn = parseInt(values[0], 10);
-    const city = values[1];
-    const productionPerTurn = parseFloat(values[2]);
-    const currentItem = values[3];
-    const currentProgress = parseFloat(values[4]);
-    const productionNeeded = parseFloat(values[5]);
-    const overflow = parseFloat(values[6]) || 0;
+  const playerMap = buildPlayerIdMap(logsDir);
+  const tenures = getCityTenures(logsDir);
+  const humanId = findHumanPlayerId(tenures, playerMap);
+
+  for (const row of table.rows) {
+    const city = row.text('city');
+    const productionPerTurn = row.float('productionPerTurn');
+    const currentItem = row.text('item');
+    const currentProgress = row.float('progress');
+    const productionNeeded = row.float('needed');
+    const overflow = row.float('overflow') || 0;
 
     const turnsRemaining = productionPerTurn > 0
       ? Math.ceil((productionNeeded - currentProgress) / productionPerTurn)
       : 999;
 
+    const turn = row.int('turn');
+    const owner = findCityOwner(city, turn, tenures, playerMap, humanId);
+    const item = describeItem(currentItem);
+
     production.push({
       turn,
       city,
@@ -373,6 +381,12 @@ export function parseCityProduction(): CityProduction[] {
       productionNeeded,
       turnsRemaining: Math.max(0, turnsRemaining),
       overflow,
+      ownerId: owner?.playerId ?? null,
+      owner: owner ? getCivName(owner.playerId, playerMap) : null,
+      ownerSource: owner?.source ?? null,
+      itemKind: item.kind,
+      itemClass: item.unitClass,
+      itemEra: item.era,
     });
   }
 
@@ -380,27 +394,22 @@ export function parseCityProduction(): CityProduction[] {
 }
 
 // Parse AI_CityBuild.csv for city founding stats (food/production advantage)
-export function parseCityFoundingStats(): CityFoundingStats[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.CITY_BUILD);
-  if (!existsSync(filePath)) return [];
-
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseCityFoundingStats(logsDir: string = getLogsDirectory()): CityFoundingStats[] {
+  return cachedFromLogs(logsDir, 'parseCityFoundingStats', logFiles(CITY_BUILD_SCHEMA), () => loadCityFoundingStats(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadCityFoundingStats(logsDir: string): CityFoundingStats[] {
+  const table = readCsvTable(logsDir, CITY_BUILD_SCHEMA);
+  if (!table || !table.ok) return [];
 
   const stats: CityFoundingStats[] = [];
   const seenCities = new Map<string, CityFoundingStats>(); // Track first occurrence per city per player
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 5) continue;
-
-    const turn = parseInt(values[0], 10);
-    const playerId = parseInt(values[1], 10);
-    const city = values[2];
-    const foodAdvantage = parseFloat(values[3]);
-    const productionAdvantage = parseFloat(values[4]);
+  for (const row of table.rows) {
+    const playerId = row.int('player');
+    const city = row.text('city');
+    const foodAdvantage = row.float('foodAdvantage');
+    const productionAdvantage = row.float('productionAdvantage');
 
     // Skip entries without food/production data (these are build decisions, not city founding)
     if (isNaN(foodAdvantage) || isNaN(productionAdvantage)) continue;
@@ -409,7 +418,7 @@ export function parseCityFoundingStats(): CityFoundingStats[] {
     const key = `${playerId}:${city}`;
     if (!seenCities.has(key)) {
       const foundingStat: CityFoundingStats = {
-        turn,
+        turn: row.int('turn'),
         playerId,
         city,
         cityDisplayName: formatCityName(city),
@@ -424,99 +433,350 @@ export function parseCityFoundingStats(): CityFoundingStats[] {
   return stats;
 }
 
-export function parseTechStatus(): TechProgress[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.TECH);
-  if (!existsSync(filePath)) return [];
+// ============ City Ownership ============
+
+// A run of consecutive AI_CityBuild.csv rows with the city under one player
+interface CityTenure {
+  playerId: number;
+  firstTurn: number;
+  lastTurn: number;
+}
+
+// City -> its owners over time, oldest first
+function getCityTenures(logsDir: string): Map<string, CityTenure[]> {
+  return cachedFromLogs(logsDir, 'getCityTenures', [CITY_BUILD_SCHEMA.file], () => loadCityTenures(logsDir));
+}
 
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+function loadCityTenures(logsDir: string): Map<string, CityTenure[]> {
+  const tenures = new Map<string, CityTenure[]>();
+  const table = readCsvTable(logsDir, CITY_BUILD_SCHEMA);
+  if (!table || !table.ok) return tenures;
+
+  const sightings = new Map<string, { turn: number; playerId: number }[]>();
+  for (const row of table.rows) {
+    const turn = row.int('turn');
+    const playerId = row.int('player');
+    const city = row.text('city');
+    if (isNaN(turn) || isNaN(playerId) || !city) continue;
+
+    if (!sightings.has(city)) sightings.set(city, []);
+    sightings.get(city)!.push({ turn, playerId });
+  }
+
+  for (const [city, seen] of sightings) {
+    const runs: CityTenure[] = [];
+    for (const { turn, playerId } of seen.sort((a, b) => a.turn - b.turn)) {
+      const current = runs[runs.length - 1];
+      if (current && current.playerId === playerId) {
+        current.lastTurn = turn;
+      } else {
+        runs.push({ playerId, firstTurn: turn, lastTurn: turn });
+      }
+    }
+    tenures.set(city, runs);
+  }
 
-  if (lines.length < 2) return [];
+  return tenures;
+}
 
-  const progress: TechProgress[] = [];
+// AI_CityBuild.csv only covers AI players, so the human is the one major civ
+// it never mentions. Null when that isn't exactly one civ (hotseat, or before
+// every AI has founded a city).
+function findHumanPlayerId(tenures: Map<string, CityTenure[]>, playerMap: Map<number, string>): number | null {
+  const aiPlayers = new Set([...tenures.values()].flatMap(runs => runs.map(r => r.playerId)));
+  const silent = [...playerMap.entries()]
+    .filter(([id, rawName]) => !aiPlayers.has(id) && !isCityState(rawName) && rawName !== 'FREE_CITIES');
+  return silent.length === 1 ? silent[0][0] : null;
+}
+
+// Owner of a city on a turn: the last player the logs show holding it by then
+// (or the first one, for a turn before its first row). A city AI_CityBuild.csv
+// never mentions belongs to the human, when there's one; otherwise the civ whose
+// default city names include it, if that civ is in the game. Past the city's
+// last row the owner is only 'last-seen': a city taken by the human simply
+// stops appearing.
+function findCityOwner(
+  city: string,
+  turn: number,
+  tenures: Map<string, CityTenure[]>,
+  playerMap: Map<number, string>,
+  humanId: number | null
+): { playerId: number; source: CityOwnerSource } | null {
+  const runs = tenures.get(city);
+  if (runs && runs.length > 0) {
+    const held = runs.filter(r => r.firstTurn <= turn);
+    const tenure = held.length > 0 ? held[held.length - 1] : runs[0];
+    return { playerId: tenure.playerId, source: turn > tenure.lastTurn ? 'last-seen' : 'log' };
+  }
+
+  if (humanId !== null) {
+    return { playerId: humanId, source: 'human' };
+  }
+
+  const civ = findCivForCity(city);
+  if (civ) {
+    for (const [playerId, rawName] of playerMap) {
+      if (rawName === civ) return { playerId, source: 'name-list' };
+    }
+  }
+  return null;
+}
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 7) continue;
+/**
+ * Cities that changed hands, from the player IDs in AI_CityBuild.csv. Oldest first.
+ */
+export function parseCityTransfers(logsDir: string = getLogsDirectory()): CityTransfer[] {
+  return cachedFromLogs(logsDir, 'parseCityTransfers', logFiles(CITY_BUILD_SCHEMA), () => loadCityTransfers(logsDir));
+}
 
-    const turn = parseInt(values[0], 10);
-    const playerId = parseInt(values[1], 10);
-    const action = values[2];
-    const tech = values[3];
-    const status = values[5];
-    const turnsRemaining = parseInt(values[6], 10);
+function loadCityTransfers(logsDir: string): CityTransfer[] {
+  const playerMap = buildPlayerIdMap(logsDir);
+  const transfers: CityTransfer[] = [];
 
+  for (const [city, runs] of getCityTenures(logsDir)) {
+    for (let i = 1; i < runs.length; i++) {
+      transfers.push({
+        turn: runs[i].firstTurn,
+        city,
+        cityDisplayName: formatCityName(city),
+        fromPlayerId: runs[i - 1].playerId,
+        from: getCivName(runs[i - 1].playerId, playerMap),
+        toPlayerId: runs[i].playerId,
+        to: getCivName(runs[i].playerId, playerMap),
+      });
+    }
+  }
+
+  return transfers.sort((a, b) => a.turn - b.turn || a.cityDisplayName.localeCompare(b.cityDisplayName));
+}
+
+export function parseTechStatus(logsDir: string = getLogsDirectory()): TechProgress[] {
+  return cachedFromLogs(logsDir, 'parseTechStatus', logFiles(RESEARCH_SCHEMA), () => loadTechStatus(logsDir));
+}
+
+function loadTechStatus(logsDir: string): TechProgress[] {
+  const table = readCsvTable(logsDir, RESEARCH_SCHEMA);
+  if (!table || !table.ok) return [];
+
+  const playerMap = buildPlayerIdMap(logsDir);
+  const progress: TechProgress[] = [];
+
+  for (const row of table.rows) {
     // Only include Tech entries (not Civic)
-    if (action !== 'Tech') continue;
+    if (row.text('action') !== 'Tech') continue;
+
+    const playerId = row.int('player');
 
     progress.push({
-      turn,
-      civilization: formatCivName(getCivName(playerId, playerMap)),
+      turn: row.int('turn'),
+      civilization: getCivName(playerId, playerMap),
       playerId,
-      tech: formatEnumName(tech),
-      status,
-      turnsRemaining,
+      tech: formatEnumName(row.text('item')),
+      status: row.text('status'),
+      turnsRemaining: row.int('turnsRemaining'),
     });
   }
 
   return progress;
 }
 
-// ============ World Events Parsing ============
+// ============ Tech Race ============
+
+// Techs that open the space race, nuclear weapons and Giant Death Robots
+const MILESTONE_TECHS = ['TECH_ROCKETRY', 'TECH_NUCLEAR_FISSION', 'TECH_SATELLITES', 'TECH_ROBOTICS'];
+
+function forecastMilestone(
+  tech: string,
+  turn: number,
+  owned: Set<string>,
+  researching: TechProgress | undefined,
+  techsPerTurn: number | null
+): MilestoneForecast {
+  const name = formatEnumName(tech);
+  const forecast = (status: MilestoneForecast['status'], turns: number | null): MilestoneForecast => ({
+    tech: name,
+    status,
+    turns,
+    projectedTurn: turns !== null && status !== 'owned' ? turn + turns : null,
+    gapToPlayer: null,
+  });
+
+  if (owned.has(name)) return forecast('owned', 0);
+  if (researching?.tech === name) return forecast('researching', researching.turnsRemaining);
+
+  // Assume the earlier eras' techs come first, then the milestone itself
+  const era = getTechEra(tech);
+  if (!era || techsPerTurn === null) return forecast('unknown', null);
+  const remaining = getTechsBeforeEra(era).filter(t => !owned.has(formatEnumName(t))).length + 1;
+  return forecast('projected', Math.ceil(remaining / techsPerTurn));
+}
 
-export function parseWorldCongress(): { votes: CongressVote[], results: CongressResult[] } {
-  const filePath = join(LOGS_PATH, LOG_FILES.WORLD_CONGRESS);
-  if (!existsSync(filePath)) return { votes: [], results: [] };
+/**
+ * What each civ is researching and when it should reach the milestone techs,
+ * from its latest research rows and its techs per turn in `techTrends` (see analyzeTrends,
+ * which ends at the latest complete turn so rivals still have a rate mid-turn).
+ */
+export function forecastTechRace(progress: TechProgress[], techTrends: CivTrend[], playerId?: number): TechForecast[] {
+  // Each civ's latest turn; mid-turn the newest turn may only have the human player
+  const latestTurn = new Map<number, number>();
+  for (const row of progress) {
+    latestTurn.set(row.playerId, Math.max(row.turn, latestTurn.get(row.playerId) ?? row.turn));
+  }
+
+  const forecasts: TechForecast[] = [];
+  for (const [id, turn] of latestTurn) {
+    const rows = progress.filter(p => p.playerId === id && p.turn === turn);
+    const civilization = rows[0].civilization;
+    if (isCityState(civilization)) continue;
+    // Major civs without a trend (e.g. too little history) still get a forecast, just no rate
+    const trend = techTrends.find(t => t.civilization === civilization);
+
+    const owned = new Set(rows.filter(r => r.status === 'OWNED').map(r => r.tech));
+    const researching = rows.find(r => r.status === 'RESEARCHING');
+    const rate = trend && trend.turnsAnalyzed > 0 ? trend.techs.change / trend.turnsAnalyzed : 0;
+    const techsPerTurn = rate > 0 ? Math.round(rate * 100) / 100 : null;
+
+    forecasts.push({
+      civilization,
+      playerId: id,
+      isPlayer: id === playerId,
+      techsOwned: owned.size,
+      researching: researching?.tech ?? null,
+      turnsRemaining: researching?.turnsRemaining ?? null,
+      techsPerTurn,
+      milestones: MILESTONE_TECHS.map(tech => forecastMilestone(tech, turn, owned, researching, techsPerTurn)),
+    });
+  }
 
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+  const player = forecasts.find(f => f.isPlayer);
+  for (const forecast of forecasts) {
+    forecast.milestones.forEach((milestone, i) => {
+      const ours = player?.milestones[i].turns ?? null;
+      if (!forecast.isPlayer && milestone.turns !== null && ours !== null) {
+        milestone.gapToPlayer = milestone.turns - ours;
+      }
+    });
+  }
+
+  return forecasts.sort((a, b) => b.techsOwned - a.techsOwned);
+}
+
+// Civics that unlock governments, plus Ideology, which leads to the modern ones
+const KEY_CIVICS: Record<string, string[]> = {
+  CIVIC_POLITICAL_PHILOSOPHY: ['GOVERNMENT_AUTOCRACY', 'GOVERNMENT_OLIGARCHY', 'GOVERNMENT_CLASSICAL_REPUBLIC'],
+  CIVIC_DIVINE_RIGHT: ['GOVERNMENT_MONARCHY'],
+  CIVIC_EXPLORATION: ['GOVERNMENT_MERCHANT_REPUBLIC'],
+  CIVIC_REFORMED_CHURCH: ['GOVERNMENT_THEOCRACY'],
+  CIVIC_IDEOLOGY: [],
+  CIVIC_SUFFRAGE: ['GOVERNMENT_DEMOCRACY'],
+  CIVIC_TOTALITARIANISM: ['GOVERNMENT_FASCISM'],
+  CIVIC_CLASS_STRUGGLE: ['GOVERNMENT_COMMUNISM'],
+  CIVIC_CORPORATE_LIBERTARIANISM: ['GOVERNMENT_CORPORATE_LIBERTARIANISM'],
+  CIVIC_DIGITAL_DEMOCRACY: ['GOVERNMENT_DIGITAL_DEMOCRACY'],
+  CIVIC_SYNTHETIC_TECHNOCRACY: ['GOVERNMENT_SYNTHETIC_TECHNOCRACY'],
+};
+
+function keyCivicUnlocks(civicType: string): string {
+  const governments = KEY_CIVICS[civicType] ?? [];
+  return governments.length > 0
+    ? governments.map(formatEnumName).join(', ')
+    : 'the path to Democracy, Fascism and Communism';
+}
+
+export function parseCivicStatus(logsDir: string = getLogsDirectory()): { progress: CivicProgress[], milestones: CivicMilestone[] } {
+  return cachedFromLogs(logsDir, 'parseCivicStatus', logFiles(RESEARCH_SCHEMA), () => loadCivicStatus(logsDir));
+}
 
-  if (lines.length < 2) return { votes: [], results: [] };
+function loadCivicStatus(logsDir: string): { progress: CivicProgress[], milestones: CivicMilestone[] } {
+  const table = readCsvTable(logsDir, RESEARCH_SCHEMA);
+  if (!table || !table.ok) return { progress: [], milestones: [] };
 
+  const playerMap = buildPlayerIdMap(logsDir);
+  const progress: CivicProgress[] = [];
+  // First OWNED row per player and key civic; the log repeats owned civics every turn
+  const milestones = new Map<string, CivicMilestone>();
+
+  for (const row of table.rows) {
+    if (row.text('action') !== 'Civic') continue;
+
+    const playerId = row.int('player');
+    const civicType = row.text('item').trim().toUpperCase();
+    const record: CivicProgress = {
+      turn: row.int('turn'),
+      civilization: getCivName(playerId, playerMap),
+      playerId,
+      civic: formatEnumName(civicType),
+      status: row.text('status'),
+      turnsRemaining: row.int('turnsRemaining'),
+      keyCivic: civicType in KEY_CIVICS,
+    };
+    progress.push(record);
+
+    const key = `${playerId}|${civicType}`;
+    const earlier = milestones.get(key);
+    if (record.keyCivic && record.status === 'OWNED' && (!earlier || record.turn < earlier.turn)) {
+      milestones.set(key, {
+        turn: record.turn,
+        civilization: record.civilization,
+        playerId,
+        civic: record.civic,
+        unlocks: keyCivicUnlocks(civicType),
+      });
+    }
+  }
+
+  return {
+    progress,
+    milestones: [...milestones.values()].sort((a, b) => a.turn - b.turn || a.civilization.localeCompare(b.civilization)),
+  };
+}
+
+// ============ World Events Parsing ============
+
+export function parseWorldCongress(logsDir: string = getLogsDirectory()): { votes: CongressVote[], results: CongressResult[] } {
+  return cachedFromLogs(logsDir, 'parseWorldCongress', logFiles(WORLD_CONGRESS_SCHEMA), () => loadWorldCongress(logsDir));
+}
+
+function loadWorldCongress(logsDir: string): { votes: CongressVote[], results: CongressResult[] } {
+  const table = readCsvTable(logsDir, WORLD_CONGRESS_SCHEMA);
+  if (!table || !table.ok) return { votes: [], results: [] };
+
+  const playerMap = buildPlayerIdMap(logsDir);
   const votes: CongressVote[] = [];
   const results: CongressResult[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 3) continue;
-
-    const turn = parseInt(values[0], 10);
-    const action = values[1];
-    const resolution = values[2];
+  for (const row of table.rows) {
+    const turn = row.int('turn');
+    const action = row.text('action');
+    const resolution = row.text('resolution');
 
-    if (action === 'VOTES' && values.length >= 5) {
-      const playerId = parseInt(values[3], 10);
-      const voteCount = parseInt(values[4], 10);
+    if (action === 'VOTES' && row.has('arg2')) {
+      const playerId = row.int('arg1');
+      const voteCount = row.int('arg2');
 
       votes.push({
         turn,
         resolution: formatEnumName(resolution),
         playerId,
-        player: formatCivName(getCivName(playerId, playerMap)),
+        player: getCivName(playerId, playerMap),
         votes: voteCount,
         targetOption: 0,
       });
-    } else if (action === 'OPTIONS' && values.length >= 6) {
-      const playerId = parseInt(values[3], 10);
-      const option1 = parseInt(values[4], 10);
-      const option2 = parseInt(values[5], 10);
+    } else if (action === 'OPTIONS' && row.has('arg3')) {
+      const playerId = row.int('arg1');
+      const option2 = row.int('arg3');
 
       // Update the corresponding vote with target option
       const vote = votes.find(v => v.turn === turn && v.playerId === playerId && v.resolution === formatEnumName(resolution));
       if (vote) {
         vote.targetOption = option2;
       }
-    } else if (action === 'RESOLUTION DECIDED' && values.length >= 5) {
-      const winningOption = parseInt(values[3], 10);
-      const voteCount = parseInt(values[4], 10);
-
+    } else if (action === 'RESOLUTION DECIDED' && row.has('arg2')) {
       results.push({
         turn,
         resolution: formatEnumName(resolution),
-        winningOption,
-        voteCount,
+        winningOption: row.int('arg1'),
+        voteCount: row.int('arg2'),
       });
     }
   }
@@ -524,40 +784,32 @@ export function parseWorldCongress(): { votes: CongressVote[], results: Congress
   return { votes, results };
 }
 
-export function parseGreatPeople(): GreatPersonEvent[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.GREAT_PEOPLE);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseGreatPeople(logsDir: string = getLogsDirectory()): GreatPersonEvent[] {
+  return cachedFromLogs(logsDir, 'parseGreatPeople', logFiles(GREAT_PEOPLE_SCHEMA), () => loadGreatPeople(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadGreatPeople(logsDir: string): GreatPersonEvent[] {
+  const table = readCsvTable(logsDir, GREAT_PEOPLE_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
   const events: GreatPersonEvent[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 7) continue;
-
-    const turn = parseInt(values[0], 10);
-    const event = values[1];
-    const individual = values[2];
-    const gpClass = values[3];
-    const era = values[4];
-    const cost = parseInt(values[5], 10);
-    const recipientId = parseInt(values[6], 10);
+  for (const row of table.rows) {
+    const individual = row.text('individual');
+    const recipientId = row.int('recipient');
 
     events.push({
-      turn,
-      event,
+      turn: row.int('turn'),
+      event: row.text('event'),
       individual,
       displayName: formatEnumName(individual),
-      gpClass: formatEnumName(gpClass),
-      era: formatEnumName(era),
-      cost,
+      gpClass: formatEnumName(row.text('gpClass')),
+      classType: row.text('gpClass'),
+      era: formatEnumName(row.text('era')),
+      cost: row.int('cost'),
       recipientId,
-      recipient: recipientId >= 0 ? formatCivName(getCivName(recipientId, playerMap)) : null,
+      recipient: recipientId >= 0 ? getCivName(recipientId, playerMap) : null,
     });
   }
 
@@ -565,69 +817,203 @@ export function parseGreatPeople(): GreatPersonEvent[] {
 }
 
 // Cultural great people classes for cultural victory tracking
-const CULTURAL_GP_CLASSES = [
-  'GREAT_PERSON_CLASS_ARTIST',
-  'GREAT_PERSON_CLASS_WRITER',
-  'GREAT_PERSON_CLASS_MUSICIAN',
-];
-
-export function parseCulturalGreatPeople(): GreatPersonEvent[] {
-  const allGreatPeople = parseGreatPeople();
+const CULTURAL_GP_CLASSES = ['ARTIST', 'WRITER', 'MUSICIAN'];
+
+// Compare on the class type, which (unlike gpClass) doesn't depend on the display language
+function isGreatPersonClass(gp: GreatPersonEvent, gpClass: string): boolean {
+  return gp.classType.toUpperCase().replace(/^GREAT_PERSON_CLASS_/, '') === gpClass;
+}
+
+export function parseCulturalGreatPeople(logsDir: string = getLogsDirectory()): GreatPersonEvent[] {
+  const allGreatPeople = parseGreatPeople(logsDir);
   return allGreatPeople.filter(gp =>
-    CULTURAL_GP_CLASSES.some(c => gp.gpClass.toUpperCase().replace(/ /g, '_').includes(c.replace('GREAT_PERSON_CLASS_', '')))
+    CULTURAL_GP_CLASSES.some(c => isGreatPersonClass(gp, c))
   );
 }
 
 // Parse Game_PlayerScores.csv for score breakdown by category
-export function parseScoreBreakdown(): ScoreBreakdown[] {
-  const filePath = join(LOGS_PATH, LOG_FILES.PLAYER_SCORES);
-  if (!existsSync(filePath)) return [];
-
-  const playerMap = buildPlayerIdMap();
-  const content = readFileSync(filePath, 'utf-8');
-  const lines = content.trim().split('\n');
+export function parseScoreBreakdown(logsDir: string = getLogsDirectory()): ScoreBreakdown[] {
+  return cachedFromLogs(logsDir, 'parseScoreBreakdown', logFiles(PLAYER_SCORES_SCHEMA), () => loadScoreBreakdown(logsDir));
+}
 
-  if (lines.length < 2) return [];
+function loadScoreBreakdown(logsDir: string): ScoreBreakdown[] {
+  const table = readCsvTable(logsDir, PLAYER_SCORES_SCHEMA);
+  if (!table || !table.ok) return [];
 
+  const playerMap = buildPlayerIdMap(logsDir);
   const scores: ScoreBreakdown[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map(v => v.trim());
-    if (values.length < 14) continue;
-
-    const turn = parseInt(values[0], 10);
-    const playerId = parseInt(values[1], 10);
-    const totalScore = parseInt(values[2], 10);
-    const civics = parseInt(values[3], 10);
-    const empire = parseInt(values[4], 10);
-    const greatPeople = parseInt(values[5], 10);
-    const religion = parseInt(values[6], 10);
-    const tech = parseInt(values[7], 10);
-    const wonders = parseInt(values[8], 10);
-    const trade = parseInt(values[9], 10);
-    const pillage = parseInt(values[10], 10);
-    const income = parseInt(values[11], 10);
+  for (const row of table.rows) {
+    const playerId = row.int('player');
 
     scores.push({
-      turn,
+      turn: row.int('turn'),
       playerId,
-      civilization: formatCivName(getCivName(playerId, playerMap)),
-      totalScore,
-      civics,
-      empire,
-      greatPeople,
-      religion,
-      tech,
-      wonders,
-      trade,
-      pillage,
-      income,
+      civilization: getCivName(playerId, playerMap),
+      totalScore: row.int('score'),
+      civics: row.int('civics'),
+      empire: row.int('empire'),
+      greatPeople: row.int('greatPeople'),
+      religion: row.int('religion'),
+      tech: row.int('tech'),
+      wonders: row.int('wonders'),
+      trade: row.has('trade') ? row.int('trade') : 0,
+      pillage: row.has('pillage') ? row.int('pillage') : 0,
+      income: row.has('income') ? row.int('income') : 0,
     });
   }
 
   return scores;
 }
 
+// ============ Record Selection ============
+
+/**
+ * Records from the most recent turn in a log.
+ */
+export function latestTurnRecords<T extends { turn: number }>(records: T[]): T[] {
+  if (records.length === 0) return [];
+  // Whole logs pass through here, too many rows to spread into Math.max
+  const latestTurn = records.reduce((turn, r) => Math.max(turn, r.turn), -Infinity);
+  return records.filter(r => r.turn === latestTurn);
+}
+
+/**
+ * Latest relation for each from/to pair (AI_Diplomacy.csv has a row per player per turn).
+ */
+export function getLatestRelations(relations: DiplomaticRelation[]): DiplomaticRelation[] {
+  const byPair = new Map<string, DiplomaticRelation>();
+  for (const rel of relations) {
+    const key = `${rel.fromPlayerId}:${rel.toPlayerId}`;
+    const existing = byPair.get(key);
+    if (!existing || rel.turn >= existing.turn) byPair.set(key, rel);
+  }
+  return [...byPair.values()];
+}
+
+// ============ Diplomatic History ============
+
+function diplomaticEventKind(previousState: string, state: string): DiplomaticEventKind {
+  if (state === 'WAR') return 'war-declared';
+  if (previousState === 'WAR') return 'peace';
+  if (state === 'ALLIED') return 'alliance-formed';
+  if (previousState === 'ALLIED') return 'alliance-ended';
+  if (state === 'DECLARED_FRIEND') return 'friendship-declared';
+  if (state === 'DENOUNCED') return 'denounced';
+  return 'state-change';
+}
+
+// Wars, peace and alliances involve both sides, so they're reported once per pair
+const MUTUAL_EVENTS: DiplomaticEventKind[] = ['war-declared', 'peace', 'alliance-formed', 'alliance-ended'];
+
+function relationsByPair(relations: DiplomaticRelation[]): Map<string, DiplomaticRelation[]> {
+  const byPair = new Map<string, DiplomaticRelation[]>();
+  for (const rel of relations) {
+    const key = `${rel.fromPlayerId}:${rel.toPlayerId}`;
+    if (!byPair.has(key)) byPair.set(key, []);
+    byPair.get(key)!.push(rel);
+  }
+  for (const history of byPair.values()) {
+    history.sort((a, b) => a.turn - b.turn);
+  }
+  return byPair;
+}
+
+/**
+ * State changes between consecutive logged turns for every pair, oldest first.
+ * Pairs that first appear after the first logged turn produce a 'met' event.
+ */
+export function getDiplomaticEvents(relations: DiplomaticRelation[]): DiplomaticEvent[] {
+  if (relations.length === 0) return [];
+
+  // A loop rather than a spread: a long game's log has more rows than a call takes arguments
+  const firstTurn = relations.reduce((first, r) => Math.min(first, r.turn), Infinity);
+  const events: DiplomaticEvent[] = [];
+  const seenMutual = new Set<string>();
+
+  const event = (rel: DiplomaticRelation, kind: DiplomaticEventKind, previousState: string | null): DiplomaticEvent => ({
+    turn: rel.turn,
+    kind,
+    fromCiv: rel.fromCiv,
+    toCiv: rel.toCiv,
+    fromPlayerId: rel.fromPlayerId,
+    toPlayerId: rel.toPlayerId,
+    previousState,
+    state: rel.state,
+  });
+
+  for (const history of relationsByPair(relations).values()) {
+    if (history[0].turn > firstTurn) {
+      events.push(event(history[0], 'met', null));
+    }
+
+    for (let i = 1; i < history.length; i++) {
+      const previous = history[i - 1];
+      const rel = history[i];
+      if (rel.state === previous.state) continue;
+
+      const kind = diplomaticEventKind(previous.state, rel.state);
+      if (MUTUAL_EVENTS.includes(kind)) {
+        const pair = [rel.fromPlayerId, rel.toPlayerId].sort((a, b) => a - b).join(':');
+        const key = `${rel.turn}:${pair}:${kind}`;
+        if (seenMutual.has(key)) continue;
+        seenMutual.add(key);
+      }
+      events.push(event(rel, kind, previous.state));
+    }
+  }
+
+  return events.sort((a, b) => a.turn - b.turn || a.fromCiv.localeCompare(b.fromCiv));
+}
+
+/**
+ * Score, threat and trust over time for one civ's view of another.
+ */
+export function getDiplomaticTrajectory(relations: DiplomaticRelation[], fromCiv: string, toCiv: string): DiplomaticTrajectory | null {
+  const from = normalizeName(fromCiv);
+  const to = normalizeName(toCiv);
+  const history = relations
+    .filter(r => normalizeName(r.fromCiv) === from && normalizeName(r.toCiv) === to)
+    .sort((a, b) => a.turn - b.turn);
+  if (history.length === 0) return null;
+
+  return {
+    fromCiv: history[0].fromCiv,
+    toCiv: history[0].toCiv,
+    fromPlayerId: history[0].fromPlayerId,
+    toPlayerId: history[0].toPlayerId,
+    points: history.map(r => ({ turn: r.turn, state: r.state, score: r.score, threat: r.threat, trust: r.trust })),
+  };
+}
+
+/**
+ * Events from the last `turns` logged turns involving `civilization` (and
+ * `otherCivilization`, if given), plus the pair's trajectories in both directions.
+ */
+export function getDiplomaticHistory(
+  relations: DiplomaticRelation[],
+  options: { civilization?: string; otherCivilization?: string; turns: number }
+): { events: DiplomaticEvent[]; trajectories: DiplomaticTrajectory[] } {
+  if (relations.length === 0) return { events: [], trajectories: [] };
+
+  const since = relations.reduce((latest, r) => Math.max(latest, r.turn), -Infinity) - options.turns;
+  const involves = (event: DiplomaticEvent, civ?: string) =>
+    !civ || normalizeName(event.fromCiv) === normalizeName(civ) || normalizeName(event.toCiv) === normalizeName(civ);
+
+  const events = getDiplomaticEvents(relations).filter(e =>
+    e.turn > since && involves(e, options.civilization) && involves(e, options.otherCivilization)
+  );
+
+  const { civilization, otherCivilization } = options;
+  const trajectories = civilization && otherCivilization
+    ? [getDiplomaticTrajectory(relations, civilization, otherCivilization), getDiplomaticTrajectory(relations, otherCivilization, civilization)]
+      .filter((t): t is DiplomaticTrajectory => t !== null)
+      .map(t => ({ ...t, points: t.points.filter(p => p.turn > since) }))
+    : [];
+
+  return { events, trajectories };
+}
+
 // ============ Formatting Functions ============
 
 export function formatDiplomacyStatus(relations: DiplomaticRelation[], playerCiv?: string): string {
@@ -636,14 +1022,15 @@ export function formatDiplomacyStatus(relations: DiplomaticRelation[], playerCiv
   }
 
   const lines: string[] = [];
-  const latestTurn = Math.max(...relations.map(r => r.fromPlayerId));
+  const latest = getLatestRelations(relations);
+  const latestTurn = latest.reduce((turn, r) => Math.max(turn, r.turn), -Infinity);
 
-  lines.push('# Diplomatic Status');
+  lines.push(`# Diplomatic Status (Turn ${latestTurn})`);
   lines.push('');
 
   // Group by fromCiv
   const byFromCiv = new Map<string, DiplomaticRelation[]>();
-  for (const rel of relations) {
+  for (const rel of latest) {
     if (!byFromCiv.has(rel.fromCiv)) {
       byFromCiv.set(rel.fromCiv, []);
     }
@@ -680,7 +1067,7 @@ export function formatDiplomacyStatus(relations: DiplomaticRelation[], playerCiv
   }
 
   // Show active wars
-  const wars = relations.filter(r => r.state === 'WAR');
+  const wars = latest.filter(r => r.state === 'WAR');
   if (wars.length > 0) {
     lines.push('## Active Wars');
     const warPairs = new Set<string>();
@@ -697,6 +1084,70 @@ export function formatDiplomacyStatus(relations: DiplomaticRelation[], playerCiv
   return lines.join('\n');
 }
 
+const DIPLOMATIC_EVENT_LABELS: Record<DiplomaticEventKind, string> = {
+  'met': 'first contact',
+  'war-declared': 'war declared',
+  'peace': 'peace',
+  'alliance-formed': 'alliance formed',
+  'alliance-ended': 'alliance ended',
+  'friendship-declared': 'friendship declared',
+  'denounced': 'denounced',
+  'state-change': '',
+};
+
+function formatDiplomaticEvent(event: DiplomaticEvent): string {
+  const state = (s: string) => s.replace(/_/g, ' ');
+  const label = DIPLOMATIC_EVENT_LABELS[event.kind];
+
+  if (event.previousState === null) {
+    return `- **T${event.turn}** ${event.fromCiv} met ${event.toCiv} (${state(event.state)})`;
+  }
+  const arrow = MUTUAL_EVENTS.includes(event.kind) ? '↔' : '→';
+  const change = `${state(event.previousState)} → ${state(event.state)}`;
+  return `- **T${event.turn}** ${event.fromCiv} ${arrow} ${event.toCiv}: ${change}${label ? ` (${label})` : ''}`;
+}
+
+export function formatDiplomaticHistory(events: DiplomaticEvent[], trajectories: DiplomaticTrajectory[], turns: number): string {
+  if (events.length === 0 && trajectories.length === 0) {
+    return `No diplomatic changes in the last ${turns} turns.`;
+  }
+
+  const lines: string[] = [];
+  lines.push(`# Diplomatic History (Last ${turns} Turns)`);
+  lines.push('');
+
+  lines.push('## Events');
+  lines.push('');
+  if (events.length === 0) {
+    lines.push('No state changes.');
+  }
+  for (const event of events) {
+    lines.push(formatDiplomaticEvent(event));
+  }
+  lines.push('');
+
+  for (const trajectory of trajectories) {
+    const first = trajectory.points[0];
+    const last = trajectory.points[trajectory.points.length - 1];
+
+    lines.push(`## ${trajectory.fromCiv} → ${trajectory.toCiv}`);
+    lines.push('');
+    if (first && last) {
+      const signed = (n: number) => `${n >= 0 ? '+' : ''}${n}`;
+      lines.push(`Score ${signed(first.score)} → ${signed(last.score)}, trust ${first.trust.toFixed(0)} → ${last.trust.toFixed(0)}, threat ${first.threat.toFixed(0)} → ${last.threat.toFixed(0)}`);
+      lines.push('');
+    }
+    lines.push('| Turn | State | Score | Trust | Threat |');
+    lines.push('|------|-------|-------|-------|--------|');
+    for (const point of trajectory.points) {
+      lines.push(`| ${point.turn} | ${point.state.replace(/_/g, ' ')} | ${point.score} | ${point.trust.toFixed(1)} | ${point.threat.toFixed(1)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
 export function formatDiplomacyModifiers(modifiers: DiplomaticModifier[], playerCiv?: string): string {
   if (modifiers.length === 0) {
     return 'No diplomatic modifiers available.';
@@ -805,6 +1256,10 @@ export function formatMilitaryIntelligence(intel: MilitaryIntelligence[]): strin
   return lines.join('\n');
 }
 
+function formatCombatUnit(unit: string, unitClass: string | null): string {
+  return unitClass && unitClass !== unit ? `${unit} (${unitClass})` : unit;
+}
+
 export function formatCombatLog(records: CombatRecord[], recentTurns: number = 5): string {
   if (records.length === 0) {
     return 'No combat records available.';
@@ -842,7 +1297,7 @@ export function formatCombatLog(records: CombatRecord[], recentTurns: number = 5
     const turnRecords = byTurn.get(turn)!;
     for (const rec of turnRecords) {
       const outcome = rec.defenderDamage > rec.attackerDamage ? 'successful' : 'repelled';
-      lines.push(`- **${rec.attackerCiv}** ${rec.attackerUnit} vs **${rec.defenderCiv}** ${rec.defenderUnit}: ${rec.defenderDamage} damage dealt, ${rec.attackerDamage} taken (${outcome})`);
+      lines.push(`- **${rec.attackerCiv}** ${formatCombatUnit(rec.attackerUnit, rec.attackerClass)} vs **${rec.defenderCiv}** ${formatCombatUnit(rec.defenderUnit, rec.defenderClass)}: ${rec.defenderDamage} damage dealt, ${rec.attackerDamage} taken (${outcome})`);
     }
     lines.push('');
   }
@@ -861,7 +1316,38 @@ export function formatCombatLog(records: CombatRecord[], recentTurns: number = 5
   return lines.join('\n');
 }
 
-export function formatCityProduction(production: CityProduction[], filterCiv?: string): string {
+// Matched on the item type, so it works whatever language display names are in.
+// The highlight lists (strategic items, weapons) come from the rules data.
+function isProducing(prod: CityProduction, types: string[]): boolean {
+  return isRuleType(prod.currentItem, types);
+}
+
+function formatOwner(prod: CityProduction): string {
+  if (!prod.owner) return 'Unknown';
+  return prod.ownerSource === 'log' || prod.ownerSource === 'human' ? prod.owner : `${prod.owner}?`;
+}
+
+/**
+ * Production owned by a civilization, matched by display or raw name ("Rome", "ROME").
+ */
+export function filterProductionByCiv(production: CityProduction[], civilization: string): CityProduction[] {
+  const target = normalizeName(civilization);
+  return production.filter(p => p.owner !== null && normalizeName(p.owner) === target);
+}
+
+/**
+ * Transfers a civilization gained or lost a city in.
+ */
+export function filterTransfersByCiv(transfers: CityTransfer[], civilization: string): CityTransfer[] {
+  const target = normalizeName(civilization);
+  return transfers.filter(t => normalizeName(t.from) === target || normalizeName(t.to) === target);
+}
+
+export function formatCityProduction(
+  production: CityProduction[],
+  filterCiv?: string,
+  transfers: CityTransfer[] = []
+): string {
   if (production.length === 0) {
     return 'No production data available.';
   }
@@ -872,43 +1358,57 @@ export function formatCityProduction(production: CityProduction[], filterCiv?: s
   const latestTurn = Math.max(...production.map(p => p.turn));
   let latestProduction = production.filter(p => p.turn === latestTurn);
 
-  lines.push(`# City Production (Turn ${latestTurn})`);
+  if (filterCiv) {
+    latestProduction = filterProductionByCiv(latestProduction, filterCiv);
+    transfers = filterTransfersByCiv(transfers, filterCiv);
+  }
+
+  lines.push(`# City Production (Turn ${latestTurn})${filterCiv ? ` - ${filterCiv}` : ''}`);
   lines.push('');
 
-  // Key items to highlight
-  const keyItems = [
-    'Giant Death Robot', 'Manhattan Project', 'Moon Landing',
-    'Launch Earth Satellite', 'Launch Moon Landing', 'Exoplanet Expedition',
-    'Nuclear Device', 'Thermonuclear Device', 'Jet Fighter', 'Jet Bomber'
-  ];
+  if (latestProduction.length === 0) {
+    lines.push(`No cities owned by ${filterCiv} found in this turn's production.`);
+    return lines.join('\n');
+  }
 
   // Find strategic production
-  const strategicProduction = latestProduction.filter(p =>
-    keyItems.some(item => p.itemDisplayName.includes(item.replace(' ', '')))
-  );
+  const strategicProduction = latestProduction.filter(p => isProducing(p, getStrategicTypes()));
 
   if (strategicProduction.length > 0) {
     lines.push('## Strategic Production (Watch These!)');
     lines.push('');
     for (const prod of strategicProduction) {
       const progress = Math.round((prod.currentProgress / prod.productionNeeded) * 100);
-      lines.push(`- **${prod.cityDisplayName}**: ${prod.itemDisplayName} (${progress}%) - ${prod.turnsRemaining} turns`);
+      lines.push(`- **${prod.cityDisplayName}** (${formatOwner(prod)}): ${prod.itemDisplayName} (${progress}%) - ${prod.turnsRemaining} turns`);
     }
     lines.push('');
   }
 
-  // Group by city name pattern to infer civilization
-  // This is a heuristic - cities from same civ tend to have similar naming patterns
   lines.push('## All Production');
   lines.push('');
-  lines.push('| City | Building | Progress | Turns |');
-  lines.push('|------|----------|----------|-------|');
+  lines.push('| City | Owner | Building | Progress | Turns |');
+  lines.push('|------|-------|----------|----------|-------|');
 
   const sorted = [...latestProduction].sort((a, b) => a.turnsRemaining - b.turnsRemaining);
 
   for (const prod of sorted.slice(0, 30)) {  // Limit to 30 entries
     const progress = Math.round((prod.currentProgress / prod.productionNeeded) * 100);
-    lines.push(`| ${prod.cityDisplayName} | ${prod.itemDisplayName} | ${progress}% | ${prod.turnsRemaining} |`);
+    lines.push(`| ${prod.cityDisplayName} | ${formatOwner(prod)} | ${prod.itemDisplayName} | ${progress}% | ${prod.turnsRemaining} |`);
+  }
+
+  if (sorted.some(p => p.ownerSource === 'name-list' || p.ownerSource === 'last-seen')) {
+    lines.push('');
+    lines.push('*Owners marked ? are guesses: the civ whose default city names include the city, or the last AI owner the logs showed. The logs only attribute AI players\' cities; cities they never mention are yours, but ones you captured keep their last AI owner.*');
+  }
+
+  const recentTransfers = transfers.filter(t => t.turn >= latestTurn - 10);
+  if (recentTransfers.length > 0) {
+    lines.push('');
+    lines.push('## Recent City Transfers');
+    lines.push('');
+    for (const transfer of recentTransfers) {
+      lines.push(`- Turn ${transfer.turn}: **${transfer.cityDisplayName}** ${transfer.from} → ${transfer.to}`);
+    }
   }
 
   return lines.join('\n');
@@ -917,7 +1417,7 @@ export function formatCityProduction(production: CityProduction[], filterCiv?: s
 export function formatCityStatus(
   production: CityProduction[],
   foundingStats: CityFoundingStats[],
-  playerId: number = 0
+  playerId: number
 ): string {
   const lines: string[] = [];
 
@@ -934,27 +1434,12 @@ export function formatCityStatus(
     productionByCity.set(prod.city, prod);
   }
 
-  // Get all player cities from founding stats
-  const playerCities = playerFoundingStats.map(s => s.city);
-
-  // Also add any cities from production that might not be in founding stats
-  for (const prod of latestProduction) {
-    if (!playerCities.includes(prod.city)) {
-      // Try to determine if this is the player's city based on Australian city names
-      // This is a heuristic - in practice all player cities should appear in founding stats
-      const cityName = prod.city.toUpperCase();
-      if (cityName.includes('CANBERRA') || cityName.includes('SYDNEY') ||
-          cityName.includes('MELBOURNE') || cityName.includes('PERTH') ||
-          cityName.includes('ADELAIDE') || cityName.includes('BRISBANE') ||
-          cityName.includes('GEELONG') || cityName.includes('HOBART') ||
-          cityName.includes('DARWIN') || cityName.includes('TOOWOOMBA') ||
-          cityName.includes('BALLAARAT') || cityName.includes('NEWCASTLE')) {
-        playerCities.push(prod.city);
-      }
-    }
-  }
+  // Cities the player holds without founding data: the human's (AI_CityBuild.csv is AI-only) and captures
+  const foundedCities = new Set(playerFoundingStats.map(s => s.city));
+  const otherCities = latestProduction.filter(p => p.ownerId === playerId && !foundedCities.has(p.city))
+    .sort((a, b) => a.cityDisplayName.localeCompare(b.cityDisplayName));
 
-  if (playerFoundingStats.length === 0 && playerCities.length === 0) {
+  if (playerFoundingStats.length === 0 && otherCities.length === 0) {
     return 'No city data available. Enable game logging with GameHistoryLogLevel=1 in UserOptions.txt.';
   }
 
@@ -1003,10 +1488,23 @@ export function formatCityStatus(
     lines.push('');
   }
 
+  if (otherCities.length > 0) {
+    lines.push('## Other Cities');
+    lines.push('');
+    lines.push('*No founding data: the logs only record it for AI players\' cities.*');
+    lines.push('');
+    lines.push('| City | Building | Turns |');
+    lines.push('|------|----------|-------|');
+    for (const prod of otherCities) {
+      lines.push(`| ${prod.cityDisplayName} | ${prod.itemDisplayName} | ${prod.turnsRemaining} |`);
+    }
+    lines.push('');
+  }
+
   // Summary
   lines.push('## Summary');
   lines.push('');
-  lines.push(`- **Total cities**: ${playerFoundingStats.length}`);
+  lines.push(`- **Total cities**: ${playerFoundingStats.length + otherCities.length}`);
   lines.push(`- **Food-challenged cities**: ${foodChallenged.length}`);
   if (foodChallenged.length > 0) {
     const worstCity = foodChallenged[0];
@@ -1020,7 +1518,20 @@ export function formatCityStatus(
   return lines.join('\n');
 }
 
-export function formatTechStatus(progress: TechProgress[]): string {
+function formatMilestone(milestone: MilestoneForecast): string {
+  if (milestone.status === 'owned') return '✅';
+  if (milestone.turns === null) return '?';
+
+  const estimate = milestone.status === 'projected' ? '~' : '';
+  let cell = `${estimate}${milestone.turns} turns (T${milestone.projectedTurn})`;
+  if (milestone.gapToPlayer !== null && milestone.gapToPlayer !== 0) {
+    const gap = Math.abs(milestone.gapToPlayer);
+    cell += milestone.gapToPlayer < 0 ? `, ${gap} before you` : `, ${gap} after you`;
+  }
+  return cell;
+}
+
+export function formatTechStatus(progress: TechProgress[], forecasts: TechForecast[] = []): string {
   if (progress.length === 0) {
     return 'No tech data available.';
   }
@@ -1052,6 +1563,89 @@ export function formatTechStatus(progress: TechProgress[]): string {
     lines.push(`| ${civ} | ${count} |`);
   }
 
+  if (forecasts.length === 0) {
+    return lines.join('\n');
+  }
+
+  const civLabel = (forecast: TechForecast) => forecast.isPlayer ? `${forecast.civilization} (you)` : forecast.civilization;
+
+  lines.push('');
+  lines.push('## Current Research');
+  lines.push('');
+  lines.push('| Civilization | Researching | Turns Left | Techs/Turn |');
+  lines.push('|--------------|-------------|------------|------------|');
+  for (const forecast of forecasts) {
+    const turnsLeft = forecast.turnsRemaining !== null ? String(forecast.turnsRemaining) : '-';
+    const rate = forecast.techsPerTurn !== null ? forecast.techsPerTurn.toFixed(2) : '-';
+    lines.push(`| ${civLabel(forecast)} | ${forecast.researching ?? '-'} | ${turnsLeft} | ${rate} |`);
+  }
+
+  const milestoneNames = forecasts[0].milestones.map(m => m.tech);
+  lines.push('');
+  lines.push('## Milestone Tech Race');
+  lines.push('');
+  lines.push(`| Civilization | ${milestoneNames.join(' | ')} |`);
+  lines.push(`|--------------|${milestoneNames.map(() => '------').join('|')}|`);
+  for (const forecast of forecasts) {
+    lines.push(`| ${civLabel(forecast)} | ${forecast.milestones.map(formatMilestone).join(' | ')} |`);
+  }
+  lines.push('');
+  lines.push('*✅ = owned. ~ = projected from the civ\'s recent techs per turn, assuming it finishes the earlier eras\' techs first.*');
+
+  return lines.join('\n');
+}
+
+export function formatCivicStatus(progress: CivicProgress[], milestones: CivicMilestone[]): string {
+  if (progress.length === 0) {
+    return 'No civic data available.';
+  }
+
+  const lines: string[] = [];
+
+  const latestProgress = latestTurnRecords(progress);
+  const latestTurn = latestProgress[0].turn;
+
+  lines.push(`# Civic Status (Turn ${latestTurn})`);
+  lines.push('');
+
+  const civicCounts = new Map<string, number>();
+  const current = new Map<string, CivicProgress>();
+  for (const civic of latestProgress) {
+    if (civic.status === 'OWNED') {
+      civicCounts.set(civic.civilization, (civicCounts.get(civic.civilization) || 0) + 1);
+    } else if (civic.status === 'RESEARCHING') {
+      current.set(civic.civilization, civic);
+      if (!civicCounts.has(civic.civilization)) civicCounts.set(civic.civilization, 0);
+    }
+  }
+
+  lines.push('## Civic Progress by Civilization');
+  lines.push('');
+  lines.push('| Civilization | Civics Adopted | Current Civic | Turns Left |');
+  lines.push('|--------------|----------------|---------------|------------|');
+
+  const sorted = Array.from(civicCounts.entries()).sort((a, b) => b[1] - a[1]);
+  for (const [civ, count] of sorted) {
+    const researching = current.get(civ);
+    const name = researching ? `${researching.civic}${researching.keyCivic ? ' ⭐' : ''}` : '-';
+    const turnsLeft = researching ? String(researching.turnsRemaining) : '-';
+    lines.push(`| ${civ} | ${count} | ${name} | ${turnsLeft} |`);
+  }
+
+  if (milestones.length > 0) {
+    lines.push('');
+    lines.push('## Key Government Civics');
+    lines.push('');
+    for (const milestone of milestones) {
+      lines.push(`- **Turn ${milestone.turn}**: ${milestone.civilization} completed ${milestone.civic} (unlocks ${milestone.unlocks})`);
+    }
+  }
+
+  if ([...current.values()].some(c => c.keyCivic)) {
+    lines.push('');
+    lines.push('⭐ = working on a civic that unlocks a government (or Ideology)');
+  }
+
   return lines.join('\n');
 }
 
@@ -1144,9 +1738,9 @@ export function formatCulturalGreatPeople(events: GreatPersonEvent[]): string {
   lines.push('');
 
   // Separate by type
-  const artists = events.filter(e => e.gpClass.toLowerCase().includes('artist'));
-  const writers = events.filter(e => e.gpClass.toLowerCase().includes('writer'));
-  const musicians = events.filter(e => e.gpClass.toLowerCase().includes('musician'));
+  const artists = events.filter(e => isGreatPersonClass(e, 'ARTIST'));
+  const writers = events.filter(e => isGreatPersonClass(e, 'WRITER'));
+  const musicians = events.filter(e => isGreatPersonClass(e, 'MUSICIAN'));
 
   // Count by civilization (only claimed ones)
   const claimedByCiv = new Map<string, { artists: number; writers: number; musicians: number; works: number }>();
@@ -1157,9 +1751,9 @@ export function formatCulturalGreatPeople(events: GreatPersonEvent[]): string {
         claimedByCiv.set(gp.recipient, { artists: 0, writers: 0, musicians: 0, works: 0 });
       }
       const counts = claimedByCiv.get(gp.recipient)!;
-      if (gp.gpClass.toLowerCase().includes('artist')) counts.artists++;
-      else if (gp.gpClass.toLowerCase().includes('writer')) counts.writers++;
-      else if (gp.gpClass.toLowerCase().includes('musician')) counts.musicians++;
+      if (isGreatPersonClass(gp, 'ARTIST')) counts.artists++;
+      else if (isGreatPersonClass(gp, 'WRITER')) counts.writers++;
+      else if (isGreatPersonClass(gp, 'MUSICIAN')) counts.musicians++;
     } else if (gp.event === 'Great Person Activated' && gp.recipient) {
       // Activations = Great Works created
       const civ = events.find(e => e.event === 'Granted to Player' && e.individual === gp.individual)?.recipient;
@@ -1228,7 +1822,7 @@ export function formatCulturalGreatPeople(events: GreatPersonEvent[]): string {
   return lines.join('\n');
 }
 
-export function formatScoreBreakdown(scores: ScoreBreakdown[]): string {
+export function formatScoreBreakdown(scores: ScoreBreakdown[], playerId?: number): string {
   if (scores.length === 0) {
     return 'No score data available. Enable game logging (GameHistoryLogLevel=1 in UserOptions.txt).';
   }
@@ -1290,9 +1884,9 @@ export function formatScoreBreakdown(scores: ScoreBreakdown[]): string {
   lines.push('');
 
   // Show player's position and what they're strong/weak in
-  const player = majorCivs.find(s => s.playerId === 0);
+  const player = majorCivs.find(s => s.playerId === playerId);
   if (player) {
-    const rank = sorted.findIndex(s => s.playerId === 0) + 1;
+    const rank = sorted.findIndex(s => s.playerId === playerId) + 1;
     lines.push('## Your Position');
     lines.push('');
     lines.push(`**Rank**: ${rank} of ${sorted.length} (Score: ${player.totalScore})`);
@@ -1321,30 +1915,26 @@ export function formatScoreBreakdown(scores: ScoreBreakdown[]): string {
 
 // ============ Strategic Overview ============
 
-export function generateStrategicOverview(
+/**
+ * Work out threats, opportunities, conflicts and the victory race from the latest logs.
+ */
+export function analyzeStrategicSituation(
   civStats: CivStatistics[],
-  playerCiv?: string
-): string {
-  const lines: string[] = [];
-
+  playerCiv?: string,
+  logsDir: string = getLogsDirectory()
+): StrategicOverview {
   // Get all the data
-  const relations = parseDiplomacy();
-  const militaryIntel = parseMilitaryIntel();
-  const combatRecords = parseCombatLog();
-  const production = parseCityProduction();
+  const relations = getLatestRelations(parseDiplomacy(logsDir));
+  const militaryIntel = parseMilitaryIntel(logsDir);
+  const combatRecords = parseCombatLog(logsDir);
+  const production = parseCityProduction(logsDir);
 
   const latestTurn = civStats.length > 0 ? civStats[0].turn : 0;
 
-  lines.push(`# Strategic Overview (Turn ${latestTurn})`);
-  lines.push('');
-
-  // Find player civ from relations or use first major civ
-  const humanCiv = playerCiv || (civStats.find(s => !s.isCityState)?.civilization || 'Unknown');
+  // Callers resolve the player (see player-identity.ts); without one nothing is marked as ours
+  const humanCiv = playerCiv || 'Unknown';
 
   // ============ Immediate Threats ============
-  lines.push('## Immediate Threats');
-  lines.push('');
-
   const threats: StrategicThreat[] = [];
 
   // Check military threats
@@ -1372,24 +1962,21 @@ export function generateStrategicOverview(
     }
   }
 
-  // Check for dangerous production (GDRs, nukes)
-  const dangerousItems = ['Giant Death Robot', 'Nuclear Device', 'Thermonuclear Device'];
   const latestProd = production.filter(p =>
     p.turn === Math.max(...production.map(pr => pr.turn))
   );
 
-  const civDangerousProd = new Map<string, string[]>();
+  // Check rivals building weapons of mass destruction
   for (const prod of latestProd) {
-    for (const danger of dangerousItems) {
-      if (prod.itemDisplayName.toLowerCase().includes(danger.toLowerCase().replace(' ', ''))) {
-        // Infer civ from city name (heuristic)
-        const civGuess = prod.cityDisplayName;
-        if (!civDangerousProd.has(civGuess)) {
-          civDangerousProd.set(civGuess, []);
-        }
-        civDangerousProd.get(civGuess)!.push(prod.itemDisplayName);
-      }
-    }
+    if (!prod.owner || normalizeName(prod.owner) === normalizeName(humanCiv)) continue;
+    if (!isProducing(prod, getWeaponTypes())) continue;
+
+    threats.push({
+      civilization: prod.owner,
+      threatLevel: 'HIGH',
+      reason: `Building ${prod.itemDisplayName}`,
+      details: `${prod.cityDisplayName}: ${Math.round((prod.currentProgress / prod.productionNeeded) * 100)}%, ${prod.turnsRemaining} turns left`,
+    });
   }
 
   // Check diplomatic threats (deduplicated)
@@ -1414,22 +2001,11 @@ export function generateStrategicOverview(
     }
   }
 
-  if (threats.length === 0) {
-    lines.push('No immediate threats detected.');
-  } else {
-    for (const threat of threats.sort((a, b) =>
-      a.threatLevel === 'HIGH' ? -1 : b.threatLevel === 'HIGH' ? 1 : 0
-    )) {
-      lines.push(`${threat.threatLevel === 'HIGH' ? '1.' : '-'} **${threat.civilization}** - ${threat.reason}`);
-      lines.push(`   ${threat.details}`);
-    }
-  }
-  lines.push('');
+  threats.sort((a, b) =>
+    a.threatLevel === 'HIGH' ? -1 : b.threatLevel === 'HIGH' ? 1 : 0
+  );
 
   // ============ Diplomatic Opportunities ============
-  lines.push('## Diplomatic Opportunities');
-  lines.push('');
-
   const friendlyRelations = relations.filter(r =>
     r.fromCiv === humanCiv &&
     (r.state === 'ALLIED' || r.state === 'FRIENDLY' || r.state === 'DECLARED_FRIEND')
@@ -1444,40 +2020,139 @@ export function generateStrategicOverview(
     }
   }
 
-  const uniqueFriendly = Array.from(bestFriendlyByCiv.values());
-
-  if (uniqueFriendly.length === 0) {
-    lines.push('No strong allies or friends.');
-  } else {
-    for (const rel of uniqueFriendly.sort((a, b) => b.score - a.score)) {
-      const suggestion = rel.state === 'ALLIED'
+  const opportunities: StrategicOpportunity[] = Array.from(bestFriendlyByCiv.values())
+    .sort((a, b) => b.score - a.score)
+    .map(rel => ({
+      civilization: rel.toCiv,
+      type: rel.state,
+      score: rel.score,
+      suggestion: rel.state === 'ALLIED'
         ? 'Consider joint war or research agreement'
-        : 'Could be upgraded to alliance';
-      lines.push(`- **${rel.toCiv}**: ${rel.state} (+${rel.score}) - ${suggestion}`);
-    }
+        : 'Could be upgraded to alliance',
+    }));
+
+  // Blocs, dogpile risk and partners against the civ we like least
+  const coalitions = analyzeCoalitions(relations, parseDiplomacyModifiers(logsDir), { playerCiv });
+  const dogpileRisk = coalitions.dogpileRisks.find(r => r.civilization === humanCiv) ?? null;
+  for (const partner of coalitions.jointWarPartners.filter(p => p.likelihood === 'HIGH')) {
+    opportunities.push({
+      civilization: partner.civilization,
+      type: 'JOINT_WAR',
+      score: partner.scoreTowardYou ?? 0,
+      suggestion: `Likely partner against ${coalitions.target}: ${partner.reason}`,
+    });
   }
-  lines.push('');
 
   // ============ Active Conflicts ============
   const recentCombat = combatRecords.filter(r =>
     r.turn >= Math.max(...combatRecords.map(c => c.turn)) - 3
   );
 
-  if (recentCombat.length > 0) {
-    lines.push('## Active Conflicts');
-    lines.push('');
+  const conflictsByPair = new Map<string, ActiveConflict>();
+  for (const combat of recentCombat) {
+    const pair = [combat.attackerCiv, combat.defenderCiv].sort();
+    const key = pair.join(' vs ');
+    if (!conflictsByPair.has(key)) {
+      conflictsByPair.set(key, { civilizations: pair, battles: 0 });
+    }
+    conflictsByPair.get(key)!.battles++;
+  }
 
-    const conflicts = new Map<string, { attacker: string, defender: string, battles: number }>();
-    for (const combat of recentCombat) {
-      const key = [combat.attackerCiv, combat.defenderCiv].sort().join(' vs ');
-      if (!conflicts.has(key)) {
-        conflicts.set(key, { attacker: combat.attackerCiv, defender: combat.defenderCiv, battles: 0 });
-      }
-      conflicts.get(key)!.battles++;
+  // ============ Victory Race ============
+  const majorCivs = civStats.filter(s => !s.isCityState);
+
+  const raceEntry = (
+    victoryType: string,
+    value: (civ: CivStatistics) => number,
+    unit: string
+  ): VictoryRaceEntry => {
+    const ranked = [...majorCivs].sort((a, b) => value(b) - value(a));
+    const position = ranked.findIndex(c => c.civilization === humanCiv) + 1;
+    return {
+      victoryType,
+      leader: ranked[0]?.leader ?? null,
+      leaderValue: ranked[0] ? value(ranked[0]) : 0,
+      unit,
+      playerPosition: position > 0 ? position : null,
+    };
+  };
+
+  const victoryRace = [
+    raceEntry('Score', c => c.score, ''),
+    raceEntry('Science', c => c.techsResearched, ' techs'),
+    raceEntry('Culture', c => c.culturePerTurn, '/turn'),
+    raceEntry('Domination', c => c.landUnits + c.navalUnits, ' units'),
+  ];
+
+  // ============ Key Production to Watch ============
+  const keyProduction = latestProd.filter(p => isProducing(p, getStrategicTypes()));
+
+  return {
+    turn: latestTurn,
+    playerCiv: humanCiv,
+    threats,
+    opportunities,
+    blocs: coalitions.blocs,
+    dogpileRisk,
+    conflicts: Array.from(conflictsByPair.values()),
+    victoryRace,
+    keyProduction,
+  };
+}
+
+export function formatStrategicOverview(overview: StrategicOverview): string {
+  const lines: string[] = [];
+
+  lines.push(`# Strategic Overview (Turn ${overview.turn})`);
+  lines.push('');
+
+  // ============ Immediate Threats ============
+  lines.push('## Immediate Threats');
+  lines.push('');
+
+  if (overview.threats.length === 0) {
+    lines.push('No immediate threats detected.');
+  } else {
+    for (const threat of overview.threats) {
+      lines.push(`${threat.threatLevel === 'HIGH' ? '1.' : '-'} **${threat.civilization}** - ${threat.reason}`);
+      lines.push(`   ${threat.details}`);
     }
+  }
+  lines.push('');
+
+  // ============ Diplomatic Opportunities ============
+  lines.push('## Diplomatic Opportunities');
+  lines.push('');
+
+  if (overview.opportunities.length === 0) {
+    lines.push('No strong allies or friends.');
+  } else {
+    for (const opp of overview.opportunities) {
+      const score = `${opp.score >= 0 ? '+' : ''}${opp.score}`;
+      lines.push(`- **${opp.civilization}**: ${opp.type} (${score}) - ${opp.suggestion}`);
+    }
+  }
+
+  const you = (civ: string) => civ === overview.playerCiv ? 'you' : civ;
+  for (const bloc of overview.blocs) {
+    const ours = bloc.members.includes(overview.playerCiv);
+    const members = ours ? bloc.members.filter(m => m !== overview.playerCiv) : bloc.members;
+    const enemies = bloc.commonEnemies.length > 0 ? `, against ${bloc.commonEnemies.map(you).join(', ')}` : '';
+    lines.push(`- **${ours ? 'Your bloc' : 'Bloc'}**: ${members.join(', ')}${enemies}`);
+  }
+  if (overview.dogpileRisk && overview.dogpileRisk.hostileCivs.length > 0) {
+    const { risk, hostileCivs, coordinated } = overview.dogpileRisk;
+    const together = coordinated.length > 0 ? ` (${coordinated.join(', ')} are friends with each other)` : '';
+    lines.push(`- **Dogpile risk ${risk}**: hostile toward you: ${hostileCivs.join(', ')}${together}`);
+  }
+  lines.push('');
 
-    for (const [key, info] of conflicts) {
-      lines.push(`- ${key}: ${info.battles} recent battles`);
+  // ============ Active Conflicts ============
+  if (overview.conflicts.length > 0) {
+    lines.push('## Active Conflicts');
+    lines.push('');
+    for (const conflict of overview.conflicts) {
+      lines.push(`- ${conflict.civilizations.join(' vs ')}: ${conflict.battles} recent battles`);
     }
     lines.push('');
   }
@@ -1488,53 +2163,31 @@ export function generateStrategicOverview(
   lines.push('| Victory Type | Leader | Your Position |');
   lines.push('|--------------|--------|---------------|');
 
-  const majorCivs = civStats.filter(s => !s.isCityState);
-
-  // Score
-  const byScore = [...majorCivs].sort((a, b) => b.score - a.score);
-  const playerScorePos = byScore.findIndex(c => c.civilization === humanCiv) + 1;
-  lines.push(`| Score | ${byScore[0]?.leader} (${byScore[0]?.score}) | ${playerScorePos > 0 ? `#${playerScorePos}` : 'N/A'} |`);
-
-  // Science
-  const byTechs = [...majorCivs].sort((a, b) => b.techsResearched - a.techsResearched);
-  const playerTechPos = byTechs.findIndex(c => c.civilization === humanCiv) + 1;
-  lines.push(`| Science | ${byTechs[0]?.leader} (${byTechs[0]?.techsResearched} techs) | ${playerTechPos > 0 ? `#${playerTechPos}` : 'N/A'} |`);
-
-  // Culture
-  const byCulture = [...majorCivs].sort((a, b) => b.culturePerTurn - a.culturePerTurn);
-  const playerCulturePos = byCulture.findIndex(c => c.civilization === humanCiv) + 1;
-  lines.push(`| Culture | ${byCulture[0]?.leader} (${byCulture[0]?.culturePerTurn}/turn) | ${playerCulturePos > 0 ? `#${playerCulturePos}` : 'N/A'} |`);
-
-  // Military
-  const byMilitary = [...majorCivs].sort((a, b) =>
-    (b.landUnits + b.navalUnits) - (a.landUnits + a.navalUnits)
-  );
-  const playerMilPos = byMilitary.findIndex(c => c.civilization === humanCiv) + 1;
-  lines.push(`| Domination | ${byMilitary[0]?.leader} (${byMilitary[0]?.landUnits + byMilitary[0]?.navalUnits} units) | ${playerMilPos > 0 ? `#${playerMilPos}` : 'N/A'} |`);
+  for (const entry of overview.victoryRace) {
+    const position = entry.playerPosition !== null ? `#${entry.playerPosition}` : 'N/A';
+    lines.push(`| ${entry.victoryType} | ${entry.leader ?? 'N/A'} (${entry.leaderValue}${entry.unit}) | ${position} |`);
+  }
 
   lines.push('');
 
   // ============ Key Production to Watch ============
-  const strategicItems = [
-    'Giant Death Robot', 'Manhattan Project', 'Moon Landing',
-    'Exoplanet Expedition', 'Launch Earth Satellite'
-  ];
-
-  const strategicProd = latestProd.filter(p =>
-    strategicItems.some(item =>
-      p.itemDisplayName.toLowerCase().includes(item.toLowerCase().replace(/ /g, ''))
-    )
-  );
-
-  if (strategicProd.length > 0) {
+  if (overview.keyProduction.length > 0) {
     lines.push('## Key Production to Watch');
     lines.push('');
-    for (const prod of strategicProd) {
+    for (const prod of overview.keyProduction) {
       const progress = Math.round((prod.currentProgress / prod.productionNeeded) * 100);
-      lines.push(`- **${prod.cityDisplayName}**: ${prod.itemDisplayName} (${progress}%) - ${prod.turnsRemaining} turns`);
+      lines.push(`- **${prod.cityDisplayName}** (${formatOwner(prod)}): ${prod.itemDisplayName} (${progress}%) - ${prod.turnsRemaining} turns`);
     }
     lines.push('');
   }
 
   return lines.join('\n');
 }
+
+export function generateStrategicOverview(
+  civStats: CivStatistics[],
+  playerCiv?: string,
+  logsDir: string = getLogsDirectory()
+): string {
+  return formatStrategicOverview(analyzeStrategicSituation(civStats, playerCiv, logsDir));
+}
@@ -0,0 +1,6 @@
+/**
+ * Compare names ignoring case, accents, spaces and punctuation ("Bà Triệu" ~ "BA_TRIEU").
+ */
+export function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,256 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getConfigFilePath } from './config.js';
+import { parseSaveFile } from './parser.js';
+import { civDisplayName, defaultLeaderName, leaderDisplayName } from './reference.js';
+import { getSaveRoster, type SaveRoster, type SaveSlot } from './save-roster.js';
+import type { GameIdentity, GameNote, GameNotes, GameState } from './types.js';
+
+// Notes the player gives us about their game, kept on disk per campaign so they
+// survive restarts and don't leak from one game into the next.
+
+interface NotesStore {
+  version: 1;
+  games: GameNotes[];
+}
+
+// ============ Storage ============
+
+/**
+ * Notes are kept next to the config file (so `--config` / CIV6MCP_CONFIG move them too).
+ */
+export function getNotesFilePath(): string {
+  return join(dirname(getConfigFilePath()), 'notes.json');
+}
+
+function loadStore(): NotesStore {
+  const path = getNotesFilePath();
+  if (!existsSync(path)) {
+    return { version: 1, games: [] };
+  }
+
+  const raw = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!raw || !Array.isArray(raw.games)) {
+    throw new Error(`Notes file is not in the expected format: ${path}`);
+  }
+  return { version: 1, games: raw.games };
+}
+
+// Write to a temp file and rename, so a crash mid-write can't truncate existing notes
+function saveStore(store: NotesStore): void {
+  const path = getNotesFilePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(store, null, 2), 'utf-8');
+  renameSync(tempPath, path);
+}
+
+// ============ Game Identity ============
+
+interface SaveIdentity {
+  state: GameState;
+  identity: Omit<GameIdentity, 'id'>;
+}
+
+function slotLeader(slot: SaveSlot): string {
+  return slot.leader ? leaderDisplayName(slot.leader) : defaultLeaderName(slot.civilization);
+}
+
+// The game is keyed on the save header: the human slot, the other civs and the
+// city-states drawn for it, the map and the settings. A player override doesn't
+// change who the header says is human, so every tool finds the same game.
+// Saves without readable actor data fall back to the parsed state.
+function identifySave(savePath: string): SaveIdentity {
+  const state = parseSaveFile(savePath);
+  let roster: SaveRoster | null = null;
+  try {
+    roster = getSaveRoster(savePath);
+  } catch {
+    // Actor data unreadable
+  }
+
+  const human = roster?.slots.find(s => s.isHuman);
+  const players = roster && human
+    ? {
+        leader: slotLeader(human),
+        civilization: civDisplayName(human.civilization),
+        opponents: roster.slots.filter(s => s !== human).map(slotLeader).sort(),
+        cityStates: roster.cityStates.map(cs => civDisplayName(cs.civilization)).sort(),
+      }
+    : {
+        leader: state.leader,
+        civilization: state.civilization,
+        opponents: state.otherCivs.map(c => c.leader).sort(),
+        cityStates: [...state.cityStates, ...state.eliminatedCityStates].sort(),
+      };
+
+  return {
+    state,
+    identity: {
+      ...players,
+      map: `${state.mapType} (${state.mapSize})`,
+      settings: `${state.difficulty}, ${state.gameSpeed} speed`,
+      startDate: statSync(savePath).mtime.toISOString().slice(0, 10),
+    },
+  };
+}
+
+// Games stored before city-states and settings were recorded match on the rest
+function sameGame(game: GameIdentity, save: Omit<GameIdentity, 'id'>): boolean {
+  const stored: Partial<GameIdentity> = game;
+  return game.leader === save.leader &&
+    game.civilization === save.civilization &&
+    game.map === save.map &&
+    game.opponents.join('|') === save.opponents.join('|') &&
+    (stored.cityStates === undefined || stored.cityStates.join('|') === save.cityStates.join('|')) &&
+    (stored.settings === undefined || stored.settings === save.settings);
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Find the stored game a save belongs to, adding it to the store if it's new.
+// An older save of a known game moves its start date back.
+function resolveGame(store: NotesStore, save: Omit<GameIdentity, 'id'>): GameNotes {
+  const existing = store.games.find(g => sameGame(g.game, save));
+  if (existing) {
+    existing.game.cityStates ??= save.cityStates;
+    existing.game.settings ??= save.settings;
+    if (save.startDate < existing.game.startDate) {
+      existing.game.startDate = save.startDate;
+    }
+    return existing;
+  }
+
+  const baseId = slug(`${save.leader} ${save.map} ${save.startDate}`);
+  let id = baseId;
+  for (let n = 2; store.games.some(g => g.game.id === id); n++) {
+    id = `${baseId}-${n}`;
+  }
+
+  const entry: GameNotes = { game: { id, ...save }, notes: [] };
+  store.games.push(entry);
+  return entry;
+}
+
+function findNote(entry: GameNotes, noteId: number): GameNote {
+  const note = entry.notes.find(n => n.id === noteId);
+  if (!note) {
+    throw new Error(`No note #${noteId} for ${entry.game.leader} on ${entry.game.map} (game ${entry.game.id})`);
+  }
+  return note;
+}
+
+// ============ Notes ============
+
+/**
+ * Get the notes for the game a save belongs to. Doesn't write anything for a game with no notes yet.
+ */
+export function getGameNotes(savePath: string): GameNotes {
+  const { identity } = identifySave(savePath);
+  const store = loadStore();
+  return resolveGame(store, identity);
+}
+
+/**
+ * Every game with notes, most recently started first.
+ */
+export function listNotedGames(): GameNotes[] {
+  return loadStore().games
+    .filter(g => g.notes.length > 0)
+    .sort((a, b) => b.game.startDate.localeCompare(a.game.startDate));
+}
+
+/**
+ * Add a note to the game a save belongs to. The note is tagged with the save's turn unless `turn` is given.
+ */
+export function addGameNote(savePath: string, text: string, turn?: number): { game: GameIdentity; note: GameNote } {
+  const { state, identity } = identifySave(savePath);
+  const store = loadStore();
+  const entry = resolveGame(store, identity);
+
+  const note: GameNote = {
+    id: entry.notes.reduce((max, n) => Math.max(max, n.id), 0) + 1,
+    turn: turn ?? state.turn,
+    createdAt: new Date().toISOString(),
+    text,
+  };
+  entry.notes.push(note);
+  saveStore(store);
+  return { game: entry.game, note };
+}
+
+/**
+ * Replace the text (and optionally the turn) of an existing note.
+ */
+export function editGameNote(savePath: string, noteId: number, text: string, turn?: number): { game: GameIdentity; note: GameNote } {
+  const { identity } = identifySave(savePath);
+  const store = loadStore();
+  const entry = resolveGame(store, identity);
+
+  const note = findNote(entry, noteId);
+  note.text = text;
+  if (turn !== undefined) note.turn = turn;
+  note.updatedAt = new Date().toISOString();
+  saveStore(store);
+  return { game: entry.game, note };
+}
+
+/**
+ * Delete a note. Returns the removed note.
+ */
+export function deleteGameNote(savePath: string, noteId: number): { game: GameIdentity; note: GameNote } {
+  const { identity } = identifySave(savePath);
+  const store = loadStore();
+  const entry = resolveGame(store, identity);
+
+  const note = findNote(entry, noteId);
+  entry.notes = entry.notes.filter(n => n !== note);
+  saveStore(store);
+  return { game: entry.game, note };
+}
+
+// ============ Formatting ============
+
+function formatGameTitle(game: GameIdentity): string {
+  return `${game.leader} (${game.civilization}) on ${game.map}, first saved ${game.startDate}`;
+}
+
+function formatNoteLine(note: GameNote, withId: boolean): string {
+  const edited = note.updatedAt ? `, edited ${note.updatedAt.slice(0, 10)}` : '';
+  const id = withId ? `#${note.id} ` : '';
+  return `- ${id}**Turn ${note.turn}** (${note.createdAt.slice(0, 10)}${edited}): ${note.text}`;
+}
+
+/**
+ * Notes as they appear in the strategy brief's Player-Provided Context section, oldest turn first.
+ * Returns null when there are none.
+ */
+export function formatPlayerContext(entry: GameNotes): string | null {
+  if (entry.notes.length === 0) return null;
+  const notes = [...entry.notes].sort((a, b) => a.turn - b.turn || a.id - b.id);
+  return notes.map(n => formatNoteLine(n, false)).join('\n');
+}
+
+/**
+ * List notes with their IDs for editing.
+ */
+export function formatGameNotes(entries: GameNotes[]): string {
+  const lines: string[] = ['# Game Notes', ''];
+
+  for (const entry of entries) {
+    lines.push(`## ${formatGameTitle(entry.game)}`);
+    lines.push(`Game ID: \`${entry.game.id}\``);
+    lines.push('');
+    if (entry.notes.length === 0) {
+      lines.push('No notes yet. Use set_game_context to add one.');
+    } else {
+      const notes = [...entry.notes].sort((a, b) => a.turn - b.turn || a.id - b.id);
+      lines.push(...notes.map(n => formatNoteLine(n, true)));
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
@@ -0,0 +1,571 @@
+import { z } from 'zod';
+
+// Zod mirrors of the record types in types.ts. They describe each tool's
+// structuredContent and are converted to JSON Schema for the tool list.
+
+// ============ Record Schemas ============
+
+const SaveFileInfoSchema = z.object({
+  name: z.string(),
+  path: z.string(),
+  modified: z.string(),
+  size: z.number(),
+  leader: z.string().optional(),
+  turn: z.number().optional(),
+});
+
+const CivInfoSchema = z.object({
+  leader: z.string(),
+  civilization: z.string(),
+  type: z.enum(['full_civ', 'city_state', 'free_cities']),
+  playerId: z.number().optional().describe('Slot in the save, matching the player IDs in the logs'),
+  isHuman: z.boolean().optional(),
+  isAlive: z.boolean().optional(),
+  isCurrentTurn: z.boolean().optional(),
+});
+
+const ModInfoSchema = z.object({ id: z.string(), title: z.string() });
+
+const GameStateSchema = z.object({
+  leader: z.string(),
+  civilization: z.string(),
+  turn: z.number(),
+  era: z.string(),
+  difficulty: z.string(),
+  mapType: z.string(),
+  mapSize: z.string(),
+  gameSpeed: z.string(),
+  gameVersion: z.string(),
+  otherCivs: z.array(CivInfoSchema),
+  cityStates: z.array(z.string()),
+  eliminatedCityStates: z.array(z.string()),
+  mods: z.array(ModInfoSchema),
+});
+
+const CivStatisticsSchema = z.object({
+  civilization: z.string(),
+  leader: z.string(),
+  rawCivName: z.string(),
+  isCityState: z.boolean(),
+  turn: z.number(),
+  score: z.number(),
+  cities: z.number(),
+  population: z.number(),
+  sciencePerTurn: z.number(),
+  culturePerTurn: z.number(),
+  goldPerTurn: z.number(),
+  faithPerTurn: z.number(),
+  landUnits: z.number(),
+  navalUnits: z.number(),
+  goldBalance: z.number(),
+  faithBalance: z.number(),
+  techsResearched: z.number(),
+  civicsResearched: z.number(),
+  tilesOwned: z.number(),
+  tilesImproved: z.number(),
+});
+
+const VictoryProgressSchema = z.object({
+  civilization: z.string(),
+  leader: z.string(),
+  science: z.object({ position: z.number(), techsResearched: z.number(), sciencePerTurn: z.number() }),
+  culture: z.object({
+    position: z.number(),
+    domesticTourists: z.number(),
+    visitingTourists: z.number(),
+    culturePerTurn: z.number(),
+  }),
+  domination: z.object({ position: z.number(), militaryStrength: z.number(), capitalsControlled: z.number() }),
+  diplomatic: z.object({ position: z.number(), diplomaticVictoryPoints: z.number() }),
+  religion: z.object({ position: z.number(), citiesFollowingReligion: z.number() }),
+  score: z.object({ position: z.number(), totalScore: z.number() }),
+});
+
+const DiplomaticRelationSchema = z.object({
+  turn: z.number(),
+  fromCiv: z.string(),
+  toCiv: z.string(),
+  fromPlayerId: z.number(),
+  toPlayerId: z.number(),
+  state: z.string(),
+  score: z.number(),
+  threat: z.number(),
+  trust: z.number(),
+});
+
+const DiplomaticEventSchema = z.object({
+  turn: z.number(),
+  kind: z.enum(['met', 'war-declared', 'peace', 'alliance-formed', 'alliance-ended', 'friendship-declared', 'denounced', 'state-change']),
+  fromCiv: z.string(),
+  toCiv: z.string(),
+  fromPlayerId: z.number(),
+  toPlayerId: z.number(),
+  previousState: z.string().nullable(),
+  state: z.string(),
+});
+
+const DiplomaticTrajectorySchema = z.object({
+  fromCiv: z.string(),
+  toCiv: z.string(),
+  fromPlayerId: z.number(),
+  toPlayerId: z.number(),
+  points: z.array(z.object({
+    turn: z.number(),
+    state: z.string(),
+    score: z.number(),
+    threat: z.number(),
+    trust: z.number(),
+  })),
+});
+
+const DiplomaticModifierSchema = z.object({
+  turn: z.number(),
+  player: z.string(),
+  playerId: z.number(),
+  opponent: z.string(),
+  opponentId: z.number(),
+  modifier: z.string(),
+  action: z.string(),
+  value: z.number(),
+  maxValue: z.number(),
+  cooldownTurns: z.number(),
+});
+
+const MilitaryIntelligenceSchema = z.object({
+  turn: z.number(),
+  civilization: z.string(),
+  playerId: z.number(),
+  regionalStrength: z.number(),
+  enemyStrength: z.number(),
+  otherStrength: z.number(),
+  combatDesire: z.number(),
+  favoriteTech: z.string(),
+  currentExplorers: z.number(),
+  desiredExplorers: z.number(),
+});
+
+const CombatRecordSchema = z.object({
+  turn: z.number(),
+  attackerCiv: z.string(),
+  defenderCiv: z.string(),
+  attackerId: z.number(),
+  defenderId: z.number(),
+  attackerUnit: z.string(),
+  defenderUnit: z.string(),
+  attackerStrength: z.number(),
+  defenderStrength: z.number(),
+  attackerDamage: z.number(),
+  defenderDamage: z.number(),
+  attackerClass: z.string().nullable().describe('Unit class from the rules data, null for unknown units'),
+  attackerEra: z.string().nullable(),
+  defenderClass: z.string().nullable(),
+  defenderEra: z.string().nullable(),
+});
+
+const CityProductionSchema = z.object({
+  turn: z.number(),
+  city: z.string(),
+  cityDisplayName: z.string(),
+  currentItem: z.string(),
+  itemDisplayName: z.string(),
+  productionPerTurn: z.number(),
+  currentProgress: z.number(),
+  productionNeeded: z.number(),
+  turnsRemaining: z.number(),
+  overflow: z.number(),
+  ownerId: z.number().nullable(),
+  owner: z.string().nullable(),
+  ownerSource: z.enum(['log', 'last-seen', 'human', 'name-list']).nullable().describe('log = player ID in AI_CityBuild.csv (AI cities only), last-seen = its last AI_CityBuild.csv owner, from an earlier turn, human = never in AI_CityBuild.csv so the human player\'s, name-list = guessed from default city names'),
+  itemKind: z.enum(['unit', 'building', 'wonder', 'project']).nullable().describe('From the rules data, null for items it does not cover (e.g. districts)'),
+  itemClass: z.string().nullable(),
+  itemEra: z.string().nullable(),
+});
+
+const CityTransferSchema = z.object({
+  turn: z.number(),
+  city: z.string(),
+  cityDisplayName: z.string(),
+  fromPlayerId: z.number(),
+  from: z.string(),
+  toPlayerId: z.number(),
+  to: z.string(),
+});
+
+const CivChangesSchema = z.object({ playerId: z.number(), civilization: z.string(), items: z.array(z.string()) });
+
+const SaveLogChangesSchema = z.object({
+  fromTurn: z.number().describe('Exclusive start of the span the logs cover'),
+  toTurn: z.number().describe('Inclusive end of the span the logs cover'),
+  techsResearched: z.array(CivChangesSchema),
+  civicsCompleted: z.array(CivChangesSchema),
+  citiesFounded: z.array(CivChangesSchema),
+  citiesLost: z.array(CivChangesSchema).describe('No longer in the production log, usually razed'),
+  citiesCaptured: z.array(CityTransferSchema),
+  wondersCompleted: z.array(z.object({
+    turn: z.number(),
+    wonder: z.string(),
+    city: z.string(),
+    civilization: z.string().nullable(),
+  })),
+  civsMet: z.array(z.object({ turn: z.number(), civilizations: z.tuple([z.string(), z.string()]) })),
+});
+
+const SaveSnapshotSchema = z.object({ path: z.string(), turn: z.number(), era: z.string() });
+
+const SaveComparisonSchema = z.object({
+  before: SaveSnapshotSchema,
+  after: SaveSnapshotSchema,
+  turnsElapsed: z.number(),
+  sameGame: z.boolean().describe('Same player civ, map and set of civilizations'),
+  eraChanged: z.boolean(),
+  settingChanges: z.array(z.object({ setting: z.string(), from: z.string(), to: z.string() })),
+  civsEliminated: z.array(z.string()),
+  civsAdded: z.array(z.string()),
+  civsRemoved: z.array(z.string()),
+  cityStatesEliminated: z.array(z.string()),
+  cityStatesAdded: z.array(z.string()),
+  modsAdded: z.array(ModInfoSchema),
+  modsRemoved: z.array(ModInfoSchema),
+  logChanges: SaveLogChangesSchema.nullable().describe('From the logs for the turns between the saves, null when they do not cover them'),
+  logsNote: z.string().nullable().describe('Why the logs were not used, or that they only cover part of the span'),
+});
+
+const CityFoundingStatsSchema = z.object({
+  turn: z.number(),
+  playerId: z.number(),
+  city: z.string(),
+  cityDisplayName: z.string(),
+  foodAdvantage: z.number(),
+  productionAdvantage: z.number(),
+});
+
+const TechProgressSchema = z.object({
+  turn: z.number(),
+  civilization: z.string(),
+  playerId: z.number(),
+  tech: z.string(),
+  status: z.string(),
+  turnsRemaining: z.number(),
+});
+
+const TechForecastSchema = z.object({
+  civilization: z.string(),
+  playerId: z.number(),
+  isPlayer: z.boolean(),
+  techsOwned: z.number(),
+  researching: z.string().nullable(),
+  turnsRemaining: z.number().nullable(),
+  techsPerTurn: z.number().nullable().describe('Over the recent trend window'),
+  milestones: z.array(z.object({
+    tech: z.string(),
+    status: z.enum(['owned', 'researching', 'projected', 'unknown']),
+    turns: z.number().nullable().describe('Turns until the tech is reached; 0 once owned'),
+    projectedTurn: z.number().nullable(),
+    gapToPlayer: z.number().nullable().describe('Turns after the human player (negative: sooner)'),
+  })),
+});
+
+const CivicProgressSchema = z.object({
+  turn: z.number(),
+  civilization: z.string(),
+  playerId: z.number(),
+  civic: z.string(),
+  status: z.string(),
+  turnsRemaining: z.number(),
+  keyCivic: z.boolean().describe('Unlocks a government, or Ideology'),
+});
+
+const CivicMilestoneSchema = z.object({
+  turn: z.number(),
+  civilization: z.string(),
+  playerId: z.number(),
+  civic: z.string(),
+  unlocks: z.string(),
+});
+
+const CongressVoteSchema = z.object({
+  turn: z.number(),
+  resolution: z.string(),
+  playerId: z.number(),
+  player: z.string(),
+  votes: z.number(),
+  targetOption: z.number(),
+});
+
+const CongressResultSchema = z.object({
+  turn: z.number(),
+  resolution: z.string(),
+  winningOption: z.number(),
+  voteCount: z.number(),
+});
+
+const GreatPersonEventSchema = z.object({
+  turn: z.number(),
+  event: z.string(),
+  individual: z.string(),
+  displayName: z.string(),
+  gpClass: z.string(),
+  classType: z.string(),
+  era: z.string(),
+  cost: z.number(),
+  recipientId: z.number(),
+  recipient: z.string().nullable(),
+});
+
+const ScoreBreakdownSchema = z.object({
+  turn: z.number(),
+  playerId: z.number(),
+  civilization: z.string(),
+  totalScore: z.number(),
+  civics: z.number(),
+  empire: z.number(),
+  greatPeople: z.number(),
+  religion: z.number(),
+  tech: z.number(),
+  wonders: z.number(),
+  trade: z.number(),
+  pillage: z.number(),
+  income: z.number(),
+});
+
+const DiplomaticBlocSchema = z.object({
+  members: z.array(z.string()),
+  cohesion: z.number().describe('Average score between members'),
+  commonEnemies: z.array(z.string()),
+});
+
+const DogpileRiskSchema = z.object({
+  civilization: z.string(),
+  risk: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+  hostileCivs: z.array(z.string()),
+  coordinated: z.array(z.string()).describe('Hostile civs that are friends with another hostile civ'),
+});
+
+const CoalitionAnalysisSchema = z.object({
+  turn: z.number(),
+  blocs: z.array(DiplomaticBlocSchema),
+  mutualEnemies: z.array(z.object({ enemy: z.string(), opposedBy: z.array(z.string()) })),
+  dogpileRisks: z.array(DogpileRiskSchema),
+  target: z.string().nullable(),
+  jointWarPartners: z.array(z.object({
+    civilization: z.string(),
+    likelihood: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    scoreTowardTarget: z.number().nullable(),
+    scoreTowardYou: z.number().nullable(),
+    reason: z.string(),
+  })),
+});
+
+const StrategicOverviewSchema = z.object({
+  turn: z.number(),
+  playerCiv: z.string(),
+  threats: z.array(z.object({
+    civilization: z.string(),
+    threatLevel: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+    reason: z.string(),
+    details: z.string(),
+  })),
+  opportunities: z.array(z.object({
+    civilization: z.string(),
+    type: z.string(),
+    score: z.number(),
+    suggestion: z.string(),
+  })),
+  blocs: z.array(DiplomaticBlocSchema),
+  dogpileRisk: DogpileRiskSchema.nullable().describe('For the player'),
+  conflicts: z.array(z.object({
+    civilizations: z.array(z.string()),
+    battles: z.number(),
+  })),
+  victoryRace: z.array(z.object({
+    victoryType: z.string(),
+    leader: z.string().nullable(),
+    leaderValue: z.number(),
+    unit: z.string(),
+    playerPosition: z.number().nullable(),
+  })),
+  keyProduction: z.array(CityProductionSchema),
+});
+
+const GameIdentitySchema = z.object({
+  id: z.string(),
+  leader: z.string(),
+  civilization: z.string(),
+  map: z.string(),
+  settings: z.string(),
+  startDate: z.string(),
+  opponents: z.array(z.string()),
+  cityStates: z.array(z.string()),
+});
+
+const GameNoteSchema = z.object({
+  id: z.number(),
+  turn: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  text: z.string(),
+});
+
+const GameNotesSchema = z.object({ game: GameIdentitySchema, notes: z.array(GameNoteSchema) });
+
+const PlayerIdentitySchema = z.object({
+  playerId: z.number(),
+  rawCivName: z.string(),
+  civilization: z.string(),
+  leader: z.string(),
+  source: z.enum(['override', 'save', 'logs']),
+  savePath: z.string().optional(),
+  warnings: z.array(z.string()),
+});
+
+const TrendSchema = z.object({ start: z.number(), end: z.number(), change: z.number(), percentChange: z.number() });
+const CountTrendSchema = z.object({ start: z.number(), end: z.number(), change: z.number() });
+
+const CivTrendSchema = z.object({
+  civilization: z.string(),
+  leader: z.string(),
+  turnsAnalyzed: z.number(),
+  startTurn: z.number(),
+  endTurn: z.number(),
+  score: TrendSchema,
+  science: TrendSchema,
+  culture: TrendSchema,
+  gold: TrendSchema,
+  military: TrendSchema,
+  cities: CountTrendSchema,
+  territory: TrendSchema,
+  techs: CountTrendSchema,
+});
+
+const RosterEntrySchema = z.object({
+  civilization: z.string(),
+  leader: z.string(),
+  isCityState: z.boolean(),
+});
+
+const SaveTurnSchema = z.object({
+  turn: z.number(),
+  era: z.string(),
+  savePath: z.string(),
+  majorCivsAlive: z.number(),
+  cityStatesAlive: z.number(),
+  roster: z.array(RosterEntrySchema).describe('Major civs and city-states alive'),
+});
+
+const RosterTrendSchema = z.object({
+  startTurn: z.number(),
+  endTurn: z.number(),
+  savesAnalyzed: z.number(),
+  eras: z.array(z.object({ turn: z.number(), era: z.string() })),
+  aliveByTurn: z.array(z.object({ turn: z.number(), majorCivs: z.number(), cityStates: z.number() })),
+  eliminated: z.array(RosterEntrySchema.extend({ lastSeenTurn: z.number() })),
+  alive: z.array(RosterEntrySchema),
+});
+
+// ============ Tool Output Schemas ============
+
+// Present when the tool found no data, explaining why
+const message = z.string().optional().describe('Why no data was returned, if applicable');
+const turn = z.number().nullable().describe('Turn the records are from');
+const historySource = z.enum(['logs', 'autosaves']).optional()
+  .describe('Where the history came from: autosaves are only read when there are no logs, and hold just the era and alive roster');
+
+export const TOOL_OUTPUT_SCHEMAS = {
+  list_saves: z.object({ savesDir: z.string(), saves: z.array(SaveFileInfoSchema), message }),
+  read_game_state: GameStateSchema,
+  compare_saves: SaveComparisonSchema,
+  get_strategy_brief: z.object({ state: GameStateSchema, brief: z.string(), playerContext: z.string().nullable() }),
+  set_game_context: z.object({ saved: z.boolean(), context: z.string(), game: GameIdentitySchema, note: GameNoteSchema }),
+  get_game_context: z.object({
+    game: GameIdentitySchema,
+    context: z.string().nullable(),
+    notes: z.array(GameNoteSchema),
+    message,
+  }),
+  list_game_notes: z.object({ games: z.array(GameNotesSchema), message }),
+  edit_game_note: z.object({ game: GameIdentitySchema, note: GameNoteSchema }),
+  delete_game_note: z.object({ game: GameIdentitySchema, note: GameNoteSchema }),
+  get_civ_statistics: z.object({
+    turn,
+    civilizations: z.array(CivStatisticsSchema),
+    source: historySource,
+    autosave: SaveTurnSchema.optional().describe('The autosave for that turn, when there are no logs'),
+    message,
+  }),
+  get_victory_progress: z.object({ turn, progress: z.array(VictoryProgressSchema), message }),
+  get_yield_comparison: z.object({ turn, civilizations: z.array(CivStatisticsSchema), message }),
+  get_diplomatic_status: z.object({ relations: z.array(DiplomaticRelationSchema), message }),
+  get_diplomatic_history: z.object({
+    events: z.array(DiplomaticEventSchema),
+    trajectories: z.array(DiplomaticTrajectorySchema).describe('Both directions of the requested pair, if one was given'),
+    message,
+  }),
+  get_diplomacy_graph: z.object({
+    turn,
+    syntax: z.enum(['mermaid', 'dot']),
+    graph: z.string().describe('Graph source in the requested syntax'),
+    relations: z.array(DiplomaticRelationSchema),
+    message,
+  }),
+  get_coalitions: z.object({
+    analysis: CoalitionAnalysisSchema.nullable(),
+    player: PlayerIdentitySchema.nullable().optional().describe('The human player, and how it was identified'),
+    message,
+  }),
+  get_diplomatic_modifiers: z.object({ turn, modifiers: z.array(DiplomaticModifierSchema), message }),
+  get_military_intelligence: z.object({ turn, intel: z.array(MilitaryIntelligenceSchema), message }),
+  get_combat_log: z.object({ turn, records: z.array(CombatRecordSchema), message }),
+  get_city_production: z.object({ turn, production: z.array(CityProductionSchema), transfers: z.array(CityTransferSchema), message }),
+  get_city_status: z.object({
+    turn,
+    playerId: z.number().nullable(),
+    player: PlayerIdentitySchema.nullable().describe('The human player, and how it was identified'),
+    cities: z.array(CityFoundingStatsSchema),
+    production: z.array(CityProductionSchema),
+    message,
+  }),
+  get_tech_status: z.object({
+    turn,
+    player: PlayerIdentitySchema.nullable().optional().describe('The human player, and how it was identified'),
+    progress: z.array(TechProgressSchema),
+    forecasts: z.array(TechForecastSchema).optional().describe('Current research and milestone tech projections per civ'),
+    message,
+  }),
+  get_civic_status: z.object({
+    turn,
+    progress: z.array(CivicProgressSchema),
+    milestones: z.array(CivicMilestoneSchema).describe('First turn each civ owned each key government civic'),
+    message,
+  }),
+  get_world_congress: z.object({ votes: z.array(CongressVoteSchema), results: z.array(CongressResultSchema), message }),
+  get_great_people: z.object({ events: z.array(GreatPersonEventSchema), message }),
+  get_great_people_culture: z.object({ events: z.array(GreatPersonEventSchema), message }),
+  get_score_breakdown: z.object({
+    turn,
+    player: PlayerIdentitySchema.nullable().optional().describe('The human player, and how it was identified'),
+    scores: z.array(ScoreBreakdownSchema),
+    message,
+  }),
+  get_strategic_overview: z.object({
+    overview: StrategicOverviewSchema.nullable(),
+    player: PlayerIdentitySchema.nullable().optional().describe('The human player, and how it was identified'),
+    message,
+  }),
+  get_trend_analysis: z.object({
+    trends: z.array(CivTrendSchema),
+    source: historySource,
+    rosterTrend: RosterTrendSchema.optional().describe('Era changes and eliminations, from the autosaves'),
+    message,
+  }),
+};
+
+export type ToolName = keyof typeof TOOL_OUTPUT_SCHEMAS;
+
+/**
+ * JSON Schema for a tool's structuredContent, as advertised in tools/list.
+ */
+export function getOutputSchema(tool: ToolName): { type: 'object'; [key: string]: unknown } {
+  // Input mode leaves out additionalProperties: false, so adding a field later doesn't break clients
+  const { $schema, ...schema } = z.toJSONSchema(TOOL_OUTPUT_SCHEMAS[tool], { io: 'input' });
+  return { ...schema, type: 'object' };
+}
@@ -6,13 +6,25 @@ import {
   getLatestTurnStatsFullCivsOnly,
   calculateVictoryProgress,
 } from './history-parser.js';
+import { buildPlayerIdMap, parseCityFoundingStats } from './logs-parser.js';
 import { getSavesDirectory } from './paths.js';
+import { getPlayerOverride } from './config.js';
+import { normalizeName } from './names.js';
+import { localize, localizeType } from './localization.js';
+import { readSaveRoster, type SaveMod, type SaveRoster, type SaveSlot } from './save-roster.js';
+import {
+  civDisplayName,
+  cityStateLabel,
+  defaultLeaderName,
+  formatUnknownNames,
+  isCityState,
+  leaderDisplayName,
+  lookupLeader,
+} from './reference.js';
 
 // Re-export for backwards compatibility
 export { getSavesDirectory } from './paths.js';
 
-const SAVE_PATH = getSavesDirectory();
-
 // Binary markers from the save file format
 const COMPRESSED_DATA_END = Buffer.from([0, 0, 0xFF, 0xFF]);
 const ZLIB_HEADER = Buffer.from([0x78, 0x9C]);
@@ -25,7 +37,10 @@ const MARKERS = {
   MAP_FILE: Buffer.from([0x5A, 0x87, 0xD8, 0x63]),
 };
 
-export function listSaveFiles(filter: 'all' | 'autosave' | 'manual' | 'quicksave' = 'all'): SaveFileInfo[] {
+export function listSaveFiles(
+  filter: 'all' | 'autosave' | 'manual' | 'quicksave' = 'all',
+  savesDir: string = getSavesDirectory()
+): SaveFileInfo[] {
   const saves: SaveFileInfo[] = [];
 
   const scanDir = (dir: string, depth = 0) => {
@@ -57,7 +72,9 @@ export function listSaveFiles(filter: 'all' | 'autosave' | 'manual' | 'quicksave
 
           const leaderMatch = entry.name.match(/^([A-Z][A-Z_]+)/);
           if (leaderMatch) {
-            info.leader = formatLeaderName(leaderMatch[1]);
+            // Manual saves are often named after the leader; other names are left alone
+            const leader = lookupLeader(leaderMatch[1]);
+            if (leader) info.leader = leader.name;
           }
 
           saves.push(info);
@@ -69,7 +86,7 @@ export function listSaveFiles(filter: 'all' | 'autosave' | 'manual' | 'quicksave
   };
 
   // Scan based on filter
-  const singlePath = join(SAVE_PATH, 'Single');
+  const singlePath = join(savesDir, 'Single');
   if (filter === 'all' || filter === 'manual') {
     scanDir(singlePath);
   }
@@ -146,12 +163,11 @@ function decompressGameData(buffer: Buffer): Buffer | null {
   }
 }
 
-function extractCivsFromHeader(headerText: string): { player: CivInfo | null; aiCivs: CivInfo[]; cityStates: string[] } {
+function extractCivsFromHeader(headerText: string): { civs: CivInfo[]; cityStates: string[] } {
   const allCivs: CivInfo[] = [];
   const cityStates: string[] = [];
 
   // Strategy: Look for CIVILIZATION_LEVEL_FULL_CIV markers and find the nearest CIVILIZATION_ before them
-  // After the marker, look for "Player" to identify the human player
 
   // Find positions of all CIVILIZATION_LEVEL_FULL_CIV markers
   const levelMarker = 'CIVILIZATION_LEVEL_FULL_CIV';
@@ -184,15 +200,10 @@ function extractCivsFromHeader(headerText: string): { player: CivInfo | null; ai
         if (seenCivs.has(civ)) break;
         seenCivs.add(civ);
 
-        // Check if "Player" appears shortly after CIVILIZATION_LEVEL_FULL_CIV
-        const afterMarker = headerText.substring(pos, pos + 100);
-        const isHuman = afterMarker.includes('Player');
-
         allCivs.push({
-          leader: getLeaderForCiv(civ),
-          civilization: formatEnumValue(civ),
+          leader: defaultLeaderName(civ),
+          civilization: civDisplayName(civ),
           type: 'full_civ',
-          isHuman,
         });
         break;
       }
@@ -225,103 +236,67 @@ function extractCivsFromHeader(headerText: string): { player: CivInfo | null; ai
         cs = cs.replace(/_NAME$/, '');
         if (!seenCityStates.has(cs)) {
           seenCityStates.add(cs);
-          cityStates.push(formatEnumValue(cs));
+          cityStates.push(cityStateLabel(cs));
         }
         break;
       }
     }
   }
 
-  // All civs have same pattern after marker, so we need another way to identify the player
-  // For now, return all civs - player identification will happen later based on city names or other data
+  // The header text doesn't say which civ is human; parseSaveFile takes that from the save's actor data
   return {
-    player: allCivs.length > 0 ? allCivs[0] : null,  // Will be replaced by proper detection
-    aiCivs: allCivs.slice(1),
+    civs: allCivs,
     cityStates: cityStates.slice(0, 15)
   };
 }
 
-function getLeaderForCiv(civ: string): string {
-  const civToLeader: Record<string, string> = {
-    'VIETNAM': 'Bà Triệu',
-    'GEORGIA': 'Tamar',
-    'PERSIA': 'Cyrus',
-    'CANADA': 'Wilfrid Laurier',
-    'NETHERLANDS': 'Wilhelmina',
-    'OTTOMAN': 'Suleiman',
-    'ROME': 'Trajan',
-    'EGYPT': 'Cleopatra',
-    'MACEDON': 'Alexander',
-    'SUMERIA': 'Gilgamesh',
-    'INDIA': 'Gandhi',
-    'CHINA': 'Qin Shi Huang',
-    'RUSSIA': 'Peter the Great',
-    'ENGLAND': 'Victoria',
-    'AZTEC': 'Montezuma',
-    'GERMANY': 'Barbarossa',
-    'GREECE': 'Pericles',
-    'JAPAN': 'Hojo',
-    'KONGO': 'Mvemba a Nzinga',
-    'BRAZIL': 'Pedro II',
-    'NORWAY': 'Harald Hardrada',
-    'SCYTHIA': 'Tomyris',
-    'SPAIN': 'Philip II',
-    'POLAND': 'Jadwiga',
-    'ARABIA': 'Saladin',
-    'INDONESIA': 'Gitarja',
-    'KHMER': 'Jayavarman VII',
-    'AUSTRALIA': 'John Curtin',
-    'ZULU': 'Shaka',
-    'MONGOLIA': 'Genghis Khan',
-    'SCOTLAND': 'Robert the Bruce',
-    'GAUL': 'Ambiorix',
-    'NUBIA': 'Amanitore',
-  };
-  return civToLeader[civ] || formatEnumValue(civ);
+function extractModsFromHeader(headerText: string): ModInfo[] {
+  const mods: ModInfo[] = [];
+  const modMatches = headerText.matchAll(/([0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12})\s*\{"LOC_([A-Z_]+)_MOD_TITLE"/gi);
+  for (const match of modMatches) {
+    const modId = match[1];
+    const modName = formatEnumValue(match[2].replace(/_MOD_TITLE$/, ''));
+    if (!mods.find(m => m.id === modId)) {
+      mods.push({ id: modId, title: modName });
+    }
+  }
+  return mods;
 }
 
-function getCivForLeader(leader: string): string {
-  const leaderToCiv: Record<string, string> = {
-    'LADY_TRIEU': 'Vietnam',
-    'TAMAR': 'Georgia',
-    'CYRUS': 'Persia',
-    'LAURIER': 'Canada',
-    'WILHELMINA': 'Netherlands',
-    'SULEIMAN': 'Ottoman',
-    'SULEIMAN_ALT': 'Ottoman',
-    'TRAJAN': 'Rome',
-    'CLEOPATRA': 'Egypt',
-    'ALEXANDER': 'Macedon',
-    'GILGAMESH': 'Sumeria',
-    'GANDHI': 'India',
-    'QIN': 'China',
-    'PETER_GREAT': 'Russia',
-    'VICTORIA': 'England',
-    'MONTEZUMA': 'Aztec',
-    'BARBAROSSA': 'Germany',
-    'GORGO': 'Greece',
-    'PERICLES': 'Greece',
-    'HOJO': 'Japan',
-    'MVEMBA': 'Kongo',
-    'PEDRO': 'Brazil',
-    'HARDRADA': 'Norway',
-    'TOMYRIS': 'Scythia',
-    'PHILIP_II': 'Spain',
-    'JADWIGA': 'Poland',
-    'SALADIN': 'Arabia',
-    'GITARJA': 'Indonesia',
-    'JAYAVARMAN': 'Khmer',
-    'JOHN_CURTIN': 'Australia',
-    'SHAKA': 'Zulu',
-    'GENGHIS_KHAN': 'Mongolia',
-    'ROBERT_THE_BRUCE': 'Scotland',
-    'CHANDRAGUPTA': 'India',
-    'AMBIORIX': 'Gaul',
-  };
-  return leaderToCiv[leader] || formatEnumValue(leader.replace(/_ALT$/, ''));
+function readHeaderSection(buffer: Buffer): string {
+  return buffer.subarray(0, Math.min(buffer.length, 150000)).toString('utf8');
+}
+
+// Turn from the binary marker, else the autosave's file name
+function readTurn(buffer: Buffer, filePath: string): number {
+  const turnData = readMarkerValue(buffer, MARKERS.GAME_TURN);
+  if (turnData && typeof turnData.data === 'number' && turnData.data) {
+    return turnData.data;
+  }
+  const autoMatch = basename(filePath).match(/AutoSave_(\d+)/);
+  return autoMatch ? parseInt(autoMatch[1], 10) : 0;
+}
+
+function readEra(headerSection: string): string {
+  const eraMatch = headerSection.match(/"LOC_ERA_([A-Z]+)_NAME"/);
+  return eraMatch ? localizeType(`ERA_${eraMatch[1]}`) ?? formatEnumValue(eraMatch[1]) : 'Unknown';
+}
+
+/**
+ * Read just the turn and era from a save's contents, without decompressing its game data.
+ */
+export function readSaveProgress(buffer: Buffer, filePath: string): { turn: number; era: string } {
+  if (buffer.subarray(0, 4).toString('ascii') !== 'CIV6') {
+    throw new Error(`Invalid Civ6 save file: ${filePath}`);
+  }
+  return { turn: readTurn(buffer, filePath), era: readEra(readHeaderSection(buffer)) };
 }
 
-export function parseSaveFile(filePath: string): GameState {
+/**
+ * Parse a save file. The human player comes from the save's actor data
+ * (ACTOR_AI_HUMAN) unless `player` names a civ or leader to use instead.
+ */
+export function parseSaveFile(filePath: string, player: string | undefined = getPlayerOverride()): GameState {
   const buffer = readFileSync(filePath);
 
   // Verify magic bytes
@@ -331,54 +306,37 @@ export function parseSaveFile(filePath: string): GameState {
   }
 
   // Read header section
-  const headerSection = buffer.subarray(0, Math.min(buffer.length, 150000)).toString('utf8');
-
-  // Extract turn from binary marker
-  let turn = 0;
-  const turnData = readMarkerValue(buffer, MARKERS.GAME_TURN);
-  if (turnData && typeof turnData.data === 'number') {
-    turn = turnData.data;
-  }
-  // Fallback: try filename
-  if (!turn) {
-    const filename = basename(filePath);
-    const autoMatch = filename.match(/AutoSave_(\d+)/);
-    if (autoMatch) turn = parseInt(autoMatch[1], 10);
-  }
+  const headerSection = readHeaderSection(buffer);
+  const turn = readTurn(buffer, filePath);
 
   // Extract game speed
   let gameSpeed = 'Standard';
   const speedData = readMarkerValue(buffer, MARKERS.GAME_SPEED);
   if (speedData && typeof speedData.data === 'string') {
-    gameSpeed = formatEnumValue(speedData.data.replace('GAMESPEED_', ''));
+    gameSpeed = localizeType(speedData.data) ?? formatEnumValue(speedData.data.replace('GAMESPEED_', ''));
   }
 
   // Extract map size
   let mapSize = 'Unknown';
   const sizeData = readMarkerValue(buffer, MARKERS.MAP_SIZE);
   if (sizeData && typeof sizeData.data === 'string') {
-    mapSize = formatEnumValue(sizeData.data.replace('MAPSIZE_', ''));
+    mapSize = localizeType(sizeData.data) ?? formatEnumValue(sizeData.data.replace('MAPSIZE_', ''));
   }
 
   // Extract map type
   let mapType = 'Unknown';
   const mapMatch = headerSection.match(/"LOC_MAP_([A-Z_]+)":\[/);
   if (mapMatch) {
-    mapType = formatEnumValue(mapMatch[1]);
+    mapType = localize(`LOC_MAP_${mapMatch[1]}`) ?? formatEnumValue(mapMatch[1].replace(/_NAME$/, ''));
   }
 
-  // Extract era
-  let era = 'Unknown';
-  const eraMatch = headerSection.match(/"LOC_ERA_([A-Z]+)_NAME"/);
-  if (eraMatch) {
-    era = formatEnumValue(eraMatch[1]);
-  }
+  const era = readEra(headerSection);
 
   // Extract difficulty
   let difficulty = 'Unknown';
   const diffMatch = headerSection.match(/DIFFICULTY_([A-Z]+)(?![A-Z_])/);
   if (diffMatch) {
-    difficulty = formatEnumValue(diffMatch[1]);
+    difficulty = localizeType(`DIFFICULTY_${diffMatch[1]}`) ?? formatEnumValue(diffMatch[1]);
   }
 
   // Extract game version
@@ -388,62 +346,40 @@ export function parseSaveFile(filePath: string): GameState {
     gameVersion = `${versionMatch[1]} (${versionMatch[2]})`;
   }
 
-  // Extract all civs from header
-  const { player: headerPlayer, aiCivs: headerAiCivs, cityStates: headerCityStates } = extractCivsFromHeader(headerSection);
-  let allCivs = headerPlayer ? [headerPlayer, ...headerAiCivs] : [...headerAiCivs];
-
-  // Extract mods
-  const mods: ModInfo[] = [];
-  const modMatches = headerSection.matchAll(/([0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12})\s*\{"LOC_([A-Z_]+)_MOD_TITLE"/gi);
-  for (const match of modMatches) {
-    const modId = match[1];
-    const modName = formatEnumValue(match[2].replace(/_MOD_TITLE$/, ''));
-    if (!mods.find(m => m.id === modId)) {
-      mods.push({ id: modId, title: modName });
-    }
-  }
-
-  // Try to get additional data from decompressed section
-  let decompressedInfo: DecompressedInfo | null = null;
+  // Players and mods come from the save's actor data and MOD_BLOCK sections;
+  // the header scan is the fallback when those can't be read
+  let roster: SaveRoster | null = null;
   try {
-    const decompressed = decompressGameData(buffer);
-    if (decompressed) {
-      decompressedInfo = analyzeDecompressedData(decompressed);
-    }
+    roster = readSaveRoster(buffer);
   } catch {
-    // Decompression failed, continue with header data
+    // Actor data unreadable - fall back to the header text, and the player stays unknown unless overridden
   }
+  const slots = roster?.slots ?? [];
 
-  // Identify player civ based on player cities
-  let playerCiv: CivInfo | null = null;
-  let otherCivs: CivInfo[] = [];
-
-  if (decompressedInfo?.playerCities && decompressedInfo.playerCities.length > 0) {
-    // Find which civ matches the player cities based on known city-civ mappings
-    const playerCivName = identifyCivFromCities(decompressedInfo.playerCities);
-    if (playerCivName) {
-      // Find this civ in our list
-      const matchIndex = allCivs.findIndex(c =>
-        c.civilization.toUpperCase() === playerCivName.toUpperCase());
-      if (matchIndex >= 0) {
-        playerCiv = allCivs[matchIndex];
-        playerCiv.isHuman = true;
-        otherCivs = allCivs.filter((_, i) => i !== matchIndex);
-      }
-    }
-  }
+  const headerScan = slots.length > 0 ? null : extractCivsFromHeader(headerSection);
+  const allCivs = headerScan ? headerScan.civs : slots.map(civFromSlot);
+
+  const mods = roster && roster.mods.length > 0 ? roster.mods.map(toModInfo) : extractModsFromHeader(headerSection);
 
-  // Fallback: use first civ as player
-  if (!playerCiv && allCivs.length > 0) {
-    playerCiv = allCivs[0];
-    otherCivs = allCivs.slice(1);
+  // Identify the player civ: an explicit override, else the human slot in the actor data
+  const playerCiv = player ? findCivByName(allCivs, player) : allCivs.find(c => c.isHuman) ?? null;
+  if (player && !playerCiv) {
+    throw new Error(`Player "${player}" is not a civilization in this save. Found: ${allCivs.map(c => c.civilization).join(', ') || 'none'}`);
   }
 
-  // Mark all other civs as AI (not human)
-  for (const civ of otherCivs) {
-    civ.isHuman = false;
+  const otherCivs = allCivs.filter(c => c !== playerCiv);
+  if (playerCiv) {
+    playerCiv.isHuman = true;
   }
 
+  // City-states in the actor data, split by whether they're still in the game
+  const rosterCityStates = roster?.cityStates ?? [];
+  const cityStates = rosterCityStates.length > 0
+    ? rosterCityStates.filter(cs => cs.isAlive).map(cs => cityStateLabel(cs.civilization))
+    // Prefer header city-states as they're more reliably detected than the decompressed data
+    : headerScan && headerScan.cityStates.length > 0 ? headerScan.cityStates : cityStatesFromGameData(buffer);
+  const eliminatedCityStates = rosterCityStates.filter(cs => !cs.isAlive).map(cs => cityStateLabel(cs.civilization));
+
   return {
     leader: playerCiv?.leader || 'Unknown',
     civilization: playerCiv?.civilization || 'Unknown',
@@ -455,144 +391,60 @@ export function parseSaveFile(filePath: string): GameState {
     gameSpeed,
     gameVersion,
     otherCivs,
-    // Prefer header city-states as they're more reliably detected
-    cityStates: headerCityStates.length > 0 ? headerCityStates : (decompressedInfo?.cityStates || []),
+    cityStates,
+    eliminatedCityStates,
     mods,
-    // Extended info from decompressed data
-    ...(decompressedInfo && {
-      technologies: decompressedInfo.technologies,
-      civics: decompressedInfo.civics,
-      wonders: decompressedInfo.wonders,
-      greatPeople: decompressedInfo.greatPeople,
-      playerCities: decompressedInfo.playerCities,
-    }),
   };
 }
 
-// Map known cities to their civilization
-function identifyCivFromCities(cities: string[]): string | null {
-  const cityToCiv: Record<string, string> = {
-    'Hue': 'VIETNAM', 'Da Nang': 'VIETNAM', 'Hanoi': 'VIETNAM', 'Saigon': 'VIETNAM',
-    'Nha Trang': 'VIETNAM', 'Can Tho': 'VIETNAM', 'Hai Phong': 'VIETNAM', 'Vinh': 'VIETNAM',
-    'Thang Long': 'VIETNAM', 'Bien Hoa': 'VIETNAM',
-    'Tbilisi': 'GEORGIA', 'Kutaisi': 'GEORGIA', 'Batumi': 'GEORGIA',
-    'Persepolis': 'PERSIA', 'Pasargadae': 'PERSIA', 'Susa': 'PERSIA',
-    'Ottawa': 'CANADA', 'Toronto': 'CANADA', 'Montreal': 'CANADA',
-    'Amsterdam': 'NETHERLANDS', 'Rotterdam': 'NETHERLANDS', 'The Hague': 'NETHERLANDS',
-    'Istanbul': 'OTTOMAN', 'Ankara': 'OTTOMAN', 'Edirne': 'OTTOMAN',
-    'Rome': 'ROME', 'Antium': 'ROME', 'Cumae': 'ROME',
-    'Alexandria': 'EGYPT', 'Thebes': 'EGYPT', 'Memphis': 'EGYPT',
+function civFromSlot(slot: SaveSlot): CivInfo {
+  return {
+    leader: slot.leader ? leaderDisplayName(slot.leader) : defaultLeaderName(slot.civilization),
+    civilization: civDisplayName(slot.civilization),
+    type: 'full_civ',
+    playerId: slot.slot,
+    isHuman: slot.isHuman,
+    isAlive: slot.isAlive,
+    isCurrentTurn: slot.isCurrentTurn,
   };
-
-  for (const city of cities) {
-    const civ = cityToCiv[city];
-    if (civ) return civ;
-  }
-  return null;
-}
-
-interface DecompressedInfo {
-  technologies: string[];
-  civics: string[];
-  wonders: string[];
-  greatPeople: string[];
-  cityStates: string[];
-  playerCities: string[];
 }
 
-function analyzeDecompressedData(data: Buffer): DecompressedInfo {
-  const text = data.toString('utf8');
-
-  // Extract technologies (ones that appear to be researched)
-  const techs = [...new Set((text.match(/TECH_[A-Z_]+/g) || [])
-    .filter(t => !t.includes('BOOST') && !t.includes('GRANT')))];
-
-  // Extract civics
-  const civics = [...new Set((text.match(/CIVIC_[A-Z_]+/g) || []))];
-
-  // Extract wonders that are likely built (not just references)
-  const wonderMatches = [...new Set((text.match(/BUILDING_[A-Z_]+/g) || [])
-    .filter(b => isWonder(b)))];
-  // Clean and deduplicate wonder names
-  const wonderNamesClean = [...new Set(wonderMatches.map(w => cleanWonderName(w)))];
-
-  // Extract great people
-  const greatPeople = [...new Set((text.match(/GREAT_PERSON_INDIVIDUAL_[A-Z_]+_NAME/g) || []))]
-    .map(gp => formatGreatPersonName(gp));
-
-  // Extract city names (LOC_CITY_NAME patterns)
-  const cityNames = [...new Set((text.match(/LOC_CITY_NAME_([A-Z_]+)/g) || []))]
-    .map(c => formatEnumValue(c.replace('LOC_CITY_NAME_', '')));
-
-  // Try to identify player cities (Vietnam cities for Lady Trieu)
-  const vietnamCities = ['THANG_LONG', 'HUE', 'HANOI', 'SAIGON', 'DA_NANG', 'HAI_PHONG', 'NHA_TRANG', 'CAN_THO', 'BIEN_HOA', 'VINH'];
-  const playerCities = vietnamCities
-    .filter(c => text.includes(c))
-    .map(c => formatEnumValue(c));
-
-  // City-states active in the game
-  const cityStates = [...new Set((text.match(/CIVILIZATION_([A-Z_]+)/g) || []))]
-    .map(c => c.replace('CIVILIZATION_', ''))
-    .filter(c => isCityState(c))
-    .map(c => formatEnumValue(c));
-
-  return {
-    technologies: techs.slice(0, 20).map(t => formatEnumValue(t.replace('TECH_', ''))),
-    civics: civics.slice(0, 20).map(c => formatEnumValue(c.replace('CIVIC_', ''))),
-    wonders: wonderNamesClean.slice(0, 15),
-    greatPeople: greatPeople.slice(0, 15),
-    cityStates: cityStates.slice(0, 12),
-    playerCities,
-  };
+// Titles are stored either as plain text or as a localization tag
+function toModInfo(mod: SaveMod): ModInfo {
+  const tag = mod.title.match(/LOC_[A-Z0-9_]+/)?.[0];
+  if (!tag) return { id: mod.id, title: mod.title };
+  return { id: mod.id, title: localize(tag) ?? formatEnumValue(tag.replace(/^LOC_/, '').replace(/_MOD_TITLE$/, '')) };
 }
 
-const WONDER_NAMES = new Set([
-  'PYRAMIDS', 'STONEHENGE', 'HANGING_GARDENS', 'ORACLE', 'COLOSSEUM', 'PETRA',
-  'TERRACOTTA_ARMY', 'MACHU_PICCHU', 'GREAT_LIBRARY', 'GREAT_LIGHTHOUSE',
-  'COLOSSUS', 'ALHAMBRA', 'CHICHEN_ITZA', 'ANGKOR_WAT', 'MONT_ST_MICHEL',
-  'FORBIDDEN_CITY', 'TAJ_MAHAL', 'POTALA_PALACE', 'ST_BASILS_CATHEDRAL',
-  'BIG_BEN', 'HERMITAGE', 'BOLSHOI_THEATRE', 'OXFORD_UNIVERSITY',
-  'RUHR_VALLEY', 'STATUE_OF_LIBERTY', 'EIFFEL_TOWER', 'BROADWAY',
-  'CRISTO_REDENTOR', 'SYDNEY_OPERA_HOUSE', 'PANAMA_CANAL', 'VENETIAN_ARSENAL',
-  'GREAT_ZIMBABWE', 'APADANA', 'HUEY_TEOCALLI', 'JEBEL_BARKAL', 'KILWA_KISIWANI',
-  'KOTOKU_IN', 'MEENAKSHI_TEMPLE', 'STATUE_OF_ZEUS', 'TEMPLE_OF_ARTEMIS',
-  'AMUNDSEN_SCOTT', 'BIOSPHERE', 'CASA_DE_CONTRATACION', 'GOLDEN_GATE_BRIDGE',
-  'GREAT_BATH', 'HAGIA_SOPHIA', 'MAUSOLEUM_HALICARNASSUS',
-]);
-
-function isWonder(building: string): boolean {
-  // Extract just the wonder name part
-  const name = building.replace('BUILDING_', '');
-  return [...WONDER_NAMES].some(w => name.startsWith(w));
+function findCivByName(civs: CivInfo[], name: string): CivInfo | null {
+  const target = normalizeName(name);
+  return civs.find(c => normalizeName(c.civilization) === target || normalizeName(c.leader) === target) || null;
 }
 
-function cleanWonderName(building: string): string {
-  let name = building.replace('BUILDING_', '');
-  // Remove common suffixes that are localization variants
-  const suffixes = ['_NAME', '_GOLD', '_PRODUCTION', '_CULTURE', '_FAITH', '_SCIENCE',
-                    '_DESCRIPTION', '_RANDOMCIVICBOOST', '_RANDOMTECHBOOST', '_QUOTE'];
-  for (const suffix of suffixes) {
-    if (name.endsWith(suffix)) {
-      name = name.slice(0, -suffix.length);
-      break;
-    }
+// The decompressed game data mentions every tech, civic, wonder and great
+// person somewhere (boosts, tooltips, era scores), so those strings say
+// nothing about who owns what and aren't reported. Per-player ownership lives
+// in structured sections whose layout isn't decoded here; with logging
+// enabled, get_tech_status and get_great_people give the accurate picture.
+// Only city-states are taken from it, as a last resort.
+function cityStatesFromGameData(buffer: Buffer): string[] {
+  let decompressed: Buffer | null = null;
+  try {
+    decompressed = decompressGameData(buffer);
+  } catch {
+    // Decompression failed - no city-states beyond the header's
   }
-  return formatEnumValue(name);
-}
+  if (!decompressed) return [];
 
-function isCityState(civ: string): boolean {
-  const cityStates = [
-    'HATTUSA', 'KABUL', 'SINGAPORE', 'NGAZARGAMU', 'HUNZA', 'LA_VENTA', 'AKKAD',
-    'TARUGA', 'BRUSSELS', 'GENEVA', 'BABYLON', 'MUSCAT', 'VALLETTA', 'BUENOS_AIRES',
-    'ANTANANARIVO', 'ZANZIBAR', 'KUMASI', 'VILNIUS', 'BOLOGNA', 'FEZ', 'JERUSALEM',
-    'KANDY', 'YEREVAN', 'VATICAN_CITY', 'AUCKLAND', 'GRANADA', 'CAHOKIA',
-    'MITLA', 'JOHANNESBURG', 'NAZCA', 'AYUTTHAYA', 'CAGUANA', 'CHINGUETTI',
-    'HONG_KONG', 'MOHENJO_DARO', 'NAN_MADOL', 'PRESLAV', 'RAPA_NUI', 'TORONTO',
-    'WOLIN', 'ARMAGH', 'LAHORE', 'SAMARKAND', 'MOGADISHU', 'NALANDA',
-  ];
-  return cityStates.some(cs => civ.includes(cs));
+  const text = decompressed.toString('utf8');
+  return [...new Set((text.match(/CIVILIZATION_([A-Z_]+)/g) || []))]
+    .map(c => c.replace('CIVILIZATION_', ''))
+    .filter(c => isCityState(c))
+    .map(c => cityStateLabel(c))
+    .slice(0, 12);
 }
 
+// Title-cased fallback for when neither the game text nor the snapshot has a name
 function formatEnumValue(value: string): string {
   return value
     .split('_')
@@ -600,37 +452,16 @@ function formatEnumValue(value: string): string {
     .join(' ');
 }
 
-function formatLeaderName(name: string): string {
-  const specialCases: Record<string, string> = {
-    'LADY_TRIEU': 'Bà Triệu',
-    'LADY_SIX_SKY': 'Lady Six Sky',
-    'PETER_GREAT': 'Peter the Great',
-    'T_ROOSEVELT': 'Teddy Roosevelt',
-    'CATHERINE_DE_MEDICI': 'Catherine de Medici',
-    'ROBERT_THE_BRUCE': 'Robert the Bruce',
-    'JOHN_CURTIN': 'John Curtin',
-    'QIN': 'Qin Shi Huang',
-    'KUBLAI_KHAN_CHINA': 'Kublai Khan',
-    'GENGHIS_KHAN': 'Genghis Khan',
-    'SIMON_BOLIVAR': 'Simón Bolívar',
-    'MANSA_MUSA': 'Mansa Musa',
-    'WU_ZETIAN': 'Wu Zetian',
-    'SULEIMAN_ALT': 'Suleiman',
-    'LAURIER': 'Wilfrid Laurier',
-  };
-  return specialCases[name] || formatEnumValue(name);
+// Cities the player founded, from AI_CityBuild.csv
+function citiesFoundedBy(rawCivName: string, logsDir?: string): string[] {
+  const playerId = [...buildPlayerIdMap(logsDir).entries()].find(([, raw]) => raw === rawCivName)?.[0];
+  if (playerId === undefined) return [];
+  return parseCityFoundingStats(logsDir)
+    .filter(s => s.playerId === playerId)
+    .map(s => s.cityDisplayName);
 }
 
-function formatGreatPersonName(raw: string): string {
-  return raw
-    .replace('GREAT_PERSON_INDIVIDUAL_', '')
-    .replace('_NAME', '')
-    .split('_')
-    .map(w => w.charAt(0) + w.slice(1).toLowerCase())
-    .join(' ');
-}
-
-export function generateStrategyBrief(state: GameState): string {
+export function generateStrategyBrief(state: GameState, logsDir?: string): string {
   const lines: string[] = [];
 
   lines.push(`# Civilization VI Strategy Brief`);
@@ -647,18 +478,10 @@ export function generateStrategyBrief(state: GameState): string {
   lines.push(`- **Speed**: ${state.gameSpeed}`);
   lines.push('');
 
-  // Player cities
-  const extState = state as GameState & { playerCities?: string[] };
-  if (extState.playerCities && extState.playerCities.length > 0) {
-    lines.push(`## Your Cities (${extState.playerCities.length} found)`);
-    lines.push(extState.playerCities.join(', '));
-    lines.push('');
-  }
-
   // Add statistics from game history logging if available
   let stats: ReturnType<typeof getLatestTurnStatsFullCivsOnly> = null;
   try {
-    stats = getLatestTurnStatsFullCivsOnly();
+    stats = getLatestTurnStatsFullCivsOnly(logsDir);
   } catch {
     // Log files don't exist or can't be read - that's fine
   }
@@ -670,6 +493,13 @@ export function generateStrategyBrief(state: GameState): string {
     );
 
     if (playerStats) {
+      const cities = citiesFoundedBy(playerStats.rawCivName, logsDir);
+      if (cities.length > 0) {
+        lines.push(`## Your Cities (${cities.length} found)`);
+        lines.push(cities.join(', '));
+        lines.push('');
+      }
+
       lines.push(`## Your Empire Status (Turn ${playerStats.turn})`);
       lines.push(`- **Population**: ${playerStats.population} across ${playerStats.cities} cities`);
       lines.push(`- **Science**: ${playerStats.sciencePerTurn}/turn (${playerStats.techsResearched} techs researched)`);
@@ -734,28 +564,16 @@ export function generateStrategyBrief(state: GameState): string {
   if (state.otherCivs.length > 0) {
     lines.push(`## Other Civilizations (${state.otherCivs.length})`);
     for (const civ of state.otherCivs) {
-      lines.push(`- **${civ.leader}** of ${civ.civilization}`);
+      const notes = [civ.isHuman ? 'human' : '', civ.isAlive === false ? 'eliminated' : ''].filter(Boolean);
+      lines.push(`- **${civ.leader}** of ${civ.civilization}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
     }
     lines.push('');
   }
 
-  if (state.cityStates.length > 0) {
+  if (state.cityStates.length > 0 || state.eliminatedCityStates.length > 0) {
     lines.push(`## City-States (${state.cityStates.length})`);
-    lines.push(state.cityStates.join(', '));
-    lines.push('');
-  }
-
-  // Extended info
-  const ext = state as GameState & DecompressedInfo;
-  if (ext.wonders && ext.wonders.length > 0) {
-    lines.push(`## Wonders Built`);
-    lines.push(ext.wonders.join(', '));
-    lines.push('');
-  }
-
-  if (ext.greatPeople && ext.greatPeople.length > 0) {
-    lines.push(`## Great People`);
-    lines.push(ext.greatPeople.slice(0, 10).join(', '));
+    if (state.cityStates.length > 0) lines.push(state.cityStates.join(', '));
+    if (state.eliminatedCityStates.length > 0) lines.push(`Eliminated: ${state.eliminatedCityStates.join(', ')}`);
     lines.push('');
   }
 
@@ -773,5 +591,11 @@ export function generateStrategyBrief(state: GameState): string {
   lines.push(`## Game Version`);
   lines.push(state.gameVersion);
 
+  const unknownNames = formatUnknownNames();
+  if (unknownNames) {
+    lines.push('');
+    lines.push(unknownNames);
+  }
+
   return lines.join('\n');
 }
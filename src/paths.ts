@@ -1,35 +1,258 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
 import { homedir, platform } from 'os';
 import { join } from 'path';
+import { getCliArgument, expandHome, loadConfig, getConfigFilePath } from './config.js';
+
+// Steam app ID for Civilization VI (used for the Proton compatdata prefix)
+const CIV6_STEAM_APP_ID = '289070';
+
+const GAME_FOLDER = "Sid Meier's Civilization VI";
 
 /**
- * Get the Civilization VI saves directory for the current platform.
+ * A directory that may hold Civ6 data, along with where the suggestion came from.
  */
-export function getSavesDirectory(): string {
+export interface DirectoryCandidate {
+  path: string;
+  source: string;
+  override: boolean;
+}
+
+/**
+ * Find Steam library roots on Linux (native, Flatpak and any extra libraries
+ * listed in libraryfolders.vdf).
+ */
+function getLinuxSteamLibraries(): string[] {
+  const home = homedir();
+  const steamRoots = [
+    join(home, '.steam/steam'),
+    join(home, '.local/share/Steam'),
+    join(home, '.var/app/com.valvesoftware.Steam/.local/share/Steam'),
+  ];
+
+  const libraries: string[] = [];
+  for (const root of steamRoots) {
+    if (!libraries.includes(root)) libraries.push(root);
+
+    const vdfPath = join(root, 'steamapps/libraryfolders.vdf');
+    if (!existsSync(vdfPath)) continue;
+    try {
+      const vdf = readFileSync(vdfPath, 'utf-8');
+      for (const match of vdf.matchAll(/"path"\s+"([^"]+)"/g)) {
+        const library = match[1].replace(/\\\\/g, '\\');
+        if (!libraries.includes(library)) libraries.push(library);
+      }
+    } catch {
+      // Unreadable library list - fall back to the default roots
+    }
+  }
+  return libraries;
+}
+
+/**
+ * Get the per-user game folders (the ones containing Saves/, Logs/ and UserOptions.txt)
+ * for the current platform, in probe order.
+ */
+function getUserDataRoots(): DirectoryCandidate[] {
+  const home = homedir();
+
   if (platform() === 'win32') {
-    return join(homedir(), 'Documents/My Games/Sid Meier\'s Civilization VI/Saves');
+    return [
+      { path: join(home, 'Documents/My Games', GAME_FOLDER), source: 'Windows Documents', override: false },
+      { path: join(home, 'OneDrive/Documents/My Games', GAME_FOLDER), source: 'Windows OneDrive Documents', override: false },
+    ];
+  }
+
+  if (platform() === 'linux') {
+    const dataHome = process.env.XDG_DATA_HOME || join(home, '.local/share');
+    const roots: DirectoryCandidate[] = [
+      { path: join(dataHome, 'aspyr-media', GAME_FOLDER), source: 'Linux native', override: false },
+    ];
+    for (const library of getLinuxSteamLibraries()) {
+      roots.push({
+        path: join(library, 'steamapps/compatdata', CIV6_STEAM_APP_ID, 'pfx/drive_c/users/steamuser/Documents/My Games', GAME_FOLDER),
+        source: `Proton (${library})`,
+        override: false,
+      });
+    }
+    return roots;
   }
+
   // macOS
-  return join(homedir(), "Library/Application Support/Sid Meier's Civilization VI/Sid Meier's Civilization VI/Saves");
+  return [
+    { path: join(home, 'Library/Application Support', GAME_FOLDER), source: 'macOS', override: false },
+  ];
 }
 
 /**
- * Get the Civilization VI logs directory for the current platform.
+ * Get explicit directory overrides, highest priority first:
+ * command-line argument, environment variable, config file.
  */
-export function getLogsDirectory(): string {
+function getOverrides(cliName: string, envName: string, configKey: 'logsDir' | 'savesDir' | 'gameDir'): DirectoryCandidate[] {
+  const overrides: DirectoryCandidate[] = [];
+
+  const cliValue = getCliArgument(cliName);
+  if (cliValue) {
+    overrides.push({ path: expandHome(cliValue), source: `--${cliName}`, override: true });
+  }
+
+  const envValue = process.env[envName];
+  if (envValue) {
+    overrides.push({ path: expandHome(envValue), source: envName, override: true });
+  }
+
+  const configValue = loadConfig()[configKey];
+  if (configValue) {
+    overrides.push({ path: configValue, source: `config file (${getConfigFilePath()})`, override: true });
+  }
+
+  return overrides;
+}
+
+/**
+ * Pick the directory to use: an explicit override always wins, otherwise the
+ * first candidate that exists, otherwise the first candidate.
+ */
+function resolveDirectory(candidates: DirectoryCandidate[]): string {
+  const override = candidates.find(c => c.override);
+  if (override) return override.path;
+
+  const existing = candidates.find(c => existsSync(c.path));
+  return (existing || candidates[0]).path;
+}
+
+/**
+ * Get every saves directory considered for the current platform, in priority order.
+ */
+export function getSavesDirectoryCandidates(): DirectoryCandidate[] {
+  const defaults = platform() === 'darwin'
+    ? [{
+      path: join(homedir(), 'Library/Application Support', GAME_FOLDER, GAME_FOLDER, 'Saves'),
+      source: 'macOS',
+      override: false,
+    }]
+    : getUserDataRoots().map(root => ({ ...root, path: join(root.path, 'Saves') }));
+
+  return [...getOverrides('saves-dir', 'CIV6_SAVES_DIR', 'savesDir'), ...defaults];
+}
+
+/**
+ * Get every logs directory considered for the current platform, in priority order.
+ */
+export function getLogsDirectoryCandidates(): DirectoryCandidate[] {
+  const defaults = platform() === 'darwin'
+    ? [{
+      path: join(homedir(), 'Library/Application Support', GAME_FOLDER, 'Firaxis Games', GAME_FOLDER, 'Logs'),
+      source: 'macOS',
+      override: false,
+    }]
+    : getUserDataRoots().map(root => ({ ...root, path: join(root.path, 'Logs') }));
+
+  return [...getOverrides('logs-dir', 'CIV6_LOGS_DIR', 'logsDir'), ...defaults];
+}
+
+/**
+ * Get every game install directory considered for the current platform, in priority order.
+ * These are the folders holding Base/ and DLC/ (where the game's text XML lives).
+ */
+export function getGameDirectoryCandidates(): DirectoryCandidate[] {
+  const home = homedir();
+  let defaults: DirectoryCandidate[];
+
   if (platform() === 'win32') {
-    return join(homedir(), 'Documents/My Games/Sid Meier\'s Civilization VI/Logs');
+    defaults = [
+      { path: join('C:/Program Files (x86)/Steam/steamapps/common', GAME_FOLDER), source: 'Steam', override: false },
+      { path: 'C:/Program Files/Epic Games/SidMeiersCivilizationVI', source: 'Epic Games', override: false },
+    ];
+  } else if (platform() === 'linux') {
+    defaults = getLinuxSteamLibraries().flatMap(library => [
+      { path: join(library, 'steamapps/common', GAME_FOLDER, 'steamassets'), source: `Linux native (${library})`, override: false },
+      { path: join(library, 'steamapps/common', GAME_FOLDER), source: `Proton (${library})`, override: false },
+    ]);
+  } else {
+    defaults = [{
+      path: join(home, 'Library/Application Support/Steam/steamapps/common', GAME_FOLDER, 'Civ6.app/Contents/Assets'),
+      source: 'macOS Steam',
+      override: false,
+    }];
   }
-  // macOS
-  return join(homedir(), "Library/Application Support/Sid Meier's Civilization VI/Firaxis Games/Sid Meier's Civilization VI/Logs");
+
+  return [...getOverrides('game-dir', 'CIV6_GAME_DIR', 'gameDir'), ...defaults];
+}
+
+/**
+ * Get the game install directory, or null when no override is set and no default location exists.
+ */
+export function getGameDirectory(): string | null {
+  const candidates = getGameDirectoryCandidates();
+  const override = candidates.find(c => c.override);
+  if (override) return override.path;
+  return candidates.find(c => existsSync(join(c.path, 'Base')))?.path ?? null;
+}
+
+// Deep enough for DLC/<pack>/Text/<language>/*.xml
+const MAX_GAME_SCAN_DEPTH = 6;
+
+/**
+ * Find the install's xml files inside folders named `folder` (e.g. "Text" or "Data"),
+ * across Base/ and every DLC, keeping those whose file name passes `accept`.
+ */
+export function findGameFiles(gameDir: string, folder: string, accept: (fileName: string) => boolean = () => true): string[] {
+  const files: string[] = [];
+  const scan = (dir: string, depth: number, inFolder: boolean): void => {
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory() && depth < MAX_GAME_SCAN_DEPTH) {
+        scan(fullPath, depth + 1, inFolder || entry.name.toLowerCase() === folder.toLowerCase());
+      } else if (inFolder && entry.name.toLowerCase().endsWith('.xml') && accept(entry.name)) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  scan(gameDir, 0, false);
+  return files;
+}
+
+/**
+ * Get the Civilization VI saves directory for the current platform.
+ */
+export function getSavesDirectory(): string {
+  return resolveDirectory(getSavesDirectoryCandidates());
+}
+
+/**
+ * Get the Civilization VI logs directory for the current platform.
+ */
+export function getLogsDirectory(): string {
+  return resolveDirectory(getLogsDirectoryCandidates());
 }
 
 /**
  * Get the UserOptions.txt path for the current platform (for documentation purposes).
  */
 export function getUserOptionsPath(): string {
-  if (platform() === 'win32') {
-    return join(homedir(), 'Documents/My Games/Sid Meier\'s Civilization VI/UserOptions.txt');
+  const roots = getUserDataRoots();
+  const existing = roots.find(r => existsSync(join(r.path, 'UserOptions.txt')));
+  return join((existing || roots[0]).path, 'UserOptions.txt');
+}
+
+/**
+ * Format a list of candidate directories for error messages, marking which exist.
+ */
+export function formatCheckedDirectories(label: string, candidates: DirectoryCandidate[]): string {
+  const lines = [`Checked ${label} directories:`];
+  for (const candidate of candidates) {
+    const status = existsSync(candidate.path) ? 'found' : 'not found';
+    lines.push(`- ${candidate.path} (${candidate.source}, ${status})`);
   }
-  // macOS
-  return join(homedir(), "Library/Application Support/Sid Meier's Civilization VI/UserOptions.txt");
+  lines.push('');
+  lines.push(`Override with --${label}-dir, CIV6_${label.toUpperCase()}_DIR, or "${label}Dir" in ${getConfigFilePath()}`);
+  return lines.join('\n');
 }
@@ -0,0 +1,180 @@
+import { getPlayerOverride } from './config.js';
+import { getLatestTurnStats, getLatestTurnStatsFullCivsOnly } from './history-parser.js';
+import { buildPlayerIdMap } from './logs-parser.js';
+import { normalizeName } from './names.js';
+import { civDisplayName, defaultLeaderName, leaderDisplayName } from './reference.js';
+import { listSaveFiles } from './parser.js';
+import { getLogsDirectory, getSavesDirectory } from './paths.js';
+import { getSaveSlots, type SaveSlot } from './save-roster.js';
+import type { CivStatistics } from './types.js';
+
+// One answer to "which civ is me" for every tool: an explicit override, else
+// the human slot in the save (ACTOR_AI_HUMAN) checked against the log player
+// IDs, else the logs alone.
+
+export type PlayerSource = 'override' | 'save' | 'logs';
+
+export interface PlayerIdentity {
+  playerId: number;
+  rawCivName: string;    // As in the logs, e.g. "ROME"
+  civilization: string;  // Display name, e.g. "Rome"
+  leader: string;
+  source: PlayerSource;
+  savePath?: string;     // Save the human slot was read from
+  warnings: string[];    // Disagreements between the save and the logs
+}
+
+export interface ResolvePlayerOptions {
+  logsDir?: string;
+  savesDir?: string;
+  savePath?: string;  // Save to read; defaults to the most recent one
+  player?: string;    // Per-call override (civ, leader or player ID); defaults to the configured one
+}
+
+// ============ Helpers ============
+
+function latestStats(logsDir: string): CivStatistics[] {
+  return getLatestTurnStatsFullCivsOnly(logsDir) || getLatestTurnStats(logsDir) || [];
+}
+
+function findLogPlayerId(rawCivName: string, playerMap: Map<number, string>): number | undefined {
+  for (const [id, rawName] of playerMap) {
+    if (rawName === rawCivName) return id;
+  }
+  return undefined;
+}
+
+function buildIdentity(
+  playerId: number,
+  rawCivName: string,
+  source: PlayerSource,
+  logsDir: string,
+  extra: { leader?: string; savePath?: string; warnings?: string[] } = {}
+): PlayerIdentity {
+  const stats = latestStats(logsDir).find(s => s.rawCivName === rawCivName);
+  return {
+    playerId,
+    rawCivName,
+    civilization: stats?.civilization || civDisplayName(rawCivName),
+    leader: extra.leader ? leaderDisplayName(extra.leader) : stats?.leader || defaultLeaderName(rawCivName),
+    source,
+    ...(extra.savePath && { savePath: extra.savePath }),
+    warnings: extra.warnings || [],
+  };
+}
+
+// ============ Sources ============
+
+function fromOverride(override: string, logsDir: string): PlayerIdentity {
+  const playerMap = buildPlayerIdMap(logsDir);
+
+  if (/^\d+$/.test(override.trim())) {
+    const playerId = parseInt(override, 10);
+    const rawCivName = playerMap.get(playerId);
+    if (!rawCivName) {
+      throw new Error(`Player override ${playerId} is not a player ID in the logs. Known IDs: ${[...playerMap.keys()].join(', ') || 'none (no game data)'}`);
+    }
+    return buildIdentity(playerId, rawCivName, 'override', logsDir);
+  }
+
+  const target = normalizeName(override);
+  const stats = latestStats(logsDir).find(s =>
+    normalizeName(s.civilization) === target ||
+    normalizeName(s.leader) === target ||
+    normalizeName(s.rawCivName) === target
+  );
+  const rawCivName = stats?.rawCivName
+    || [...playerMap.values()].find(raw => normalizeName(raw) === target);
+  const playerId = rawCivName !== undefined ? findLogPlayerId(rawCivName, playerMap) : undefined;
+  if (rawCivName === undefined || playerId === undefined) {
+    const known = [...playerMap.values()].map(civDisplayName);
+    throw new Error(`Player override "${override}" doesn't match a civilization in the logs. Known: ${known.join(', ') || 'none (no game data)'}`);
+  }
+  return buildIdentity(playerId, rawCivName, 'override', logsDir);
+}
+
+function fromSave(savePath: string, logsDir: string): PlayerIdentity | null {
+  let humans: SaveSlot[];
+  try {
+    humans = getSaveSlots(savePath).filter(s => s.isHuman);
+  } catch {
+    return null;
+  }
+  if (humans.length === 0) return null;
+
+  const warnings: string[] = [];
+  const human = humans[0];
+  if (humans.length > 1) {
+    warnings.push(`The save has ${humans.length} human players (${humans.map(h => civDisplayName(h.civilization)).join(', ')}); using ${civDisplayName(human.civilization)}. Pass a player to choose another.`);
+  }
+
+  // Slot order normally matches the log player IDs; trust the logs when they disagree
+  const playerMap = buildPlayerIdMap(logsDir);
+  let playerId = human.slot;
+  const logId = findLogPlayerId(human.civilization, playerMap);
+  if (logId !== undefined) {
+    if (logId !== human.slot) {
+      warnings.push(`${civDisplayName(human.civilization)} is slot ${human.slot} in the save but player ${logId} in the logs; using the log ID.`);
+    }
+    playerId = logId;
+  } else if (playerMap.size > 0) {
+    // The save is from a different game than the logs; leave it to fromLogs
+    return null;
+  }
+
+  return buildIdentity(playerId, human.civilization, 'save', logsDir, { leader: human.leader, savePath, warnings });
+}
+
+// Player_Stats.csv gets each civ's row as its turn ends, and the human ends
+// theirs first, so a newest turn holding a single major civ is the human's
+function fromLogs(logsDir: string): PlayerIdentity | null {
+  const newest = (getLatestTurnStats(logsDir) || []).filter(s => !s.isCityState);
+  if (newest.length !== 1) return null;
+
+  const playerId = findLogPlayerId(newest[0].rawCivName, buildPlayerIdMap(logsDir));
+  if (playerId === undefined) return null;
+  return buildIdentity(playerId, newest[0].rawCivName, 'logs', logsDir);
+}
+
+// ============ Resolver ============
+
+/**
+ * Work out which player is the human. Returns null when neither an override,
+ * a save nor the logs say. Throws if an override doesn't match any player.
+ * With an explicit logsDir and no save or saves directory, the newest save is
+ * not consulted, since it likely belongs to the live game rather than those logs.
+ */
+export function resolvePlayer(options: ResolvePlayerOptions = {}): PlayerIdentity | null {
+  const logsDir = options.logsDir || getLogsDirectory();
+
+  const override = options.player || getPlayerOverride();
+  if (override) {
+    return fromOverride(override, logsDir);
+  }
+
+  const useNewestSave = !options.logsDir || options.savesDir !== undefined;
+  const savePath = options.savePath
+    || (useNewestSave ? listSaveFiles('all', options.savesDir || getSavesDirectory())[0]?.path : undefined);
+  const fromSaveFile = savePath ? fromSave(savePath, logsDir) : null;
+  return fromSaveFile || fromLogs(logsDir);
+}
+
+/**
+ * One line describing how the player was identified, with any warnings.
+ */
+export function formatPlayerIdentity(identity: PlayerIdentity | null): string {
+  if (!identity) {
+    return '*Could not tell which civilization is yours. Pass `player` (or set `--player` / CIV6MCP_PLAYER).*';
+  }
+
+  const sources: Record<PlayerSource, string> = {
+    override: 'player override',
+    save: 'save file',
+    logs: 'game logs',
+  };
+  const lines = [`*Playing as ${identity.civilization} (${identity.leader}), player ${identity.playerId}, from the ${sources[identity.source]}.*`];
+  for (const warning of identity.warnings) {
+    lines.push(`*⚠️ ${warning}*`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,244 @@
+// ============ Prompt Types ============
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptInfo {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export interface PromptResult {
+  description: string;
+  messages: {
+    role: 'user';
+    content: { type: 'text'; text: string };
+  }[];
+}
+
+// Runs a tool and returns its text output; supplied by the server so prompts use the same handlers
+export type ToolRunner = (name: string, args: Record<string, unknown>) => Promise<string>;
+
+// A tool whose output gets embedded in the prompt
+interface EmbeddedTool {
+  title: string;
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+// ============ Advisor Guidance ============
+
+// Condensed from PROJECT_INSTRUCTIONS.md so clients get the advisor without manual setup
+const ADVISOR_GUIDE = `You are an expert Civilization VI strategic advisor. The game data below was read from the player's game logs just now.
+
+Rate threats as:
+- **CRITICAL**: Immediate military danger, enemy superweapons near completion
+- **HIGH**: Aggressive neighbor with strong military, diplomatic isolation
+- **MEDIUM**: Rival pulling ahead in victory race, hostile denouncement
+- **LOW**: Minor diplomatic friction, weak neighbors
+
+Combat desire (0-20): 0-3 peaceful, 4-7 moderate, 8-12 aggressive, 13+ war is probable.
+
+For every recommendation give **What** to do, **Why** (cite the data) and **Priority** (immediate, next few turns, long-term).
+Be concise, lead with the most important information, refer to civilizations by leader name and quantify threats where possible.
+Game data updates when a turn ends; mid-turn the latest turn may only include the player's own civilization.`;
+
+const VICTORY_TYPES = ['science', 'culture', 'domination', 'religious', 'diplomatic', 'score'] as const;
+type VictoryType = typeof VICTORY_TYPES[number];
+
+// Extra data worth embedding for each victory type
+const VICTORY_TOOLS: Record<VictoryType, EmbeddedTool[]> = {
+  science: [{ title: 'Technology Progress', tool: 'get_tech_status', args: {} }],
+  culture: [
+    { title: 'Cultural Great People', tool: 'get_great_people_culture', args: {} },
+    { title: 'Civic Progress', tool: 'get_civic_status', args: {} },
+  ],
+  domination: [
+    { title: 'Military Intelligence', tool: 'get_military_intelligence', args: {} },
+    { title: 'Recent Combat', tool: 'get_combat_log', args: { turns: 10 } },
+  ],
+  religious: [{ title: 'Great People', tool: 'get_great_people', args: {} }],
+  diplomatic: [
+    { title: 'World Congress', tool: 'get_world_congress', args: {} },
+    { title: 'Civic Progress', tool: 'get_civic_status', args: {} },
+  ],
+  score: [],
+};
+
+const VICTORY_FOCUS: Record<VictoryType, string> = {
+  science: 'tech count and pace, science per turn, and the space race projects (satellite, moon landing, Mars, exoplanet)',
+  culture: 'culture per turn, Great Works and cultural Great People, and which rival generates the most tourism pressure',
+  domination: 'relative military strength, which capitals are realistic targets, and who might ally against us',
+  religious: 'faith per turn, Great Prophets and which civs could block the spread of our religion',
+  diplomatic: 'World Congress influence, favor, alliances and which resolutions to push',
+  score: 'the score categories where we trail the leader and the cheapest points available',
+};
+
+// ============ Prompt Definitions ============
+
+const MY_CIV_ARGUMENT: PromptArgument = {
+  name: 'my_civ',
+  description: 'Your civilization (e.g. "Rome"), for personalized advice',
+};
+
+const LOGS_DIR_ARGUMENT: PromptArgument = {
+  name: 'logs_dir',
+  description: 'Logs directory to read instead of the detected game folder',
+};
+
+const PROMPTS: PromptInfo[] = [
+  {
+    name: 'turn_briefing',
+    description: 'Briefing for the current turn: threats, opportunities, economy and trends, with prioritized actions',
+    arguments: [MY_CIV_ARGUMENT, LOGS_DIR_ARGUMENT],
+  },
+  {
+    name: 'pre_war_assessment',
+    description: 'Assess a war against one civilization: relative strength, their allies, recent combat and what they are building',
+    arguments: [
+      { name: 'civ', description: 'Civilization you are considering war against', required: true },
+      MY_CIV_ARGUMENT,
+      LOGS_DIR_ARGUMENT,
+    ],
+  },
+  {
+    name: 'victory_plan',
+    description: 'Plan a path to one victory type against the current competition',
+    arguments: [
+      { name: 'type', description: `Victory type: ${VICTORY_TYPES.join(', ')}`, required: true },
+      MY_CIV_ARGUMENT,
+      LOGS_DIR_ARGUMENT,
+    ],
+  },
+  {
+    name: 'world_congress_vote',
+    description: 'Advice on how to vote in the World Congress, based on past votes, relations and the victory race',
+    arguments: [MY_CIV_ARGUMENT, LOGS_DIR_ARGUMENT],
+  },
+];
+
+export function listPrompts(): PromptInfo[] {
+  return PROMPTS;
+}
+
+// ============ Prompt Rendering ============
+
+async function embedTools(tools: EmbeddedTool[], logsDir: string | undefined, runTool: ToolRunner): Promise<string> {
+  const sections: string[] = [];
+  for (const { title, tool, args } of tools) {
+    const output = await runTool(tool, logsDir ? { ...args, logs_dir: logsDir } : args);
+    sections.push(`## ${title} (\`${tool}\`)\n\n${output}`);
+  }
+  return sections.join('\n\n');
+}
+
+function buildPrompt(description: string, task: string, data: string): PromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `${ADVISOR_GUIDE}\n\n# Task\n\n${task}\n\n# Game Data\n\n${data}`,
+        },
+      },
+    ],
+  };
+}
+
+function youAre(myCiv: string | undefined): string {
+  return myCiv ? `I am playing ${myCiv}. ` : '';
+}
+
+/**
+ * Render a prompt with the relevant tool output embedded.
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  runTool: ToolRunner
+): Promise<PromptResult> {
+  const myCiv = args.my_civ || undefined;
+  const logsDir = args.logs_dir || undefined;
+
+  switch (name) {
+    case 'turn_briefing': {
+      const data = await embedTools([
+        { title: 'Strategic Overview', tool: 'get_strategic_overview', args: myCiv ? { civilization: myCiv } : {} },
+        { title: 'Yield Comparison', tool: 'get_yield_comparison', args: {} },
+        { title: 'Trends', tool: 'get_trend_analysis', args: { turns: 5 } },
+      ], logsDir, runTool);
+
+      return buildPrompt(
+        'Turn briefing',
+        `${youAre(myCiv)}Give me my turn briefing: the most pressing threats and opportunities, how my economy compares, who is rising or falling, and 2-3 prioritized actions for this turn.`,
+        data
+      );
+    }
+
+    case 'pre_war_assessment': {
+      const target = args.civ;
+      if (!target) {
+        throw new Error('Missing required argument: civ');
+      }
+
+      const data = await embedTools([
+        { title: 'Military Intelligence', tool: 'get_military_intelligence', args: {} },
+        { title: `Diplomatic Status: ${target}`, tool: 'get_diplomatic_status', args: { civilization: target } },
+        { title: `Diplomatic Modifiers: ${target}`, tool: 'get_diplomatic_modifiers', args: { civilization: target } },
+        { title: `Coalitions Against ${target}`, tool: 'get_coalitions', args: { target } },
+        { title: 'Recent Combat', tool: 'get_combat_log', args: { turns: 10 } },
+        { title: 'City Production', tool: 'get_city_production', args: {} },
+        { title: 'Yield Comparison', tool: 'get_yield_comparison', args: {} },
+      ], logsDir, runTool);
+
+      return buildPrompt(
+        `Pre-war assessment against ${target}`,
+        `${youAre(myCiv)}I am considering war against ${target}. Compare our military strength, identify who would likely join either side, flag any dangerous units they are producing, and tell me whether to attack now, prepare first, or avoid the war. If I should prepare, list what to build and which relationships to secure.`,
+        data
+      );
+    }
+
+    case 'victory_plan': {
+      const type = (args.type || '').toLowerCase() as VictoryType;
+      if (!VICTORY_TYPES.includes(type)) {
+        throw new Error(`Unknown victory type: ${args.type}. Use one of: ${VICTORY_TYPES.join(', ')}`);
+      }
+
+      const data = await embedTools([
+        { title: 'Victory Progress', tool: 'get_victory_progress', args: {} },
+        { title: 'Score Breakdown', tool: 'get_score_breakdown', args: {} },
+        ...VICTORY_TOOLS[type],
+        { title: 'Trends', tool: 'get_trend_analysis', args: { turns: 10 } },
+      ], logsDir, runTool);
+
+      return buildPrompt(
+        `Victory plan: ${type}`,
+        `${youAre(myCiv)}Build me a plan for a ${type} victory. Focus on ${VICTORY_FOCUS[type]}. Say who my main competitor is, how far ahead or behind I am, and give a turn-by-turn plan for the next 10-20 turns plus what would make me switch strategy.`,
+        data
+      );
+    }
+
+    case 'world_congress_vote': {
+      const data = await embedTools([
+        { title: 'World Congress', tool: 'get_world_congress', args: {} },
+        { title: 'Diplomatic Status', tool: 'get_diplomatic_status', args: myCiv ? { civilization: myCiv } : {} },
+        { title: 'Victory Progress', tool: 'get_victory_progress', args: {} },
+      ], logsDir, runTool);
+
+      return buildPrompt(
+        'World Congress vote advice',
+        `${youAre(myCiv)}Advise me on the World Congress: for each resolution say which option and target to back and how many votes to spend, based on how others voted before, who I need to keep friendly, and who is closest to winning.`,
+        data
+      );
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
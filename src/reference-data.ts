@@ -0,0 +1,233 @@
+import type { CityStateReference, CityStateType, CivReference, LeaderReference } from './types.js';
+
+// Bundled reference data for every civilization, leader persona and
+// city-state through the Leader Pass. Types are as they appear in saves and
+// logs without their CIVILIZATION_ / LEADER_ prefix. City lists hold the
+// default names a civ founds first (after LOC_CITY_NAME_), capital first;
+// they are left short where the later names are shared with other civs.
+
+// ============ Civilizations ============
+
+export const CIVILIZATIONS: CivReference[] = [
+  { type: 'AMERICA', name: 'America', leaders: ['T_ROOSEVELT', 'T_ROOSEVELT_ROUGHRIDER', 'ABRAHAM_LINCOLN'],
+    cities: ['WASHINGTON', 'NEW_YORK', 'BOSTON', 'PHILADELPHIA', 'ATLANTA', 'CHICAGO', 'SEATTLE', 'SAN_FRANCISCO', 'LOS_ANGELES'] },
+  { type: 'ARABIA', name: 'Arabia', leaders: ['SALADIN', 'SALADIN_ALT'],
+    cities: ['MECCA', 'MEDINA', 'BAGHDAD', 'DAMASCUS', 'CAIRO', 'BASRA', 'KUFA'] },
+  { type: 'AUSTRALIA', name: 'Australia', leaders: ['JOHN_CURTIN'],
+    cities: ['CANBERRA', 'SYDNEY', 'MELBOURNE', 'BRISBANE', 'PERTH', 'ADELAIDE', 'HOBART', 'DARWIN', 'GEELONG', 'NEWCASTLE', 'TOOWOOMBA', 'BALLAARAT'] },
+  { type: 'AZTEC', name: 'Aztec', leaders: ['MONTEZUMA'],
+    cities: ['TENOCHTITLAN', 'TEXCOCO', 'TLACOPAN', 'XOCHIMILCO', 'CHALCO', 'TLAXCALA'] },
+  { type: 'BABYLON_STK', name: 'Babylon', leaders: ['HAMMURABI'],
+    cities: ['BABYLON', 'BORSIPPA', 'SIPPAR'] },
+  { type: 'BRAZIL', name: 'Brazil', leaders: ['PEDRO'],
+    cities: ['RIO_DE_JANEIRO', 'SAO_PAULO', 'SALVADOR', 'BRASILIA', 'FORTALEZA', 'BELO_HORIZONTE', 'RECIFE'] },
+  { type: 'BYZANTIUM', name: 'Byzantium', leaders: ['BASIL', 'THEODORA'],
+    cities: ['CONSTANTINOPLE', 'NICAEA'] },
+  { type: 'CANADA', name: 'Canada', leaders: ['LAURIER'],
+    cities: ['OTTAWA', 'MONTREAL', 'QUEBEC_CITY', 'VANCOUVER', 'CALGARY', 'HALIFAX', 'WINNIPEG'] },
+  { type: 'CHINA', name: 'China', leaders: ['QIN', 'QIN_ALT', 'KUBLAI_KHAN_CHINA', 'YONGLE', 'WU_ZETIAN'],
+    cities: ['XIAN', 'BEIJING', 'NANJING', 'SHANGHAI', 'GUANGZHOU', 'LUOYANG', 'HANGZHOU'] },
+  { type: 'CREE', name: 'Cree', leaders: ['POUNDMAKER'],
+    cities: ['KAWACATOOSE', 'MISTAWASIS', 'AHTAHKAKOOP', 'POUNDMAKER', 'PIAPOT', 'KAHKEWISTAHAW', 'PEEPEEKISIS', 'OCHAPOWACE', 'SAKIMAY', 'COWESSESS'] },
+  { type: 'EGYPT', name: 'Egypt', leaders: ['CLEOPATRA', 'CLEOPATRA_ALT', 'RAMSES'],
+    cities: ['MEMPHIS', 'THEBES', 'ALEXANDRIA', 'HELIOPOLIS', 'GIZA', 'AVARIS', 'ABYDOS'] },
+  { type: 'ENGLAND', name: 'England', leaders: ['VICTORIA', 'VICTORIA_ALT', 'ELEANOR_ENGLAND', 'ELIZABETH'],
+    cities: ['LONDON', 'LIVERPOOL', 'MANCHESTER', 'BIRMINGHAM', 'LEEDS', 'YORK', 'BRISTOL'] },
+  { type: 'ETHIOPIA', name: 'Ethiopia', leaders: ['MENELIK'],
+    cities: ['ADDIS_ABABA', 'AKSUM', 'GONDAR', 'LALIBELA', 'HARAR'] },
+  { type: 'FRANCE', name: 'France', leaders: ['CATHERINE_DE_MEDICI', 'CATHERINE_DE_MEDICI_ALT', 'ELEANOR_FRANCE'],
+    cities: ['PARIS', 'ORLEANS', 'LYON', 'MARSEILLE', 'BORDEAUX', 'TOULOUSE', 'RHEIMS'] },
+  { type: 'GAUL', name: 'Gaul', leaders: ['AMBIORIX'], cities: ['BIBRACTE', 'ALESIA'] },
+  { type: 'GEORGIA', name: 'Georgia', leaders: ['TAMAR'],
+    cities: ['TBILISI', 'KUTAISI', 'BATUMI', 'ZUGDIDI', 'GORI', 'RUSTAVI'] },
+  { type: 'GERMANY', name: 'Germany', leaders: ['BARBAROSSA', 'LUDWIG'],
+    cities: ['AACHEN', 'COLOGNE', 'FRANKFURT', 'MAGDEBURG', 'MAINZ', 'HEIDELBERG', 'HAMBURG', 'BERLIN'] },
+  { type: 'GRAN_COLOMBIA', name: 'Gran Colombia', leaders: ['SIMON_BOLIVAR'],
+    cities: ['BOGOTA', 'CARACAS', 'QUITO', 'MARACAIBO', 'MEDELLIN', 'CALI', 'GUAYAQUIL'] },
+  { type: 'GREECE', name: 'Greece', leaders: ['PERICLES', 'GORGO'],
+    cities: ['ATHENS', 'SPARTA', 'CORINTH', 'ARGOS', 'KNOSSOS', 'MYCENAE', 'PHARSALOS'] },
+  { type: 'HUNGARY', name: 'Hungary', leaders: ['MATTHIAS_CORVINUS'],
+    cities: ['ESZTERGOM', 'BUDA', 'PEST', 'SZEKESFEHERVAR', 'DEBRECEN', 'SZEGED'] },
+  { type: 'INCA', name: 'Inca', leaders: ['PACHACUTI'],
+    cities: ['CUSCO', 'HUANUCO_PAMPA', 'VILCABAMBA', 'TUMIPAMPA', 'CAJAMARCA'] },
+  { type: 'INDIA', name: 'India', leaders: ['GANDHI', 'CHANDRAGUPTA'],
+    cities: ['DELHI', 'BOMBAY', 'VARANASI', 'AGRA', 'CALCUTTA', 'BANGALORE'] },
+  { type: 'INDONESIA', name: 'Indonesia', leaders: ['GITARJA'],
+    cities: ['MAJAPAHIT', 'SURABAYA', 'BANDUNG', 'MEDAN', 'PALEMBANG', 'MAKASSAR'] },
+  { type: 'JAPAN', name: 'Japan', leaders: ['HOJO', 'TOKUGAWA'],
+    cities: ['KYOTO', 'OSAKA', 'TOKYO', 'NARA', 'KAGOSHIMA', 'KAMAKURA', 'SENDAI'] },
+  { type: 'KHMER', name: 'Khmer', leaders: ['JAYAVARMAN'], cities: ['YASODHARAPURA', 'HARIHARALAYA'] },
+  { type: 'KONGO', name: 'Kongo', leaders: ['MVEMBA', 'NZINGA_MBANDE'], cities: ['MBANZA_KONGO'] },
+  { type: 'KOREA', name: 'Korea', leaders: ['SEONDEOK', 'SEJONG'],
+    cities: ['SEOUL', 'BUSAN', 'PYONGYANG', 'INCHEON', 'DAEGU', 'GWANGJU'] },
+  { type: 'MACEDON', name: 'Macedon', leaders: ['ALEXANDER'], cities: ['PELLA', 'AIGAI', 'AMPHIPOLIS'] },
+  { type: 'MALI', name: 'Mali', leaders: ['MANSA_MUSA', 'SUNDIATA_KEITA'],
+    cities: ['NIANI', 'TIMBUKTU', 'GAO', 'DJENNE'] },
+  { type: 'MAORI', name: 'Maori', leaders: ['KUPE'],
+    cities: ['KIRIKIRIROA', 'TAMAKI_MAKAURAU', 'TE_WHANGANUI_A_TARA', 'OTAUTAHI', 'OTEPOTI', 'ROTORUA', 'TAURANGA', 'HERETAUNGA', 'WHAKATU', 'KAIKOURA'] },
+  { type: 'MAPUCHE', name: 'Mapuche', leaders: ['LAUTARO'],
+    cities: ['NGULUMAPU', 'PUELMAPU', 'TEMUCO', 'ANGOL', 'VILLARRICA', 'PUCON', 'PUREN', 'ARAUCO', 'TIRUA', 'CANETE'] },
+  { type: 'MAYA', name: 'Maya', leaders: ['LADY_SIX_SKY'], cities: ['MUTAL', 'CALAKMUL', 'CARACOL', 'COPAN'] },
+  { type: 'MONGOLIA', name: 'Mongolia', leaders: ['GENGHIS_KHAN', 'KUBLAI_KHAN_MONGOLIA'], cities: ['KARAKORUM'] },
+  { type: 'NETHERLANDS', name: 'Netherlands', leaders: ['WILHELMINA'],
+    cities: ['ROTTERDAM', 'UTRECHT', 'GRONINGEN', 'THE_HAGUE', 'LEIDEN'] },
+  { type: 'NORWAY', name: 'Norway', leaders: ['HARDRADA', 'HARALD_ALT'],
+    cities: ['NIDAROS', 'BERGEN', 'OSLO', 'STAVANGER', 'HAMAR', 'TROMSO'] },
+  { type: 'NUBIA', name: 'Nubia', leaders: ['AMANITORE'], cities: ['MEROE', 'NAPATA', 'KERMA'] },
+  { type: 'OTTOMAN', name: 'Ottoman Empire', leaders: ['SULEIMAN', 'SULEIMAN_ALT'],
+    cities: ['ISTANBUL', 'ANKARA', 'EDIRNE'] },
+  { type: 'PERSIA', name: 'Persia', leaders: ['CYRUS', 'NADER_SHAH'],
+    cities: ['PASARGADAE', 'PERSEPOLIS', 'SUSA', 'ECBATANA'] },
+  { type: 'PHOENICIA', name: 'Phoenicia', leaders: ['DIDO'],
+    cities: ['TYRE', 'SIDON', 'BYBLOS', 'ARWAD', 'BERYTUS', 'UTICA'] },
+  { type: 'POLAND', name: 'Poland', leaders: ['JADWIGA'],
+    cities: ['KRAKOW', 'WARSAW', 'POZNAN', 'WROCLAW', 'GDANSK', 'LODZ'] },
+  { type: 'PORTUGAL', name: 'Portugal', leaders: ['JOAO_III'],
+    cities: ['LISBOA', 'PORTO', 'COIMBRA', 'BRAGA', 'EVORA', 'LAGOS'] },
+  { type: 'ROME', name: 'Rome', leaders: ['TRAJAN', 'JULIUS_CAESAR'],
+    cities: ['ROME', 'ANTIUM', 'CUMAE', 'NEAPOLIS', 'RAVENNA', 'ARRETIUM', 'MEDIOLANUM'] },
+  { type: 'RUSSIA', name: 'Russia', leaders: ['PETER_GREAT'],
+    cities: ['ST_PETERSBURG', 'MOSCOW', 'NOVGOROD', 'KAZAN', 'SMOLENSK'] },
+  { type: 'SCOTLAND', name: 'Scotland', leaders: ['ROBERT_THE_BRUCE'],
+    cities: ['EDINBURGH', 'GLASGOW', 'ABERDEEN', 'DUNDEE', 'STIRLING', 'INVERNESS'] },
+  { type: 'SCYTHIA', name: 'Scythia', leaders: ['TOMYRIS'],
+    cities: ['POKROVA', 'KAMIANKA', 'GELONUS', 'KELERMES', 'TUEKTA', 'CHERTOMLYK', 'ARZHAN', 'PAZYRYK', 'SOLOKHA', 'TASMOLA'] },
+  { type: 'SPAIN', name: 'Spain', leaders: ['PHILIP_II'],
+    cities: ['MADRID', 'TOLEDO', 'SEVILLE', 'BARCELONA', 'VALENCIA', 'CORDOBA'] },
+  { type: 'SUMERIA', name: 'Sumeria', leaders: ['GILGAMESH'],
+    cities: ['URUK', 'UR', 'LAGASH', 'ERIDU', 'NIPPUR', 'KISH'] },
+  { type: 'SWEDEN', name: 'Sweden', leaders: ['KRISTINA'], cities: ['UPPSALA', 'GOTHENBURG', 'KALMAR', 'VISBY'] },
+  { type: 'VIETNAM', name: 'Vietnam', leaders: ['LADY_TRIEU'],
+    cities: ['THANG_LONG', 'HUE', 'HANOI', 'SAIGON', 'DA_NANG', 'HAI_PHONG', 'NHA_TRANG', 'CAN_THO', 'BIEN_HOA', 'VINH'] },
+  { type: 'ZULU', name: 'Zulu', leaders: ['SHAKA'], cities: ['ULUNDI'] },
+];
+
+// ============ Leaders ============
+
+export const LEADERS: LeaderReference[] = [
+  { type: 'T_ROOSEVELT', name: 'Teddy Roosevelt', persona: 'Bull Moose', civ: 'AMERICA' },
+  { type: 'T_ROOSEVELT_ROUGHRIDER', name: 'Teddy Roosevelt', persona: 'Rough Rider', civ: 'AMERICA' },
+  { type: 'ABRAHAM_LINCOLN', name: 'Abraham Lincoln', civ: 'AMERICA' },
+  { type: 'SALADIN', name: 'Saladin', persona: 'Vizier', civ: 'ARABIA' },
+  { type: 'SALADIN_ALT', name: 'Saladin', persona: 'Sultan', civ: 'ARABIA' },
+  { type: 'JOHN_CURTIN', name: 'John Curtin', civ: 'AUSTRALIA' },
+  { type: 'MONTEZUMA', name: 'Montezuma', civ: 'AZTEC' },
+  { type: 'HAMMURABI', name: 'Hammurabi', civ: 'BABYLON_STK' },
+  { type: 'PEDRO', name: 'Pedro II', civ: 'BRAZIL' },
+  { type: 'BASIL', name: 'Basil II', civ: 'BYZANTIUM' },
+  { type: 'THEODORA', name: 'Theodora', civ: 'BYZANTIUM' },
+  { type: 'LAURIER', name: 'Wilfrid Laurier', civ: 'CANADA' },
+  { type: 'QIN', name: 'Qin Shi Huang', persona: 'Mandate of Heaven', civ: 'CHINA' },
+  { type: 'QIN_ALT', name: 'Qin Shi Huang', persona: 'Unifier', civ: 'CHINA' },
+  { type: 'KUBLAI_KHAN_CHINA', name: 'Kublai Khan', civ: 'CHINA' },
+  { type: 'YONGLE', name: 'Yongle', civ: 'CHINA' },
+  { type: 'WU_ZETIAN', name: 'Wu Zetian', civ: 'CHINA' },
+  { type: 'POUNDMAKER', name: 'Poundmaker', civ: 'CREE' },
+  { type: 'CLEOPATRA', name: 'Cleopatra', persona: 'Egyptian', civ: 'EGYPT' },
+  { type: 'CLEOPATRA_ALT', name: 'Cleopatra', persona: 'Ptolemaic', civ: 'EGYPT' },
+  { type: 'RAMSES', name: 'Ramses II', civ: 'EGYPT' },
+  { type: 'VICTORIA', name: 'Victoria', persona: 'Age of Empire', civ: 'ENGLAND' },
+  { type: 'VICTORIA_ALT', name: 'Victoria', persona: 'Age of Steam', civ: 'ENGLAND' },
+  { type: 'ELEANOR_ENGLAND', name: 'Eleanor of Aquitaine', civ: 'ENGLAND' },
+  { type: 'ELIZABETH', name: 'Elizabeth I', civ: 'ENGLAND' },
+  { type: 'MENELIK', name: 'Menelik II', civ: 'ETHIOPIA' },
+  { type: 'CATHERINE_DE_MEDICI', name: 'Catherine de Medici', persona: 'Black Queen', civ: 'FRANCE' },
+  { type: 'CATHERINE_DE_MEDICI_ALT', name: 'Catherine de Medici', persona: 'Magnificence', civ: 'FRANCE' },
+  { type: 'ELEANOR_FRANCE', name: 'Eleanor of Aquitaine', civ: 'FRANCE' },
+  { type: 'AMBIORIX', name: 'Ambiorix', civ: 'GAUL' },
+  { type: 'TAMAR', name: 'Tamar', civ: 'GEORGIA' },
+  { type: 'BARBAROSSA', name: 'Frederick Barbarossa', civ: 'GERMANY' },
+  { type: 'LUDWIG', name: 'Ludwig II', civ: 'GERMANY' },
+  { type: 'SIMON_BOLIVAR', name: 'Simón Bolívar', civ: 'GRAN_COLOMBIA' },
+  { type: 'PERICLES', name: 'Pericles', civ: 'GREECE' },
+  { type: 'GORGO', name: 'Gorgo', civ: 'GREECE' },
+  { type: 'MATTHIAS_CORVINUS', name: 'Matthias Corvinus', civ: 'HUNGARY' },
+  { type: 'PACHACUTI', name: 'Pachacuti', civ: 'INCA' },
+  { type: 'GANDHI', name: 'Gandhi', civ: 'INDIA' },
+  { type: 'CHANDRAGUPTA', name: 'Chandragupta', civ: 'INDIA' },
+  { type: 'GITARJA', name: 'Gitarja', civ: 'INDONESIA' },
+  { type: 'HOJO', name: 'Hojo Tokimune', civ: 'JAPAN' },
+  { type: 'TOKUGAWA', name: 'Tokugawa', civ: 'JAPAN' },
+  { type: 'JAYAVARMAN', name: 'Jayavarman VII', civ: 'KHMER' },
+  { type: 'MVEMBA', name: 'Mvemba a Nzinga', civ: 'KONGO' },
+  { type: 'NZINGA_MBANDE', name: 'Nzinga Mbande', civ: 'KONGO' },
+  { type: 'SEONDEOK', name: 'Seondeok', civ: 'KOREA' },
+  { type: 'SEJONG', name: 'Sejong', civ: 'KOREA' },
+  { type: 'ALEXANDER', name: 'Alexander', civ: 'MACEDON' },
+  { type: 'MANSA_MUSA', name: 'Mansa Musa', civ: 'MALI' },
+  { type: 'SUNDIATA_KEITA', name: 'Sundiata Keita', civ: 'MALI' },
+  { type: 'KUPE', name: 'Kupe', civ: 'MAORI' },
+  { type: 'LAUTARO', name: 'Lautaro', civ: 'MAPUCHE' },
+  { type: 'LADY_SIX_SKY', name: 'Lady Six Sky', civ: 'MAYA' },
+  { type: 'GENGHIS_KHAN', name: 'Genghis Khan', civ: 'MONGOLIA' },
+  { type: 'KUBLAI_KHAN_MONGOLIA', name: 'Kublai Khan', civ: 'MONGOLIA' },
+  { type: 'WILHELMINA', name: 'Wilhelmina', civ: 'NETHERLANDS' },
+  { type: 'HARDRADA', name: 'Harald Hardrada', persona: 'Konge', civ: 'NORWAY' },
+  { type: 'HARALD_ALT', name: 'Harald Hardrada', persona: 'Varangian', civ: 'NORWAY' },
+  { type: 'AMANITORE', name: 'Amanitore', civ: 'NUBIA' },
+  { type: 'SULEIMAN', name: 'Suleiman', persona: 'Kanuni', civ: 'OTTOMAN' },
+  { type: 'SULEIMAN_ALT', name: 'Suleiman', persona: 'Muhteşem', civ: 'OTTOMAN' },
+  { type: 'CYRUS', name: 'Cyrus', civ: 'PERSIA' },
+  { type: 'NADER_SHAH', name: 'Nader Shah', civ: 'PERSIA' },
+  { type: 'DIDO', name: 'Dido', civ: 'PHOENICIA' },
+  { type: 'JADWIGA', name: 'Jadwiga', civ: 'POLAND' },
+  { type: 'JOAO_III', name: 'João III', civ: 'PORTUGAL' },
+  { type: 'TRAJAN', name: 'Trajan', civ: 'ROME' },
+  { type: 'JULIUS_CAESAR', name: 'Julius Caesar', civ: 'ROME' },
+  { type: 'PETER_GREAT', name: 'Peter the Great', civ: 'RUSSIA' },
+  { type: 'ROBERT_THE_BRUCE', name: 'Robert the Bruce', civ: 'SCOTLAND' },
+  { type: 'TOMYRIS', name: 'Tomyris', civ: 'SCYTHIA' },
+  { type: 'PHILIP_II', name: 'Philip II', civ: 'SPAIN' },
+  { type: 'GILGAMESH', name: 'Gilgamesh', civ: 'SUMERIA' },
+  { type: 'KRISTINA', name: 'Kristina', civ: 'SWEDEN' },
+  { type: 'LADY_TRIEU', name: 'Bà Triệu', civ: 'VIETNAM' },
+  { type: 'SHAKA', name: 'Shaka', civ: 'ZULU' },
+];
+
+// ============ City-States ============
+
+function cityStates(cityStateType: CityStateType, entries: [string, string][]): CityStateReference[] {
+  return entries.map(([type, name]) => ({ type, name, cityStateType }));
+}
+
+export const CITY_STATES: CityStateReference[] = [
+  ...cityStates('Cultural', [
+    ['ANTANANARIVO', 'Antananarivo'], ['AYUTTHAYA', 'Ayutthaya'], ['CAGUANA', 'Caguana'],
+    ['KUMASI', 'Kumasi'], ['MOHENJO_DARO', 'Mohenjo-Daro'], ['NAN_MADOL', 'Nan Madol'],
+    ['RAPA_NUI', 'Rapa Nui'], ['VILNIUS', 'Vilnius'],
+  ]),
+  ...cityStates('Industrial', [
+    ['AUCKLAND', 'Auckland'], ['BRUSSELS', 'Brussels'], ['BUENOS_AIRES', 'Buenos Aires'],
+    ['CARDIFF', 'Cardiff'], ['HONG_KONG', 'Hong Kong'], ['JOHANNESBURG', 'Johannesburg'],
+    ['MEXICO_CITY', 'Mexico City'], ['SINGAPORE', 'Singapore'], ['TORONTO', 'Toronto'],
+  ]),
+  ...cityStates('Militaristic', [
+    ['AKKAD', 'Akkad'], ['CARTHAGE', 'Carthage'], ['GRANADA', 'Granada'], ['KABUL', 'Kabul'],
+    ['LAHORE', 'Lahore'], ['NGAZARGAMU', 'Ngazargamu'], ['PRESLAV', 'Preslav'],
+    ['VALLETTA', 'Valletta'], ['WOLIN', 'Wolin'],
+  ]),
+  ...cityStates('Religious', [
+    ['ARMAGH', 'Armagh'], ['CHINGUETTI', 'Chinguetti'], ['JERUSALEM', 'Jerusalem'],
+    ['KANDY', 'Kandy'], ['LA_VENTA', 'La Venta'], ['NAZCA', 'Nazca'],
+    ['VATICAN_CITY', 'Vatican City'], ['YEREVAN', 'Yerevan'],
+  ]),
+  ...cityStates('Scientific', [
+    ['BABYLON', 'Babylon'], ['BOLOGNA', 'Bologna'], ['FEZ', 'Fez'], ['GENEVA', 'Geneva'],
+    ['HATTUSA', 'Hattusa'], ['MITLA', 'Mitla'], ['NALANDA', 'Nalanda'], ['PALENQUE', 'Palenque'],
+    ['SEOUL', 'Seoul'], ['STOCKHOLM', 'Stockholm'], ['TARUGA', 'Taruga'],
+  ]),
+  ...cityStates('Trade', [
+    ['AMSTERDAM', 'Amsterdam'], ['ANTIOCH', 'Antioch'], ['BANDAR_BRUNEI', 'Bandar Brunei'],
+    ['CAHOKIA', 'Cahokia'], ['HUNZA', 'Hunza'], ['JAKARTA', 'Jakarta'], ['LISBON', 'Lisbon'],
+    ['MOGADISHU', 'Mogadishu'], ['MUSCAT', 'Muscat'], ['SAMARKAND', 'Samarkand'],
+    ['ZANZIBAR', 'Zanzibar'],
+  ]),
+];
+
+// ============ Other Players ============
+
+// Players that are neither civs nor city-states
+export const OTHER_PLAYERS: Record<string, string> = {
+  FREE_CITIES: 'Free Cities',
+  BARBARIAN: 'Barbarians',
+};
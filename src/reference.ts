@@ -0,0 +1,159 @@
+import { localizeType } from './localization.js';
+import { normalizeName } from './names.js';
+import { CITY_STATES, CIVILIZATIONS, LEADERS, OTHER_PLAYERS } from './reference-data.js';
+import type { CityStateReference, CivReference, LeaderReference, UnknownName } from './types.js';
+
+// Lookups over the bundled reference data (reference-data.ts), shared by the
+// save, history and log parsers. Display names come from the game text when
+// it's loaded (localization.ts). Names the data doesn't know are still shown,
+// title-cased, but recorded so tools can report them.
+
+// ============ Indexes ============
+
+// Keyed by normalized type and normalized display name, so "CIVILIZATION_ROME", "ROME" and "Rome" all match
+function buildIndex<T extends { type: string; name: string }>(entries: T[], byName: boolean): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const entry of entries) {
+    index.set(normalizeName(entry.type), entry);
+  }
+  if (byName) {
+    for (const entry of entries) {
+      const key = normalizeName(entry.name);
+      if (!index.has(key)) index.set(key, entry);
+    }
+  }
+  return index;
+}
+
+const CIV_INDEX = buildIndex(CIVILIZATIONS, true);
+const LEADER_INDEX = buildIndex(LEADERS, true);
+const CITY_STATE_INDEX = buildIndex(CITY_STATES, true);
+
+const CITY_TO_CIV = new Map<string, string>(
+  CIVILIZATIONS.flatMap(civ => civ.cities.map(city => [city, civ.type] as [string, string]))
+);
+
+function stripPrefix(raw: string, prefix: string): string {
+  return raw.startsWith(prefix) ? raw.slice(prefix.length) : raw;
+}
+
+function titleCase(raw: string): string {
+  return raw.split('_')
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join(' ');
+}
+
+// ============ Unknown Names ============
+
+const unknownNames = new Map<string, UnknownName>();
+
+function reportUnknown(kind: UnknownName['kind'], raw: string): void {
+  const key = `${kind}:${raw}`;
+  if (unknownNames.has(key)) return;
+  unknownNames.set(key, { kind, raw });
+  console.error(`Unknown ${kind} "${raw}" is not in the reference data; showing it as "${titleCase(raw)}".`);
+}
+
+/**
+ * Names seen since the server started that the reference data doesn't cover.
+ */
+export function getUnknownNames(): UnknownName[] {
+  return [...unknownNames.values()];
+}
+
+/**
+ * A short note listing unknown names, or null when there are none.
+ */
+export function formatUnknownNames(names: UnknownName[] = getUnknownNames()): string | null {
+  if (names.length === 0) return null;
+  const list = names.map(n => `${n.raw} (${n.kind})`).join(', ');
+  return `*Not in the reference data, so shown title-cased: ${list}. These may come from a mod or a newer game update.*`;
+}
+
+// ============ Lookups ============
+
+/**
+ * A civilization by type ("CIVILIZATION_ROME", "ROME") or name ("Rome").
+ */
+export function lookupCiv(nameOrType: string): CivReference | undefined {
+  return CIV_INDEX.get(normalizeName(stripPrefix(nameOrType, 'CIVILIZATION_')));
+}
+
+/**
+ * A leader persona by type ("LEADER_SALADIN_ALT", "SALADIN_ALT") or name ("Saladin", giving the base persona).
+ */
+export function lookupLeader(nameOrType: string): LeaderReference | undefined {
+  return LEADER_INDEX.get(normalizeName(stripPrefix(nameOrType, 'LEADER_')));
+}
+
+/**
+ * A city-state by type ("CIVILIZATION_GENEVA", "GENEVA") or name ("Geneva").
+ */
+export function lookupCityState(nameOrType: string): CityStateReference | undefined {
+  return CITY_STATE_INDEX.get(normalizeName(stripPrefix(nameOrType, 'CIVILIZATION_')));
+}
+
+export function isCityState(nameOrType: string): boolean {
+  return lookupCityState(nameOrType) !== undefined;
+}
+
+/**
+ * The civ type whose default city names include a city, if any.
+ * Accepts the raw log name ("LOC_CITY_NAME_ROME") or the bare key ("ROME").
+ */
+export function findCivForCity(city: string): string | undefined {
+  const key = city.replace(/^LOC_CITY_NAME_/, '').replace(/^LOC_CITY_/, '').toUpperCase();
+  return CITY_TO_CIV.get(key);
+}
+
+// ============ Display Names ============
+
+/**
+ * Display name for any player type: civ, city-state, Free Cities or Barbarians.
+ * Unknown types are title-cased and reported.
+ */
+export function civDisplayName(rawType: string): string {
+  const raw = stripPrefix(rawType, 'CIVILIZATION_');
+  const civ = lookupCiv(raw) ?? lookupCityState(raw);
+  if (civ) return localizeType(`CIVILIZATION_${civ.type}`) ?? civ.name;
+
+  const known = OTHER_PLAYERS[raw];
+  if (known) return known;
+
+  reportUnknown('civilization', raw);
+  return titleCase(raw);
+}
+
+/**
+ * Display name for a leader type. Unknown types are title-cased and reported.
+ */
+export function leaderDisplayName(rawType: string): string {
+  const raw = stripPrefix(rawType, 'LEADER_');
+  const leader = lookupLeader(raw);
+  if (leader) return localizeType(`LEADER_${leader.type}`) ?? leader.name;
+
+  reportUnknown('leader', raw);
+  return titleCase(raw);
+}
+
+/**
+ * The civ's base leader, for sources (like the logs) that only name the civ.
+ * City-states and other players are their own leader.
+ */
+export function defaultLeaderName(rawCivType: string): string {
+  const civ = lookupCiv(stripPrefix(rawCivType, 'CIVILIZATION_'));
+  if (civ) return leaderDisplayName(civ.leaders[0]);
+  return civDisplayName(rawCivType);
+}
+
+/**
+ * Display name for a city-state, with its type when known: "Geneva (Scientific)".
+ */
+export function cityStateLabel(nameOrType: string): string {
+  const cityState = lookupCityState(nameOrType);
+  if (cityState) return `${civDisplayName(cityState.type)} (${cityState.cityStateType})`;
+
+  const raw = stripPrefix(nameOrType, 'CIVILIZATION_');
+  reportUnknown('city-state', raw);
+  return titleCase(raw);
+}
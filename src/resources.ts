@@ -0,0 +1,264 @@
+import {
+  getLatestTurnStats,
+  getLatestTurnStatsFullCivsOnly,
+  getStatsForTurn,
+} from './history-parser.js';
+import {
+  buildPlayerIdMap,
+  generateStrategicOverview,
+  getLatestRelations,
+  latestTurnRecords,
+  parseCityFoundingStats,
+  parseCityProduction,
+  parseDiplomacy,
+  parseMilitaryIntel,
+  parseTechStatus,
+} from './logs-parser.js';
+import { listSaveFiles, parseSaveFile } from './parser.js';
+import { getLogsDirectory, getSavesDirectory } from './paths.js';
+import { normalizeName } from './names.js';
+import { resolvePlayer } from './player-identity.js';
+import type { CivStatistics } from './types.js';
+
+// ============ Resource Definitions ============
+
+export const CURRENT_TURN_URI = 'civ6://turn/latest';
+
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateInfo {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface ResourceDirectories {
+  logsDir?: string;
+  savesDir?: string;
+}
+
+const STATIC_RESOURCES: ResourceInfo[] = [
+  {
+    uri: CURRENT_TURN_URI,
+    name: 'Current turn briefing',
+    description: 'Strategic overview for the latest complete turn. Subscribe to be notified when a new turn ends.',
+    mimeType: 'text/markdown',
+  },
+  {
+    uri: 'civ6://stats/latest',
+    name: 'Latest civ statistics',
+    description: 'Per-civ statistics (yields, units, territory, score) for the latest complete turn',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'civ6://diplomacy/latest',
+    name: 'Latest diplomatic relations',
+    description: 'Most recent diplomatic state, score, threat and trust for every pair of players',
+    mimeType: 'application/json',
+  },
+];
+
+const RESOURCE_TEMPLATES: ResourceTemplateInfo[] = [
+  {
+    uriTemplate: 'civ6://stats/turn/{n}',
+    name: 'Civ statistics for a turn',
+    description: 'Per-civ statistics for turn n, including city-states',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'civ6://civ/{name}',
+    name: 'Civilization dossier',
+    description: 'Latest stats, relations, military posture, research and known cities for one civilization (name or leader)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'civ6://production/{civ}',
+    name: 'City production',
+    description: 'Current build queue for the cities of one civilization, or "all" for every city',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'civ6://saves/{name}',
+    name: 'Save file',
+    description: 'Parsed header of a save file (file name as listed in the saves directory)',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * List fixed resources plus one resource per save file.
+ */
+export function listResources(dirs: ResourceDirectories = {}): ResourceInfo[] {
+  const saves = listSaveFiles('all', dirs.savesDir || getSavesDirectory());
+  return [
+    ...STATIC_RESOURCES,
+    ...saves.map(save => ({
+      uri: `civ6://saves/${encodeURIComponent(save.name)}`,
+      name: save.name,
+      description: `Save file${save.turn !== undefined ? ` (turn ${save.turn})` : ''}, modified ${save.modified}`,
+      mimeType: 'application/json',
+    })),
+  ];
+}
+
+export function listResourceTemplates(): ResourceTemplateInfo[] {
+  return RESOURCE_TEMPLATES;
+}
+
+// ============ Helpers ============
+
+function findCiv(stats: CivStatistics[], name: string): CivStatistics | undefined {
+  const target = normalizeName(name);
+  return stats.find(s =>
+    normalizeName(s.civilization) === target ||
+    normalizeName(s.leader) === target ||
+    normalizeName(s.rawCivName) === target
+  );
+}
+
+// Mid-turn the newest turn may only hold the player's own row, so fall back to the last complete turn
+function findLatestCivStats(name: string, logsDir: string): CivStatistics | undefined {
+  return findCiv(getLatestTurnStats(logsDir) || [], name)
+    || findCiv(getLatestTurnStatsFullCivsOnly(logsDir) || [], name);
+}
+
+// A city's latest owner from the owner-attributed production records, so captured
+// cities move to their new owner; cities without production rows fall back to
+// who founded them (AI_CityBuild.csv)
+function citiesOfPlayer(playerId: number, logsDir: string): Set<string> {
+  const owners = new Map<string, number | null>();
+  for (const record of parseCityProduction(logsDir)) {
+    owners.set(record.city, record.ownerId);
+  }
+
+  const cities = new Set([...owners].filter(([, ownerId]) => ownerId === playerId).map(([city]) => city));
+  for (const founding of parseCityFoundingStats(logsDir)) {
+    if (founding.playerId === playerId && !owners.has(founding.city)) {
+      cities.add(founding.city);
+    }
+  }
+  return cities;
+}
+
+function playerIdOf(civ: CivStatistics, logsDir: string): number | undefined {
+  for (const [id, rawName] of buildPlayerIdMap(logsDir)) {
+    if (rawName === civ.rawCivName) return id;
+  }
+  return undefined;
+}
+
+function json(uri: string, data: unknown): ResourceContents {
+  return { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+}
+
+// ============ Resource Reading ============
+
+function readCurrentTurn(logsDir: string, savesDir: string): string {
+  const stats = getLatestTurnStatsFullCivsOnly(logsDir);
+  if (!stats || stats.length === 0) {
+    return `No game data available yet. Enable logging (GameHistoryLogLevel=1) and play at least one turn.\n\nLogs directory: ${logsDir}`;
+  }
+  return generateStrategicOverview(stats, resolvePlayer({ logsDir, savesDir })?.civilization, logsDir);
+}
+
+function readCivDossier(uri: string, name: string, logsDir: string): ResourceContents {
+  const civ = findLatestCivStats(name, logsDir);
+  if (!civ) {
+    const known = (getLatestTurnStatsFullCivsOnly(logsDir) || []).map(s => s.civilization);
+    throw new Error(`Unknown civilization: ${name}. Known: ${known.join(', ') || 'none (no game data)'}`);
+  }
+
+  const playerId = playerIdOf(civ, logsDir);
+  const relations = getLatestRelations(parseDiplomacy(logsDir))
+    .filter(r => r.fromPlayerId === playerId || r.toPlayerId === playerId);
+  const military = parseMilitaryIntel(logsDir).filter(m => m.playerId === playerId).pop() || null;
+  const research = parseTechStatus(logsDir).filter(t => t.playerId === playerId);
+  const latestResearchTurn = research.length > 0 ? research.reduce((turn, t) => Math.max(turn, t.turn), -Infinity) : null;
+  const cities = playerId !== undefined ? [...citiesOfPlayer(playerId, logsDir)] : [];
+
+  return json(uri, {
+    playerId: playerId ?? null,
+    stats: civ,
+    relations,
+    military,
+    research: research.filter(t => t.turn === latestResearchTurn),
+    cities,
+  });
+}
+
+function readProduction(uri: string, civName: string, logsDir: string): ResourceContents {
+  const production = latestTurnRecords(parseCityProduction(logsDir));
+  if (normalizeName(civName) === 'all') {
+    return json(uri, production);
+  }
+
+  const civ = findLatestCivStats(civName, logsDir);
+  const playerId = civ ? playerIdOf(civ, logsDir) : undefined;
+  if (playerId === undefined) {
+    throw new Error(`Unknown civilization: ${civName}`);
+  }
+
+  return json(uri, production.filter(p => p.ownerId === playerId));
+}
+
+function readSave(uri: string, name: string, savesDir: string): ResourceContents {
+  const save = listSaveFiles('all', savesDir).find(s => s.name === name);
+  if (!save) {
+    throw new Error(`Save file not found: ${name} (in ${savesDir})`);
+  }
+  return json(uri, { file: save, state: parseSaveFile(save.path) });
+}
+
+/**
+ * Read a resource by URI. Throws for unknown URIs.
+ */
+export function readResource(uri: string, dirs: ResourceDirectories = {}): ResourceContents {
+  const logsDir = dirs.logsDir || getLogsDirectory();
+  const savesDir = dirs.savesDir || getSavesDirectory();
+
+  if (uri === CURRENT_TURN_URI) {
+    return { uri, mimeType: 'text/markdown', text: readCurrentTurn(logsDir, savesDir) };
+  }
+
+  if (uri === 'civ6://stats/latest') {
+    return json(uri, getLatestTurnStatsFullCivsOnly(logsDir) || []);
+  }
+
+  if (uri === 'civ6://diplomacy/latest') {
+    return json(uri, getLatestRelations(parseDiplomacy(logsDir)));
+  }
+
+  const turnMatch = uri.match(/^civ6:\/\/stats\/turn\/(\d+)$/);
+  if (turnMatch) {
+    return json(uri, getStatsForTurn(parseInt(turnMatch[1], 10), logsDir) || []);
+  }
+
+  const civMatch = uri.match(/^civ6:\/\/civ\/([^/]+)$/);
+  if (civMatch) {
+    return readCivDossier(uri, decodeURIComponent(civMatch[1]), logsDir);
+  }
+
+  const productionMatch = uri.match(/^civ6:\/\/production\/([^/]+)$/);
+  if (productionMatch) {
+    return readProduction(uri, decodeURIComponent(productionMatch[1]), logsDir);
+  }
+
+  const saveMatch = uri.match(/^civ6:\/\/saves\/([^/]+)$/);
+  if (saveMatch) {
+    return readSave(uri, decodeURIComponent(saveMatch[1]), savesDir);
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
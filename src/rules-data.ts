@@ -0,0 +1,330 @@
+import type { GameRule, ProjectCategory } from './types.js';
+
+// Bundled snapshot of the game rules (base game with both expansions) for
+// standard units, buildings, world wonders and projects. Used when the
+// install's Gameplay XML can't be read; unique units and buildings are left
+// to the game data.
+
+type Prereq = string | null;  // "TECH_*" or "CIVIC_*"
+
+function prereqs(prereq: Prereq): Pick<GameRule, 'prereqTech' | 'prereqCivic'> {
+  return {
+    prereqTech: prereq?.startsWith('TECH_') ? prereq : null,
+    prereqCivic: prereq?.startsWith('CIVIC_') ? prereq : null,
+  };
+}
+
+// [type, cost, era, prereq, combat, ranged, bombard]
+type UnitRow = [string, number, string, Prereq, number, number, number];
+
+function units(unitClass: string | null, rows: UnitRow[]): GameRule[] {
+  return rows.map(([type, cost, era, prereq, combat, ranged, bombard]) => ({
+    type,
+    kind: 'unit',
+    cost,
+    era,
+    ...prereqs(prereq),
+    unitClass,
+    combat: combat || null,
+    rangedCombat: ranged || null,
+    bombard: bombard || null,
+    projectCategory: null,
+  }));
+}
+
+// [type, cost, era, prereq]
+type ItemRow = [string, number, string, Prereq];
+
+function items(kind: 'building' | 'wonder', rows: ItemRow[]): GameRule[] {
+  return rows.map(([type, cost, era, prereq]) => ({
+    type,
+    kind,
+    cost,
+    era,
+    ...prereqs(prereq),
+    unitClass: null,
+    combat: null,
+    rangedCombat: null,
+    bombard: null,
+    projectCategory: null,
+  }));
+}
+
+function projects(projectCategory: ProjectCategory, rows: ItemRow[]): GameRule[] {
+  return rows.map(([type, cost, era, prereq]) => ({
+    type,
+    kind: 'project',
+    cost,
+    era,
+    ...prereqs(prereq),
+    unitClass: null,
+    combat: null,
+    rangedCombat: null,
+    bombard: null,
+    projectCategory,
+  }));
+}
+
+export const RULES_SNAPSHOT: GameRule[] = [
+  // ============ Units ============
+
+  ...units('PROMOTION_CLASS_MELEE', [
+    ['UNIT_WARRIOR', 40, 'ERA_ANCIENT', null, 20, 0, 0],
+    ['UNIT_SWORDSMAN', 90, 'ERA_ANCIENT', 'TECH_IRON_WORKING', 35, 0, 0],
+    ['UNIT_MAN_AT_ARMS', 160, 'ERA_MEDIEVAL', 'TECH_APPRENTICESHIP', 45, 0, 0],
+    ['UNIT_MUSKETMAN', 240, 'ERA_RENAISSANCE', 'TECH_GUNPOWDER', 55, 0, 0],
+    ['UNIT_LINE_INFANTRY', 360, 'ERA_INDUSTRIAL', 'TECH_MILITARY_SCIENCE', 65, 0, 0],
+    ['UNIT_INFANTRY', 430, 'ERA_MODERN', 'TECH_REPLACEABLE_PARTS', 70, 0, 0],
+    ['UNIT_MECHANIZED_INFANTRY', 650, 'ERA_INFORMATION', 'TECH_SATELLITES', 85, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_ANTI_CAVALRY', [
+    ['UNIT_SPEARMAN', 65, 'ERA_ANCIENT', 'TECH_BRONZE_WORKING', 25, 0, 0],
+    ['UNIT_PIKEMAN', 200, 'ERA_MEDIEVAL', 'TECH_MILITARY_TACTICS', 45, 0, 0],
+    ['UNIT_PIKE_AND_SHOT', 250, 'ERA_RENAISSANCE', 'TECH_MILITARY_SCIENCE', 55, 0, 0],
+    ['UNIT_AT_CREW', 400, 'ERA_MODERN', 'TECH_CHEMISTRY', 70, 0, 0],
+    ['UNIT_MODERN_AT', 580, 'ERA_INFORMATION', 'TECH_COMPOSITES', 80, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_RECON', [
+    ['UNIT_SCOUT', 30, 'ERA_ANCIENT', null, 10, 0, 0],
+    ['UNIT_SKIRMISHER', 150, 'ERA_MEDIEVAL', 'TECH_MACHINERY', 20, 30, 0],
+    ['UNIT_RANGER', 380, 'ERA_INDUSTRIAL', 'TECH_RIFLING', 45, 60, 0],
+    ['UNIT_SPEC_OPS', 310, 'ERA_ATOMIC', 'TECH_ROCKETRY', 65, 75, 0],
+  ]),
+  ...units('PROMOTION_CLASS_LIGHT_CAVALRY', [
+    ['UNIT_HORSEMAN', 80, 'ERA_CLASSICAL', 'TECH_HORSEBACK_RIDING', 36, 0, 0],
+    ['UNIT_COURSER', 200, 'ERA_MEDIEVAL', 'TECH_CASTLES', 44, 0, 0],
+    ['UNIT_CAVALRY', 330, 'ERA_INDUSTRIAL', 'TECH_MILITARY_SCIENCE', 62, 0, 0],
+    ['UNIT_HELICOPTER', 480, 'ERA_ATOMIC', 'TECH_SYNTHETIC_MATERIALS', 82, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_HEAVY_CAVALRY', [
+    ['UNIT_HEAVY_CHARIOT', 65, 'ERA_ANCIENT', 'TECH_THE_WHEEL', 28, 0, 0],
+    ['UNIT_KNIGHT', 180, 'ERA_MEDIEVAL', 'TECH_STIRRUPS', 48, 0, 0],
+    ['UNIT_CUIRASSIER', 330, 'ERA_INDUSTRIAL', 'TECH_BALLISTICS', 64, 0, 0],
+    ['UNIT_TANK', 480, 'ERA_MODERN', 'TECH_COMBUSTION', 80, 0, 0],
+    ['UNIT_MODERN_ARMOR', 680, 'ERA_INFORMATION', 'TECH_COMPOSITES', 90, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_RANGED', [
+    ['UNIT_SLINGER', 35, 'ERA_ANCIENT', null, 5, 15, 0],
+    ['UNIT_ARCHER', 60, 'ERA_ANCIENT', 'TECH_ARCHERY', 15, 25, 0],
+    ['UNIT_CROSSBOWMAN', 180, 'ERA_MEDIEVAL', 'TECH_MACHINERY', 30, 40, 0],
+    ['UNIT_FIELD_CANNON', 330, 'ERA_INDUSTRIAL', 'TECH_BALLISTICS', 50, 60, 0],
+    ['UNIT_MACHINE_GUN', 540, 'ERA_ATOMIC', 'TECH_ADVANCED_BALLISTICS', 65, 75, 0],
+  ]),
+  ...units('PROMOTION_CLASS_SIEGE', [
+    ['UNIT_CATAPULT', 120, 'ERA_CLASSICAL', 'TECH_ENGINEERING', 23, 0, 35],
+    ['UNIT_TREBUCHET', 200, 'ERA_MEDIEVAL', 'TECH_MILITARY_ENGINEERING', 35, 0, 45],
+    ['UNIT_BOMBARD', 280, 'ERA_RENAISSANCE', 'TECH_METAL_CASTING', 43, 0, 55],
+    ['UNIT_ARTILLERY', 430, 'ERA_INDUSTRIAL', 'TECH_STEEL', 60, 0, 70],
+    ['UNIT_ROCKET_ARTILLERY', 680, 'ERA_INFORMATION', 'TECH_GUIDANCE_SYSTEMS', 70, 0, 80],
+  ]),
+  ...units('PROMOTION_CLASS_NAVAL_MELEE', [
+    ['UNIT_GALLEY', 65, 'ERA_ANCIENT', 'TECH_SAILING', 30, 0, 0],
+    ['UNIT_CARAVEL', 240, 'ERA_RENAISSANCE', 'TECH_CARTOGRAPHY', 55, 0, 0],
+    ['UNIT_IRONCLAD', 380, 'ERA_INDUSTRIAL', 'TECH_STEAM_POWER', 60, 0, 0],
+    ['UNIT_DESTROYER', 540, 'ERA_MODERN', 'TECH_COMBUSTION', 85, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_NAVAL_RANGED', [
+    ['UNIT_QUADRIREME', 120, 'ERA_CLASSICAL', 'TECH_SHIPBUILDING', 20, 25, 0],
+    ['UNIT_FRIGATE', 280, 'ERA_RENAISSANCE', 'TECH_SQUARE_RIGGING', 45, 55, 0],
+    ['UNIT_BATTLESHIP', 430, 'ERA_MODERN', 'TECH_STEEL', 60, 70, 0],
+    ['UNIT_MISSILE_CRUISER', 680, 'ERA_INFORMATION', 'TECH_LASERS', 70, 85, 0],
+  ]),
+  ...units('PROMOTION_CLASS_NAVAL_RAIDER', [
+    ['UNIT_PRIVATEER', 280, 'ERA_RENAISSANCE', 'CIVIC_MERCANTILISM', 40, 50, 0],
+    ['UNIT_SUBMARINE', 480, 'ERA_MODERN', 'TECH_ELECTRICITY', 65, 75, 0],
+    ['UNIT_NUCLEAR_SUBMARINE', 680, 'ERA_INFORMATION', 'TECH_TELECOMMUNICATIONS', 80, 85, 0],
+  ]),
+  ...units('PROMOTION_CLASS_NAVAL_CARRIER', [
+    ['UNIT_AIRCRAFT_CARRIER', 540, 'ERA_ATOMIC', 'TECH_COMBINED_ARMS', 65, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_AIR_FIGHTER', [
+    ['UNIT_BIPLANE', 430, 'ERA_MODERN', 'TECH_FLIGHT', 80, 75, 0],
+    ['UNIT_FIGHTER', 520, 'ERA_ATOMIC', 'TECH_ADVANCED_FLIGHT', 100, 95, 0],
+    ['UNIT_JET_FIGHTER', 650, 'ERA_INFORMATION', 'TECH_LASERS', 110, 105, 0],
+  ]),
+  ...units('PROMOTION_CLASS_AIR_BOMBER', [
+    ['UNIT_BOMBER', 560, 'ERA_ATOMIC', 'TECH_ADVANCED_FLIGHT', 85, 0, 110],
+    ['UNIT_JET_BOMBER', 680, 'ERA_INFORMATION', 'TECH_STEALTH_TECHNOLOGY', 80, 0, 120],
+  ]),
+  ...units('PROMOTION_CLASS_SUPPORT', [
+    ['UNIT_BATTERING_RAM', 65, 'ERA_ANCIENT', 'TECH_BRONZE_WORKING', 0, 0, 0],
+    ['UNIT_SIEGE_TOWER', 100, 'ERA_CLASSICAL', 'TECH_CONSTRUCTION', 0, 0, 0],
+    ['UNIT_MEDIC', 370, 'ERA_INDUSTRIAL', 'TECH_SANITATION', 0, 0, 0],
+    ['UNIT_OBSERVATION_BALLOON', 240, 'ERA_INDUSTRIAL', 'TECH_STEAM_POWER', 0, 0, 0],
+    ['UNIT_SUPPLY_CONVOY', 400, 'ERA_MODERN', 'TECH_REPLACEABLE_PARTS', 0, 0, 0],
+    ['UNIT_ANTIAIR_GUN', 455, 'ERA_MODERN', 'TECH_ADVANCED_BALLISTICS', 60, 0, 0],
+    ['UNIT_DRONE', 430, 'ERA_ATOMIC', 'TECH_ADVANCED_FLIGHT', 0, 0, 0],
+    ['UNIT_MOBILE_SAM', 590, 'ERA_INFORMATION', 'TECH_GUIDANCE_SYSTEMS', 75, 0, 0],
+  ]),
+  ...units('PROMOTION_CLASS_GIANT_DEATH_ROBOT', [
+    ['UNIT_GIANT_DEATH_ROBOT', 1500, 'ERA_INFORMATION', 'TECH_ROBOTICS', 130, 0, 130],
+  ]),
+  ...units(null, [
+    ['UNIT_SETTLER', 80, 'ERA_ANCIENT', null, 0, 0, 0],
+    ['UNIT_BUILDER', 50, 'ERA_ANCIENT', null, 0, 0, 0],
+    ['UNIT_TRADER', 40, 'ERA_ANCIENT', 'CIVIC_FOREIGN_TRADE', 0, 0, 0],
+    ['UNIT_MILITARY_ENGINEER', 170, 'ERA_MEDIEVAL', 'TECH_MILITARY_ENGINEERING', 0, 0, 0],
+    ['UNIT_SPY', 225, 'ERA_RENAISSANCE', 'CIVIC_DIPLOMATIC_SERVICE', 0, 0, 0],
+    ['UNIT_ARCHAEOLOGIST', 400, 'ERA_INDUSTRIAL', 'CIVIC_NATURAL_HISTORY', 0, 0, 0],
+    ['UNIT_NATURALIST', 600, 'ERA_MODERN', 'CIVIC_CONSERVATION', 0, 0, 0],
+  ]),
+
+  // ============ Buildings ============
+
+  ...items('building', [
+    ['BUILDING_MONUMENT', 60, 'ERA_ANCIENT', null],
+    ['BUILDING_GRANARY', 65, 'ERA_ANCIENT', 'TECH_POTTERY'],
+    ['BUILDING_WATER_MILL', 80, 'ERA_ANCIENT', 'TECH_THE_WHEEL'],
+    ['BUILDING_WALLS', 100, 'ERA_ANCIENT', 'TECH_MASONRY'],
+    ['BUILDING_LIBRARY', 90, 'ERA_ANCIENT', 'TECH_WRITING'],
+    ['BUILDING_SHRINE', 70, 'ERA_ANCIENT', 'TECH_ASTROLOGY'],
+    ['BUILDING_BARRACKS', 90, 'ERA_ANCIENT', 'TECH_BRONZE_WORKING'],
+    ['BUILDING_MARKET', 120, 'ERA_ANCIENT', 'TECH_CURRENCY'],
+    ['BUILDING_LIGHTHOUSE', 120, 'ERA_ANCIENT', 'TECH_CELESTIAL_NAVIGATION'],
+    ['BUILDING_STABLE', 120, 'ERA_CLASSICAL', 'TECH_HORSEBACK_RIDING'],
+    ['BUILDING_AMPHITHEATER', 150, 'ERA_CLASSICAL', 'CIVIC_DRAMA_POETRY'],
+    ['BUILDING_TEMPLE', 120, 'ERA_CLASSICAL', 'CIVIC_THEOLOGY'],
+    ['BUILDING_ARENA', 150, 'ERA_CLASSICAL', 'CIVIC_GAMES_RECREATION'],
+    ['BUILDING_WORKSHOP', 195, 'ERA_MEDIEVAL', 'TECH_APPRENTICESHIP'],
+    ['BUILDING_UNIVERSITY', 250, 'ERA_MEDIEVAL', 'TECH_EDUCATION'],
+    ['BUILDING_ARMORY', 195, 'ERA_MEDIEVAL', 'TECH_MILITARY_ENGINEERING'],
+    ['BUILDING_CASTLE', 225, 'ERA_MEDIEVAL', 'TECH_CASTLES'],
+    ['BUILDING_BANK', 290, 'ERA_RENAISSANCE', 'TECH_BANKING'],
+    ['BUILDING_STAR_FORT', 305, 'ERA_RENAISSANCE', 'TECH_SIEGE_TACTICS'],
+    ['BUILDING_SHIPYARD', 290, 'ERA_RENAISSANCE', 'TECH_MASS_PRODUCTION'],
+    ['BUILDING_MUSEUM_ART', 290, 'ERA_RENAISSANCE', 'CIVIC_HUMANISM'],
+    ['BUILDING_MUSEUM_ARTIFACT', 290, 'ERA_RENAISSANCE', 'CIVIC_HUMANISM'],
+    ['BUILDING_FACTORY', 390, 'ERA_INDUSTRIAL', 'TECH_INDUSTRIALIZATION'],
+    ['BUILDING_SEWER', 200, 'ERA_INDUSTRIAL', 'TECH_SANITATION'],
+    ['BUILDING_ZOO', 445, 'ERA_INDUSTRIAL', 'CIVIC_NATURAL_HISTORY'],
+    ['BUILDING_MILITARY_ACADEMY', 390, 'ERA_INDUSTRIAL', 'TECH_MILITARY_SCIENCE'],
+    ['BUILDING_COAL_POWER_PLANT', 300, 'ERA_INDUSTRIAL', 'TECH_INDUSTRIALIZATION'],
+    ['BUILDING_SEAPORT', 390, 'ERA_INDUSTRIAL', 'TECH_ELECTRICITY'],
+    ['BUILDING_STOCK_EXCHANGE', 390, 'ERA_MODERN', 'TECH_ECONOMICS'],
+    ['BUILDING_BROADCAST_CENTER', 580, 'ERA_MODERN', 'TECH_RADIO'],
+    ['BUILDING_HANGAR', 465, 'ERA_MODERN', 'TECH_FLIGHT'],
+    ['BUILDING_STADIUM', 660, 'ERA_ATOMIC', 'CIVIC_PROFESSIONAL_SPORTS'],
+    ['BUILDING_RESEARCH_LAB', 440, 'ERA_ATOMIC', 'TECH_CHEMISTRY'],
+    ['BUILDING_AIRPORT', 600, 'ERA_ATOMIC', 'TECH_ADVANCED_FLIGHT'],
+    ['BUILDING_POWER_PLANT', 300, 'ERA_ATOMIC', 'TECH_NUCLEAR_FISSION'],
+  ]),
+
+  // ============ World Wonders ============
+
+  ...items('wonder', [
+    ['BUILDING_PYRAMIDS', 220, 'ERA_ANCIENT', 'TECH_MASONRY'],
+    ['BUILDING_STONEHENGE', 180, 'ERA_ANCIENT', 'TECH_ASTROLOGY'],
+    ['BUILDING_HANGING_GARDENS', 180, 'ERA_ANCIENT', 'TECH_IRRIGATION'],
+    ['BUILDING_ORACLE', 290, 'ERA_ANCIENT', 'CIVIC_MYSTICISM'],
+    ['BUILDING_TEMPLE_ARTEMIS', 180, 'ERA_ANCIENT', 'TECH_ARCHERY'],
+    ['BUILDING_GREAT_BATH', 180, 'ERA_ANCIENT', 'TECH_POTTERY'],
+    ['BUILDING_ETEMENANKI', 220, 'ERA_ANCIENT', 'TECH_WRITING'],
+    ['BUILDING_COLOSSEUM', 400, 'ERA_CLASSICAL', 'CIVIC_GAMES_RECREATION'],
+    ['BUILDING_COLOSSUS', 400, 'ERA_CLASSICAL', 'TECH_SHIPBUILDING'],
+    ['BUILDING_GREAT_LIBRARY', 400, 'ERA_CLASSICAL', 'CIVIC_RECORDED_HISTORY'],
+    ['BUILDING_GREAT_LIGHTHOUSE', 290, 'ERA_CLASSICAL', 'TECH_CELESTIAL_NAVIGATION'],
+    ['BUILDING_MAHABODHI_TEMPLE', 400, 'ERA_CLASSICAL', 'CIVIC_THEOLOGY'],
+    ['BUILDING_PETRA', 400, 'ERA_CLASSICAL', 'TECH_MATHEMATICS'],
+    ['BUILDING_TERRACOTTA_ARMY', 400, 'ERA_CLASSICAL', 'TECH_CONSTRUCTION'],
+    ['BUILDING_APADANA', 400, 'ERA_CLASSICAL', 'CIVIC_POLITICAL_PHILOSOPHY'],
+    ['BUILDING_STATUE_OF_ZEUS', 400, 'ERA_CLASSICAL', 'CIVIC_MILITARY_TRAINING'],
+    ['BUILDING_JEBEL_BARKAL', 400, 'ERA_CLASSICAL', 'TECH_IRON_WORKING'],
+    ['BUILDING_MAUSOLEUM_AT_HALICARNASSUS', 400, 'ERA_CLASSICAL', 'CIVIC_DEFENSIVE_TACTICS'],
+    ['BUILDING_MACHU_PICCHU', 400, 'ERA_CLASSICAL', 'TECH_ENGINEERING'],
+    ['BUILDING_ALHAMBRA', 710, 'ERA_MEDIEVAL', 'TECH_CASTLES'],
+    ['BUILDING_ANGKOR_WAT', 710, 'ERA_MEDIEVAL', 'CIVIC_MEDIEVAL_FAIRES'],
+    ['BUILDING_CHICHEN_ITZA', 710, 'ERA_MEDIEVAL', 'CIVIC_GUILDS'],
+    ['BUILDING_HAGIA_SOPHIA', 710, 'ERA_MEDIEVAL', 'TECH_EDUCATION'],
+    ['BUILDING_HUEY_TEOCALLI', 710, 'ERA_MEDIEVAL', 'TECH_MILITARY_ENGINEERING'],
+    ['BUILDING_KILWA_KISIWANI', 710, 'ERA_MEDIEVAL', 'TECH_MACHINERY'],
+    ['BUILDING_KOTOKU_IN', 710, 'ERA_MEDIEVAL', 'CIVIC_DIVINE_RIGHT'],
+    ['BUILDING_MEENAKSHI_TEMPLE', 710, 'ERA_MEDIEVAL', 'CIVIC_CIVIL_SERVICE'],
+    ['BUILDING_MONT_ST_MICHEL', 710, 'ERA_MEDIEVAL', 'CIVIC_DIVINE_RIGHT'],
+    ['BUILDING_UNIVERSITY_SANKORE', 710, 'ERA_MEDIEVAL', 'TECH_EDUCATION'],
+    ['BUILDING_GREAT_ZIMBABWE', 710, 'ERA_MEDIEVAL', 'TECH_BANKING'],
+    ['BUILDING_FORBIDDEN_CITY', 920, 'ERA_RENAISSANCE', 'TECH_PRINTING'],
+    ['BUILDING_POTALA_PALACE', 920, 'ERA_RENAISSANCE', 'TECH_ASTRONOMY'],
+    ['BUILDING_ST_BASILS_CATHEDRAL', 920, 'ERA_RENAISSANCE', 'CIVIC_REFORMED_CHURCH'],
+    ['BUILDING_TAJ_MAHAL', 920, 'ERA_RENAISSANCE', 'CIVIC_DIVINE_RIGHT'],
+    ['BUILDING_VENETIAN_ARSENAL', 920, 'ERA_RENAISSANCE', 'TECH_MASS_PRODUCTION'],
+    ['BUILDING_CASA_DE_CONTRATACION', 920, 'ERA_RENAISSANCE', 'TECH_CARTOGRAPHY'],
+    ['BUILDING_TORRE_DE_BELEM', 920, 'ERA_RENAISSANCE', 'TECH_CARTOGRAPHY'],
+    ['BUILDING_BIG_BEN', 1450, 'ERA_INDUSTRIAL', 'TECH_ECONOMICS'],
+    ['BUILDING_BOLSHOI_THEATRE', 1450, 'ERA_INDUSTRIAL', 'CIVIC_OPERA_BALLET'],
+    ['BUILDING_HERMITAGE', 1450, 'ERA_INDUSTRIAL', 'CIVIC_NATURAL_HISTORY'],
+    ['BUILDING_OXFORD_UNIVERSITY', 1450, 'ERA_INDUSTRIAL', 'TECH_SCIENTIFIC_THEORY'],
+    ['BUILDING_RUHR_VALLEY', 1450, 'ERA_INDUSTRIAL', 'TECH_INDUSTRIALIZATION'],
+    ['BUILDING_STATUE_LIBERTY', 1450, 'ERA_INDUSTRIAL', 'CIVIC_CIVIL_ENGINEERING'],
+    ['BUILDING_ORSZAGHAZ', 1450, 'ERA_INDUSTRIAL', 'CIVIC_COLONIALISM'],
+    ['BUILDING_PANAMA_CANAL', 1740, 'ERA_MODERN', 'CIVIC_CIVIL_ENGINEERING'],
+    ['BUILDING_BROADWAY', 1740, 'ERA_MODERN', 'CIVIC_MASS_MEDIA'],
+    ['BUILDING_CRISTO_REDENTOR', 1740, 'ERA_MODERN', 'CIVIC_MASS_MEDIA'],
+    ['BUILDING_EIFFEL_TOWER', 1740, 'ERA_MODERN', 'TECH_STEEL'],
+    ['BUILDING_GOLDEN_GATE_BRIDGE', 1740, 'ERA_MODERN', 'TECH_STEEL'],
+    ['BUILDING_ESTADIO_DO_MARACANA', 1740, 'ERA_ATOMIC', 'CIVIC_PROFESSIONAL_SPORTS'],
+    ['BUILDING_SYDNEY_OPERA_HOUSE', 1740, 'ERA_ATOMIC', 'CIVIC_CULTURAL_HERITAGE'],
+    ['BUILDING_AMUNDSEN_SCOTT_RESEARCH_STATION', 1740, 'ERA_ATOMIC', 'TECH_CHEMISTRY'],
+    ['BUILDING_BIOSPHERE', 1740, 'ERA_INFORMATION', 'CIVIC_ENVIRONMENTALISM'],
+  ]),
+
+  // ============ Projects ============
+
+  ...projects('space-race', [
+    ['PROJECT_LAUNCH_EARTH_SATELLITE', 1500, 'ERA_ATOMIC', 'TECH_ROCKETRY'],
+    ['PROJECT_LAUNCH_MOON_LANDING', 1800, 'ERA_INFORMATION', 'TECH_SATELLITES'],
+    ['PROJECT_LAUNCH_MARS_BASE', 1800, 'ERA_INFORMATION', 'TECH_NANOTECHNOLOGY'],
+    ['PROJECT_LAUNCH_EXOPLANET_EXPEDITION', 1800, 'ERA_FUTURE', 'TECH_SMART_MATERIALS'],
+    ['PROJECT_TERRESTRIAL_LASER_STATION', 1500, 'ERA_FUTURE', 'TECH_OFFWORLD_MISSION'],
+    ['PROJECT_LAGRANGE_LASER_STATION', 1800, 'ERA_FUTURE', 'TECH_SMART_MATERIALS'],
+  ]),
+  ...projects('nuclear', [
+    ['PROJECT_MANHATTAN_PROJECT', 1000, 'ERA_ATOMIC', 'TECH_NUCLEAR_FISSION'],
+    ['PROJECT_BUILD_NUCLEAR_DEVICE', 800, 'ERA_ATOMIC', 'TECH_NUCLEAR_FISSION'],
+    ['PROJECT_OPERATION_IVY', 1500, 'ERA_INFORMATION', 'TECH_NUCLEAR_FUSION'],
+    ['PROJECT_BUILD_THERMONUCLEAR_DEVICE', 1000, 'ERA_INFORMATION', 'TECH_NUCLEAR_FUSION'],
+  ]),
+  ...projects('other', [
+    ['PROJECT_REPAIR_OUTER_DEFENSES', 25, 'ERA_ANCIENT', null],
+    ['PROJECT_CARBON_RECAPTURE', 400, 'ERA_INFORMATION', 'TECH_SYNTHETIC_MATERIALS'],
+  ]),
+];
+
+// Era of every technology in the base game with both expansions
+export const TECH_ERAS_SNAPSHOT: Record<string, string[]> = {
+  ERA_ANCIENT: [
+    'TECH_POTTERY', 'TECH_ANIMAL_HUSBANDRY', 'TECH_MINING', 'TECH_SAILING', 'TECH_ASTROLOGY', 'TECH_IRRIGATION',
+    'TECH_WRITING', 'TECH_ARCHERY', 'TECH_MASONRY', 'TECH_BRONZE_WORKING', 'TECH_THE_WHEEL',
+  ],
+  ERA_CLASSICAL: [
+    'TECH_CELESTIAL_NAVIGATION', 'TECH_CURRENCY', 'TECH_HORSEBACK_RIDING', 'TECH_IRON_WORKING',
+    'TECH_SHIPBUILDING', 'TECH_MATHEMATICS', 'TECH_CONSTRUCTION', 'TECH_ENGINEERING',
+  ],
+  ERA_MEDIEVAL: [
+    'TECH_MILITARY_TACTICS', 'TECH_APPRENTICESHIP', 'TECH_STIRRUPS', 'TECH_MACHINERY', 'TECH_EDUCATION',
+    'TECH_MILITARY_ENGINEERING', 'TECH_CASTLES', 'TECH_BUTTRESS',
+  ],
+  ERA_RENAISSANCE: [
+    'TECH_CARTOGRAPHY', 'TECH_MASS_PRODUCTION', 'TECH_BANKING', 'TECH_GUNPOWDER', 'TECH_PRINTING',
+    'TECH_SQUARE_RIGGING', 'TECH_ASTRONOMY', 'TECH_METAL_CASTING', 'TECH_SIEGE_TACTICS',
+  ],
+  ERA_INDUSTRIAL: [
+    'TECH_INDUSTRIALIZATION', 'TECH_SCIENTIFIC_THEORY', 'TECH_BALLISTICS', 'TECH_MILITARY_SCIENCE',
+    'TECH_STEAM_POWER', 'TECH_SANITATION', 'TECH_ECONOMICS', 'TECH_RIFLING',
+  ],
+  ERA_MODERN: [
+    'TECH_FLIGHT', 'TECH_REPLACEABLE_PARTS', 'TECH_STEEL', 'TECH_REFINING', 'TECH_ELECTRICITY',
+    'TECH_RADIO', 'TECH_CHEMISTRY', 'TECH_COMBUSTION',
+  ],
+  ERA_ATOMIC: [
+    'TECH_ADVANCED_FLIGHT', 'TECH_ROCKETRY', 'TECH_ADVANCED_BALLISTICS', 'TECH_COMBINED_ARMS',
+    'TECH_PLASTICS', 'TECH_COMPUTERS', 'TECH_NUCLEAR_FISSION', 'TECH_SYNTHETIC_MATERIALS',
+  ],
+  ERA_INFORMATION: [
+    'TECH_TELECOMMUNICATIONS', 'TECH_SATELLITES', 'TECH_GUIDANCE_SYSTEMS', 'TECH_LASERS', 'TECH_COMPOSITES',
+    'TECH_STEALTH_TECHNOLOGY', 'TECH_ROBOTICS', 'TECH_NANOTECHNOLOGY', 'TECH_NUCLEAR_FUSION',
+  ],
+  ERA_FUTURE: [
+    'TECH_SEASTEADS', 'TECH_ADVANCED_AI', 'TECH_ADVANCED_POWER_CELLS', 'TECH_CYBERNETICS',
+    'TECH_SMART_MATERIALS', 'TECH_PREDICTIVE_SYSTEMS', 'TECH_OFFWORLD_MISSION', 'TECH_FUTURE_TECH',
+  ],
+};
@@ -0,0 +1,271 @@
+import { readFileSync } from 'fs';
+import { XMLParser } from 'fast-xml-parser';
+import { localizeType } from './localization.js';
+import { normalizeName } from './names.js';
+import { findGameFiles, getGameDirectory } from './paths.js';
+import { RULES_SNAPSHOT, TECH_ERAS_SNAPSHOT } from './rules-data.js';
+import type { GameRule, ProjectCategory } from './types.js';
+
+// Game rules (cost, era, combat strength, class, prerequisites) for units,
+// buildings, wonders and projects, from the install's Gameplay XML when it
+// can be read and the bundled snapshot (rules-data.ts) otherwise. The
+// production highlight lists are derived from these rules.
+
+const ERA_ORDER = [
+  'ERA_ANCIENT', 'ERA_CLASSICAL', 'ERA_MEDIEVAL', 'ERA_RENAISSANCE',
+  'ERA_INDUSTRIAL', 'ERA_MODERN', 'ERA_ATOMIC', 'ERA_INFORMATION', 'ERA_FUTURE',
+];
+
+// Gameplay tables the rules are read from; expansions add rows to the same tables
+const RULE_TABLES = ['units', 'buildings', 'projects', 'technologies', 'civics'];
+
+type XmlRow = Record<string, string>;
+
+interface GameTables {
+  units: XmlRow[];
+  buildings: XmlRow[];
+  projects: XmlRow[];
+  technologies: XmlRow[];
+  civics: XmlRow[];
+}
+
+// ============ Loading ============
+
+function asArray(value: unknown): XmlRow[] {
+  if (Array.isArray(value)) return value;
+  return value && typeof value === 'object' ? [value as XmlRow] : [];
+}
+
+// Apply one table's Row/Replace/Update elements to the rows read so far, keyed by `keyColumn`
+function mergeTable(rows: Map<string, XmlRow>, table: unknown, keyColumn: string): void {
+  for (const block of asArray(table)) {
+    const elements = block as unknown as Record<string, unknown>;
+    for (const row of [...asArray(elements.Row), ...asArray(elements.Replace)]) {
+      const key = row[keyColumn];
+      if (key) rows.set(key, { ...rows.get(key), ...row });
+    }
+    for (const update of asArray(elements.Update)) {
+      const where = asArray((update as unknown as Record<string, unknown>).Where)[0];
+      const set = asArray((update as unknown as Record<string, unknown>).Set)[0];
+      const existing = where?.[keyColumn] ? rows.get(where[keyColumn]) : undefined;
+      if (existing && set) Object.assign(existing, set);
+    }
+  }
+}
+
+function loadGameTables(gameDir: string): GameTables | null {
+  const files = findGameFiles(gameDir, 'Data', name => RULE_TABLES.some(t => name.toLowerCase().includes(t)));
+  if (files.length === 0) return null;
+
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', parseTagValue: false, parseAttributeValue: false });
+  const units = new Map<string, XmlRow>();
+  const buildings = new Map<string, XmlRow>();
+  const projects = new Map<string, XmlRow>();
+  const technologies = new Map<string, XmlRow>();
+  const civics = new Map<string, XmlRow>();
+
+  for (const file of files) {
+    try {
+      const gameData = parser.parse(readFileSync(file, 'utf-8'))?.GameData;
+      if (!gameData) continue;
+      mergeTable(units, gameData.Units, 'UnitType');
+      mergeTable(buildings, gameData.Buildings, 'BuildingType');
+      mergeTable(projects, gameData.Projects, 'ProjectType');
+      mergeTable(technologies, gameData.Technologies, 'TechnologyType');
+      mergeTable(civics, gameData.Civics, 'CivicType');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Skipping unreadable game data ${file}: ${message}`);
+    }
+  }
+
+  if (units.size === 0 && buildings.size === 0) return null;
+  return {
+    units: [...units.values()],
+    buildings: [...buildings.values()],
+    projects: [...projects.values()],
+    technologies: [...technologies.values()],
+    civics: [...civics.values()],
+  };
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  const n = Number(value);
+  return value !== undefined && Number.isFinite(n) && n !== 0 ? n : null;
+}
+
+function rulesFromGameTables(tables: GameTables): GameRule[] {
+  const eraOf = new Map<string, string>();
+  for (const tech of tables.technologies) eraOf.set(tech.TechnologyType, tech.EraType);
+  for (const civic of tables.civics) eraOf.set(civic.CivicType, civic.EraType);
+
+  // Items with no prerequisite are available from the start
+  const base = (row: XmlRow): Pick<GameRule, 'cost' | 'era' | 'prereqTech' | 'prereqCivic'> => {
+    const prereq = row.PrereqTech ?? row.PrereqCivic;
+    return {
+      cost: Number(row.Cost) || 0,
+      era: prereq ? eraOf.get(prereq) ?? null : ERA_ORDER[0],
+      prereqTech: row.PrereqTech ?? null,
+      prereqCivic: row.PrereqCivic ?? null,
+    };
+  };
+
+  // The tables don't mark nuclear projects, so those keep the snapshot's category
+  const snapshotCategory = (type: string): ProjectCategory =>
+    RULES_SNAPSHOT.find(r => r.type === type)?.projectCategory ?? 'other';
+
+  return [
+    ...tables.units.map((row): GameRule => ({
+      type: row.UnitType,
+      kind: 'unit',
+      ...base(row),
+      unitClass: row.PromotionClass ?? null,
+      combat: numberOrNull(row.Combat),
+      rangedCombat: numberOrNull(row.RangedCombat),
+      bombard: numberOrNull(row.Bombard),
+      projectCategory: null,
+    })),
+    ...tables.buildings.map((row): GameRule => ({
+      type: row.BuildingType,
+      kind: row.IsWonder === 'true' ? 'wonder' : 'building',
+      ...base(row),
+      unitClass: null,
+      combat: null,
+      rangedCombat: null,
+      bombard: null,
+      projectCategory: null,
+    })),
+    ...tables.projects.map((row): GameRule => ({
+      type: row.ProjectType,
+      kind: 'project',
+      ...base(row),
+      unitClass: null,
+      combat: null,
+      rangedCombat: null,
+      bombard: null,
+      projectCategory: row.SpaceRace === 'true' ? 'space-race' : snapshotCategory(row.ProjectType),
+    })),
+  ];
+}
+
+// Loaded on first use; the install is read once per process
+let rules: Map<string, GameRule> | null = null;
+let techEras: Map<string, string> | null = null;
+
+function getRuleIndex(): Map<string, GameRule> {
+  if (rules) return rules;
+
+  const gameDir = getGameDirectory();
+  const tables = gameDir ? loadGameTables(gameDir) : null;
+  const entries = tables ? rulesFromGameTables(tables) : RULES_SNAPSHOT;
+
+  rules = new Map(entries.map(rule => [rule.type, rule]));
+  techEras = tables && tables.technologies.length > 0
+    ? new Map(tables.technologies.map(t => [t.TechnologyType, t.EraType]))
+    : new Map(Object.entries(TECH_ERAS_SNAPSHOT).flatMap(([era, techs]) => techs.map(t => [t, era] as [string, string])));
+  return rules;
+}
+
+function getTechEraIndex(): Map<string, string> {
+  getRuleIndex();
+  return techEras!;
+}
+
+// ============ Lookups ============
+
+/**
+ * The rule for a type as it appears in the logs or save, e.g. "UNIT_KNIGHT".
+ */
+export function getRule(type: string): GameRule | undefined {
+  return getRuleIndex().get(type.trim().toUpperCase());
+}
+
+export function getRules(kind?: GameRule['kind']): GameRule[] {
+  const all = [...getRuleIndex().values()];
+  return kind ? all.filter(r => r.kind === kind) : all;
+}
+
+function eraIndex(era: string | null): number {
+  return era ? ERA_ORDER.indexOf(era) : -1;
+}
+
+/**
+ * Era of a technology, e.g. "TECH_ROCKETRY" -> "ERA_ATOMIC".
+ */
+export function getTechEra(tech: string): string | undefined {
+  return getTechEraIndex().get(tech.trim().toUpperCase());
+}
+
+/**
+ * Every technology from an era before `era`.
+ */
+export function getTechsBeforeEra(era: string): string[] {
+  const limit = eraIndex(era);
+  return [...getTechEraIndex().entries()]
+    .filter(([, techEra]) => eraIndex(techEra) >= 0 && eraIndex(techEra) < limit)
+    .map(([tech]) => tech);
+}
+
+/**
+ * Building types of every world wonder.
+ */
+export function getWonderTypes(): string[] {
+  return getRules('wonder').map(r => r.type);
+}
+
+/**
+ * Items that threaten everyone else when a rival builds them: the nuclear
+ * projects and the strongest unit in the game (the Giant Death Robot in the base rules).
+ */
+export function getWeaponTypes(): string[] {
+  const units = getRules('unit');
+  const strongest = Math.max(0, ...units.map(u => u.combat ?? 0));
+  return [
+    ...getRules('project').filter(r => r.projectCategory === 'nuclear').map(r => r.type),
+    ...units.filter(u => strongest > 0 && u.combat === strongest).map(u => u.type),
+  ];
+}
+
+/**
+ * Items worth flagging wherever production is listed: weapons, space race
+ * projects and the latest era's aircraft.
+ */
+export function getStrategicTypes(): string[] {
+  const aircraft = getRules('unit').filter(u => u.unitClass?.startsWith('PROMOTION_CLASS_AIR_'));
+  const latestEra = Math.max(-1, ...aircraft.map(u => eraIndex(u.era)));
+  return [
+    ...getWeaponTypes(),
+    ...getRules('project').filter(r => r.projectCategory === 'space-race').map(r => r.type),
+    ...aircraft.filter(u => latestEra >= 0 && eraIndex(u.era) === latestEra).map(u => u.type),
+  ];
+}
+
+/**
+ * Whether a type is one of `types`, ignoring case and punctuation.
+ */
+export function isRuleType(type: string, types: string[]): boolean {
+  const key = normalizeName(type);
+  return types.some(t => normalizeName(t) === key);
+}
+
+// ============ Display Names ============
+
+function titleCase(raw: string): string {
+  return raw.split('_')
+    .map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase())
+    .join(' ');
+}
+
+/**
+ * Display name for an era type, e.g. "ERA_MEDIEVAL" -> "Medieval Era".
+ */
+export function eraDisplayName(era: string): string {
+  return localizeType(era) ?? `${titleCase(era.replace(/^ERA_/, ''))} Era`;
+}
+
+/**
+ * Display name for a promotion class, e.g. "PROMOTION_CLASS_HEAVY_CAVALRY" -> "Heavy Cavalry".
+ */
+export function unitClassDisplayName(unitClass: string): string {
+  return localizeType(unitClass) ?? titleCase(unitClass.replace(/^PROMOTION_CLASS_/, ''));
+}
@@ -0,0 +1,371 @@
+import {
+  buildPlayerIdMap,
+  getDiplomaticEvents,
+  parseCityProduction,
+  parseCityTransfers,
+  parseCivicStatus,
+  parseDiplomacy,
+  parseTechStatus,
+} from './logs-parser.js';
+import { parseSaveFile } from './parser.js';
+import { civDisplayName, isCityState } from './reference.js';
+import type {
+  CityProduction,
+  CivChanges,
+  CivInfo,
+  FirstContact,
+  GameState,
+  ModInfo,
+  SaveComparison,
+  SaveLogChanges,
+  SettingChange,
+  WonderCompletion,
+} from './types.js';
+
+// Differences between two saves, e.g. before and after a long AI turn. The
+// save parser gives players, city-states, era, settings and mods. Cities,
+// techs, civics, wonders and first contacts aren't decoded from saves (see
+// parser.ts), so they come from the logs for the turns between the two saves.
+
+const NO_LOGS = 'Cities, techs, civics, wonders and first contacts come from the game logs, and there are none for these turns. Enable logging (GameHistoryLogLevel=1) to compare them.';
+
+// ============ Comparison ============
+
+function allCivs(state: GameState): CivInfo[] {
+  const player: CivInfo = { leader: state.leader, civilization: state.civilization, type: 'full_civ', isAlive: true };
+  return [player, ...state.otherCivs];
+}
+
+function civKey(civ: CivInfo): string {
+  return civ.playerId !== undefined ? `#${civ.playerId}` : civ.civilization;
+}
+
+function civLabel(civ: CivInfo): string {
+  return `${civ.leader} (${civ.civilization})`;
+}
+
+function modKey(mod: ModInfo): string {
+  return mod.id.toLowerCase();
+}
+
+function settingChanges(before: GameState, after: GameState): SettingChange[] {
+  const settings: [string, keyof GameState][] = [
+    ['Player civilization', 'civilization'],
+    ['Player leader', 'leader'],
+    ['Difficulty', 'difficulty'],
+    ['Game speed', 'gameSpeed'],
+    ['Map type', 'mapType'],
+    ['Map size', 'mapSize'],
+    ['Game version', 'gameVersion'],
+  ];
+  return settings
+    .filter(([, key]) => before[key] !== after[key])
+    .map(([setting, key]) => ({ setting, from: String(before[key]), to: String(after[key]) }));
+}
+
+/**
+ * Compare two parsed saves' own data. `before` is normally the earlier save.
+ * The log changes are left empty; compareSaves fills them in.
+ */
+export function compareGameStates(
+  before: GameState,
+  after: GameState,
+  beforePath: string,
+  afterPath: string
+): SaveComparison {
+  const beforeCivs = new Map(allCivs(before).map(c => [civKey(c), c]));
+  const afterCivs = new Map(allCivs(after).map(c => [civKey(c), c]));
+
+  const civsEliminated = [...afterCivs.entries()]
+    .filter(([key, civ]) => civ.isAlive === false && beforeCivs.has(key) && beforeCivs.get(key)?.isAlive !== false)
+    .map(([, civ]) => civLabel(civ));
+  const civsAdded = [...afterCivs.entries()].filter(([key]) => !beforeCivs.has(key)).map(([, civ]) => civLabel(civ));
+  const civsRemoved = [...beforeCivs.entries()].filter(([key]) => !afterCivs.has(key)).map(([, civ]) => civLabel(civ));
+
+  const beforeCityStates = new Set([...before.cityStates, ...before.eliminatedCityStates]);
+  const cityStatesEliminated = after.eliminatedCityStates.filter(cs => !before.eliminatedCityStates.includes(cs));
+  const cityStatesAdded = after.cityStates.filter(cs => !beforeCityStates.has(cs));
+
+  const beforeMods = new Set(before.mods.map(modKey));
+  const afterMods = new Set(after.mods.map(modKey));
+
+  const beforeCivNames = [...beforeCivs.values()].map(c => c.civilization).sort().join('|');
+  const afterCivNames = [...afterCivs.values()].map(c => c.civilization).sort().join('|');
+
+  return {
+    before: { path: beforePath, turn: before.turn, era: before.era },
+    after: { path: afterPath, turn: after.turn, era: after.era },
+    turnsElapsed: after.turn - before.turn,
+    sameGame: before.civilization === after.civilization &&
+      before.mapType === after.mapType &&
+      before.mapSize === after.mapSize &&
+      beforeCivNames === afterCivNames,
+    eraChanged: before.era !== after.era,
+    settingChanges: settingChanges(before, after),
+    civsEliminated,
+    civsAdded,
+    civsRemoved,
+    cityStatesEliminated,
+    cityStatesAdded,
+    modsAdded: after.mods.filter(m => !beforeMods.has(modKey(m))),
+    modsRemoved: before.mods.filter(m => !afterMods.has(modKey(m))),
+    logChanges: null,
+    logsNote: null,
+  };
+}
+
+// ============ Log Changes ============
+
+function logTurnRange(turnLists: { turn: number }[][]): { first: number; last: number } | null {
+  let first = Infinity;
+  let last = -Infinity;
+  for (const records of turnLists) {
+    for (const record of records) {
+      if (record.turn < first) first = record.turn;
+      if (record.turn > last) last = record.turn;
+    }
+  }
+  return first <= last ? { first, last } : null;
+}
+
+// Logs from another game share the folder's player IDs but not its civs
+function logsMatchSave(state: GameState, playerMap: Map<number, string>): boolean {
+  return state.otherCivs.every(civ => {
+    const rawName = civ.playerId !== undefined ? playerMap.get(civ.playerId) : undefined;
+    return rawName === undefined || civDisplayName(rawName) === civ.civilization;
+  });
+}
+
+function groupByCiv(entries: { playerId: number; civilization: string; item: string }[]): CivChanges[] {
+  const byCiv = new Map<number, CivChanges>();
+  for (const entry of entries) {
+    if (!byCiv.has(entry.playerId)) {
+      byCiv.set(entry.playerId, { playerId: entry.playerId, civilization: entry.civilization, items: [] });
+    }
+    byCiv.get(entry.playerId)!.items.push(entry.item);
+  }
+  return [...byCiv.values()].sort((a, b) => a.civilization.localeCompare(b.civilization));
+}
+
+// Items a major civ first logged as OWNED within (fromTurn, toTurn]; owned items repeat every turn
+function firstOwned(
+  records: { turn: number; playerId: number; civilization: string; status: string; name: string }[],
+  playerMap: Map<number, string>,
+  fromTurn: number,
+  toTurn: number
+): CivChanges[] {
+  const first = new Map<string, { turn: number; playerId: number; civilization: string; item: string }>();
+  for (const record of records) {
+    if (record.status !== 'OWNED') continue;
+    const key = `${record.playerId}|${record.name}`;
+    const earlier = first.get(key);
+    if (!earlier || record.turn < earlier.turn) {
+      first.set(key, { turn: record.turn, playerId: record.playerId, civilization: record.civilization, item: record.name });
+    }
+  }
+
+  const majorCiv = (playerId: number) => {
+    const rawName = playerMap.get(playerId);
+    return rawName !== undefined && !isCityState(rawName) && rawName !== 'FREE_CITIES';
+  };
+  return groupByCiv([...first.values()].filter(e => e.turn > fromTurn && e.turn <= toTurn && majorCiv(e.playerId)));
+}
+
+// First and last production row for each city
+function cityRows(production: CityProduction[]): Map<string, { first: CityProduction; last: CityProduction }> {
+  const rows = new Map<string, { first: CityProduction; last: CityProduction }>();
+  for (const record of production) {
+    const seen = rows.get(record.city);
+    if (!seen) {
+      rows.set(record.city, { first: record, last: record });
+    } else {
+      if (record.turn < seen.first.turn) seen.first = record;
+      if (record.turn >= seen.last.turn) seen.last = record;
+    }
+  }
+  return rows;
+}
+
+function ownedCities(records: CityProduction[]): { playerId: number; civilization: string; item: string }[] {
+  return records
+    .filter(r => r.ownerId !== null)
+    .map(r => ({ playerId: r.ownerId!, civilization: r.owner ?? `Player ${r.ownerId}`, item: r.cityDisplayName }));
+}
+
+// A wonder's last production row finishes it when that turn's production covers what's left
+function wondersCompleted(production: CityProduction[], fromTurn: number, toTurn: number): WonderCompletion[] {
+  const lastRows = new Map<string, CityProduction>();
+  for (const record of production) {
+    if (record.itemKind !== 'wonder') continue;
+    const key = `${record.city}|${record.currentItem}`;
+    const seen = lastRows.get(key);
+    if (!seen || record.turn >= seen.turn) lastRows.set(key, record);
+  }
+
+  return [...lastRows.values()]
+    .filter(r => r.currentProgress + r.productionPerTurn >= r.productionNeeded)
+    .map(r => ({ turn: r.turn + 1, wonder: r.itemDisplayName, city: r.cityDisplayName, civilization: r.owner }))
+    .filter(w => w.turn > fromTurn && w.turn <= toTurn)
+    .sort((a, b) => a.turn - b.turn || a.wonder.localeCompare(b.wonder));
+}
+
+/**
+ * Techs, civics, cities, wonders and first contacts between two turns, from
+ * the logs. `logsNote` says why there are none, or that the logs only cover
+ * part of the span.
+ */
+export function compareLogs(
+  before: GameState,
+  after: GameState,
+  logsDir?: string
+): { logChanges: SaveLogChanges | null; logsNote: string | null } {
+  if (after.turn <= before.turn) {
+    return { logChanges: null, logsNote: 'The later save isn\'t on a later turn, so the logs weren\'t compared.' };
+  }
+
+  const techs = parseTechStatus(logsDir);
+  const civics = parseCivicStatus(logsDir).progress;
+  const production = parseCityProduction(logsDir);
+  const relations = parseDiplomacy(logsDir);
+  const range = logTurnRange([techs, civics, production, relations]);
+  if (!range || range.last <= before.turn || range.first > after.turn) {
+    return { logChanges: null, logsNote: NO_LOGS };
+  }
+
+  const playerMap = buildPlayerIdMap(logsDir);
+  if (!logsMatchSave(after, playerMap)) {
+    return { logChanges: null, logsNote: 'The logs are from a different game than these saves (their civilizations differ), so they weren\'t compared.' };
+  }
+
+  const fromTurn = Math.max(before.turn, range.first);
+  const toTurn = Math.min(after.turn, range.last);
+  const gaps: string[] = [];
+  if (fromTurn > before.turn) gaps.push(`start on turn ${range.first}`);
+  if (toTurn < after.turn) gaps.push(`end on turn ${range.last}`);
+  const logsNote = gaps.length > 0
+    ? `The logs ${gaps.join(' and ')}, so only changes on turns ${fromTurn + 1}-${toTurn} are listed.`
+    : null;
+
+  const cities = cityRows(production);
+  const founded = [...cities.values()].filter(c => c.first.turn > fromTurn && c.first.turn <= toTurn).map(c => c.first);
+  // Seen on or before the earlier turn, not after it, and missing from at least one logged turn
+  const lost = [...cities.values()]
+    .filter(c => c.first.turn <= fromTurn && c.last.turn >= fromTurn && c.last.turn < toTurn)
+    .map(c => c.last);
+
+  const contacts = new Map<string, FirstContact>();
+  for (const event of getDiplomaticEvents(relations)) {
+    if (event.kind !== 'met' || event.turn <= fromTurn || event.turn > toTurn) continue;
+    const pair = [event.fromPlayerId, event.toPlayerId].sort((a, b) => a - b).join(':');
+    if (!contacts.has(pair)) {
+      contacts.set(pair, { turn: event.turn, civilizations: [event.fromCiv, event.toCiv] });
+    }
+  }
+
+  return {
+    logChanges: {
+      fromTurn,
+      toTurn,
+      techsResearched: firstOwned(techs.map(t => ({ ...t, name: t.tech })), playerMap, fromTurn, toTurn),
+      civicsCompleted: firstOwned(civics.map(c => ({ ...c, name: c.civic })), playerMap, fromTurn, toTurn),
+      citiesFounded: groupByCiv(ownedCities(founded)),
+      citiesLost: groupByCiv(ownedCities(lost)),
+      citiesCaptured: parseCityTransfers(logsDir).filter(t => t.turn > fromTurn && t.turn <= toTurn),
+      wondersCompleted: wondersCompleted(production, fromTurn, toTurn),
+      civsMet: [...contacts.values()],
+    },
+    logsNote,
+  };
+}
+
+/**
+ * Parse and compare two save files, adding what the logs in `logsDir` (the
+ * detected folder by default) record between their turns.
+ */
+export function compareSaves(beforePath: string, afterPath: string, player?: string, logsDir?: string): SaveComparison {
+  const before = parseSaveFile(beforePath, player);
+  const after = parseSaveFile(afterPath, player);
+  const comparison = compareGameStates(before, after, beforePath, afterPath);
+  if (!comparison.sameGame) {
+    return { ...comparison, logsNote: 'The saves look like different games, so the logs weren\'t compared.' };
+  }
+  return { ...comparison, ...compareLogs(before, after, logsDir) };
+}
+
+// ============ Formatting ============
+
+function pushList(lines: string[], heading: string, items: string[]): void {
+  if (items.length === 0) return;
+  lines.push(`## ${heading}`);
+  for (const item of items) {
+    lines.push(`- ${item}`);
+  }
+  lines.push('');
+}
+
+export function formatSaveComparison(comparison: SaveComparison): string {
+  const { before, after } = comparison;
+  const lines: string[] = [];
+
+  lines.push(`# Save Comparison: Turn ${before.turn} → Turn ${after.turn}`);
+  lines.push('');
+
+  if (!comparison.sameGame) {
+    lines.push('⚠️ These saves look like different games (player, map or civilizations differ), so the differences below may not be meaningful.');
+    lines.push('');
+  }
+  if (comparison.turnsElapsed < 0) {
+    lines.push(`⚠️ The second save is ${-comparison.turnsElapsed} turns *earlier* than the first (a reload?).`);
+    lines.push('');
+  }
+
+  lines.push(`- **Turns elapsed**: ${comparison.turnsElapsed}`);
+  lines.push(`- **Era**: ${comparison.eraChanged ? `${before.era} → ${after.era}` : `${after.era} (unchanged)`}`);
+  lines.push('');
+
+  pushList(lines, 'Civilizations Eliminated', comparison.civsEliminated);
+  pushList(lines, 'Civilizations Added', comparison.civsAdded);
+  pushList(lines, 'Civilizations No Longer Listed', comparison.civsRemoved);
+  pushList(lines, 'City-States Eliminated', comparison.cityStatesEliminated);
+  pushList(lines, 'City-States Added', comparison.cityStatesAdded);
+  pushList(lines, 'Mods Added', comparison.modsAdded.map(m => m.title));
+  pushList(lines, 'Mods Removed', comparison.modsRemoved.map(m => m.title));
+  pushList(lines, 'Settings Changed', comparison.settingChanges.map(c => `${c.setting}: ${c.from} → ${c.to}`));
+
+  const changed = comparison.eraChanged ||
+    comparison.civsEliminated.length + comparison.civsAdded.length + comparison.civsRemoved.length +
+    comparison.cityStatesEliminated.length + comparison.cityStatesAdded.length +
+    comparison.modsAdded.length + comparison.modsRemoved.length + comparison.settingChanges.length > 0;
+  if (!changed) {
+    lines.push('No changes to players, city-states, era, settings or mods.');
+    lines.push('');
+  }
+
+  const logs = comparison.logChanges;
+  if (logs) {
+    const byCiv = (changes: CivChanges[]) => changes.map(c => `**${c.civilization}**: ${c.items.join(', ')}`);
+    lines.push(`# From the Logs (Turns ${logs.fromTurn + 1}-${logs.toTurn})`);
+    lines.push('');
+    pushList(lines, 'Techs Researched', byCiv(logs.techsResearched));
+    pushList(lines, 'Civics Completed', byCiv(logs.civicsCompleted));
+    pushList(lines, 'Cities Founded', byCiv(logs.citiesFounded));
+    pushList(lines, 'Cities Captured', logs.citiesCaptured.map(t => `${t.cityDisplayName}: ${t.from} → ${t.to} (turn ${t.turn})`));
+    pushList(lines, 'Cities Gone From the Logs (usually razed)', byCiv(logs.citiesLost));
+    pushList(lines, 'Wonders Completed', logs.wondersCompleted.map(w =>
+      `${w.wonder} in ${w.city}${w.civilization ? ` (${w.civilization})` : ''}, turn ${w.turn}`));
+    pushList(lines, 'First Contacts', logs.civsMet.map(m => `${m.civilizations[0]} met ${m.civilizations[1]} (turn ${m.turn})`));
+
+    const logged = logs.techsResearched.length + logs.civicsCompleted.length + logs.citiesFounded.length +
+      logs.citiesCaptured.length + logs.citiesLost.length + logs.wondersCompleted.length + logs.civsMet.length;
+    if (logged === 0) {
+      lines.push('No techs, civics, cities, wonders or first contacts in the logs for these turns.');
+      lines.push('');
+    }
+  }
+
+  if (comparison.logsNote) {
+    lines.push(`*${comparison.logsNote}*`);
+  }
+
+  return lines.join('\n').trimEnd();
+}
@@ -0,0 +1,207 @@
+import { readFileSync } from 'fs';
+import { listSaveFiles, readSaveProgress } from './parser.js';
+import { getSavesDirectory } from './paths.js';
+import { civDisplayName, defaultLeaderName, leaderDisplayName } from './reference.js';
+import { readSaveRoster, type SaveSlot } from './save-roster.js';
+import type { RosterEntry, RosterTrend, SaveFileInfo, SaveHistory, SaveTurn } from './types.js';
+
+// Game history rebuilt from the autosaves, for games played without logging.
+// A save only gives us its turn, era and which players are still alive, so
+// that is all a SaveTurn holds. The game keeps 10 autosaves by default, so
+// the history is usually short.
+
+const AUTOSAVE_NOTE = 'Rebuilt from autosaves: saves only tell us the turn, the era and which civs are still alive. Enable logging (GameHistoryLogLevel=1) for yields, score, cities and military.';
+
+// What each autosave holds, kept until the file changes; null for unreadable saves
+const saveTurnCache = new Map<string, { fingerprint: string; entry: { key: string; turn: SaveTurn } | null }>();
+
+// ============ Building ============
+
+function isMinorSlot(slot: SaveSlot): boolean {
+  return slot.isCityState || slot.civilization === 'FREE_CITIES';
+}
+
+function toRosterEntry(slot: SaveSlot): RosterEntry {
+  return {
+    civilization: civDisplayName(slot.civilization),
+    leader: slot.leader ? leaderDisplayName(slot.leader) : defaultLeaderName(slot.civilization),
+    isCityState: isMinorSlot(slot),
+  };
+}
+
+// Autosaves of other games can share the folder; the major civ line-up tells them apart
+function gameKey(slots: SaveSlot[]): string {
+  return slots.map(s => s.civilization).sort().join(',');
+}
+
+// One read of the file serves both the roster and the turn and era
+function readSaveTurn(save: SaveFileInfo): { key: string; turn: SaveTurn } | null {
+  try {
+    const buffer = readFileSync(save.path);
+    const progress = readSaveProgress(buffer, save.path);
+    const roster = readSaveRoster(buffer);
+    if (roster.slots.length === 0 || !progress.turn) return null;
+
+    const alive = [...roster.slots, ...roster.cityStates].filter(s => s.isAlive);
+    return {
+      key: gameKey(roster.slots),
+      turn: {
+        turn: progress.turn,
+        era: progress.era,
+        savePath: save.path,
+        majorCivsAlive: alive.filter(s => !isMinorSlot(s)).length,
+        cityStatesAlive: alive.filter(isMinorSlot).length,
+        roster: alive.map(toRosterEntry),
+      },
+    };
+  } catch {
+    return null;  // Unreadable save
+  }
+}
+
+function getSaveTurn(save: SaveFileInfo): { key: string; turn: SaveTurn } | null {
+  const fingerprint = `${save.modified}:${save.size}`;
+  const cached = saveTurnCache.get(save.path);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.entry;
+  }
+
+  const entry = readSaveTurn(save);
+  saveTurnCache.set(save.path, { fingerprint, entry });
+  return entry;
+}
+
+/**
+ * Game history rebuilt from the autosaves of the newest autosave's game, or
+ * null if there are none. Each save is only read again once it changes.
+ */
+export function buildHistoryFromAutosaves(savesDir: string = getSavesDirectory()): SaveHistory | null {
+  const turns = new Map<number, SaveTurn>();
+  let key: string | null = null;
+
+  // Newest first, so the newest save decides the game and wins a repeated turn
+  for (const save of listSaveFiles('autosave', savesDir)) {
+    const entry = getSaveTurn(save);
+    if (!entry) continue;
+
+    key ??= entry.key;
+    if (entry.key !== key || turns.has(entry.turn.turn)) continue;
+    turns.set(entry.turn.turn, entry.turn);
+  }
+
+  if (turns.size === 0) return null;
+
+  const sorted = [...turns.values()].sort((a, b) => a.turn - b.turn);
+  return {
+    turns: sorted,
+    civilizations: [...new Set(sorted.flatMap(t => t.roster.filter(r => !r.isCityState).map(r => r.civilization)))],
+  };
+}
+
+// ============ Analysis ============
+
+/**
+ * Era changes and eliminations over the last `turnsBack` turns of autosave
+ * history. Null when fewer than two saves fall in the window.
+ */
+export function analyzeRosterTrend(history: SaveHistory, turnsBack: number = 10): RosterTrend | null {
+  if (history.turns.length < 2) return null;
+
+  const endTurn = history.turns[history.turns.length - 1].turn;
+  const relevantTurns = history.turns.filter(t => t.turn >= Math.max(1, endTurn - turnsBack));
+  if (relevantTurns.length < 2) return null;
+
+  const eras: RosterTrend['eras'] = [];
+  for (const turnData of relevantTurns) {
+    if (eras.length === 0 || eras[eras.length - 1].era !== turnData.era) {
+      eras.push({ turn: turnData.turn, era: turnData.era });
+    }
+  }
+
+  // Last turn each civ was seen alive, for civs missing from the final save
+  const last = relevantTurns[relevantTurns.length - 1];
+  const aliveAtEnd = new Set(last.roster.map(r => r.civilization));
+  const lastSeen = new Map<string, { entry: RosterEntry; turn: number }>();
+  for (const turnData of relevantTurns) {
+    for (const entry of turnData.roster) {
+      lastSeen.set(entry.civilization, { entry, turn: turnData.turn });
+    }
+  }
+  const eliminated = [...lastSeen.entries()]
+    .filter(([civilization]) => !aliveAtEnd.has(civilization))
+    .map(([, seen]) => ({ ...seen.entry, lastSeenTurn: seen.turn }))
+    .sort((a, b) => a.lastSeenTurn - b.lastSeenTurn);
+
+  return {
+    startTurn: relevantTurns[0].turn,
+    endTurn: last.turn,
+    savesAnalyzed: relevantTurns.length,
+    eras,
+    aliveByTurn: relevantTurns.map(t => ({ turn: t.turn, majorCivs: t.majorCivsAlive, cityStates: t.cityStatesAlive })),
+    eliminated,
+    alive: last.roster.filter(r => !r.isCityState),
+  };
+}
+
+// ============ Formatting ============
+
+export function formatAutosaveRoster(turnData: SaveTurn): string {
+  const roster = turnData.roster;
+  const majorCivs = roster.filter(r => !r.isCityState);
+  const cityStates = roster.filter(r => r.isCityState);
+  const lines: string[] = [];
+
+  lines.push(`# Civilizations (Turn ${turnData.turn}, ${turnData.era})`);
+  lines.push('');
+  lines.push(`*${AUTOSAVE_NOTE}*`);
+  lines.push('');
+  lines.push('| Civilization | Leader |');
+  lines.push('|--------------|--------|');
+  for (const civ of majorCivs) {
+    lines.push(`| ${civ.civilization} | ${civ.leader} |`);
+  }
+  if (cityStates.length > 0) {
+    lines.push('');
+    lines.push(`**City-states:** ${cityStates.map(c => c.civilization).join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function formatRosterTrend(trend: RosterTrend): string {
+  const lines: string[] = [];
+
+  lines.push(`# Trend Analysis (Turns ${trend.startTurn} → ${trend.endTurn}, ${trend.savesAnalyzed} autosaves)`);
+  lines.push('');
+  lines.push(`*${AUTOSAVE_NOTE}*`);
+  lines.push('');
+
+  lines.push('## Eras');
+  for (const era of trend.eras) {
+    lines.push(`- Turn ${era.turn}: ${era.era}`);
+  }
+  lines.push('');
+
+  lines.push('## Players Alive');
+  lines.push('| Turn | Civilizations | City-States |');
+  lines.push('|------|---------------|-------------|');
+  for (const alive of trend.aliveByTurn) {
+    lines.push(`| ${alive.turn} | ${alive.majorCivs} | ${alive.cityStates} |`);
+  }
+  lines.push('');
+
+  lines.push('## Eliminated');
+  if (trend.eliminated.length === 0) {
+    lines.push('Nobody was eliminated.');
+  }
+  for (const civ of trend.eliminated) {
+    const kind = civ.isCityState ? 'city-state' : civ.leader;
+    lines.push(`- **${civ.civilization}** (${kind}), last seen alive on turn ${civ.lastSeenTurn}`);
+  }
+  lines.push('');
+
+  lines.push('## Still in the Game');
+  lines.push(trend.alive.map(c => `${c.civilization} (${c.leader})`).join(', ') || 'None');
+
+  return lines.join('\n');
+}
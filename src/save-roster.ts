@@ -0,0 +1,129 @@
+import { readFileSync, statSync } from 'fs';
+import { createRequire } from 'module';
+import type { ParsedCiv, ParsedData } from 'civ6-save-parser';
+
+// civ6-save-parser runs its command-line entry point when it has no parent
+// module, which is the case for an ESM import, and prints to stdout (our MCP
+// channel). Loading it through require gives it a parent.
+const require = createRequire(import.meta.url);
+const saveParser: typeof import('civ6-save-parser') = require('civ6-save-parser');
+
+// ACTOR_AI_HUMAN values
+const ACTOR_HUMAN = 3;
+
+const CITY_STATE_LEVEL = 'CIVILIZATION_LEVEL_CITY_STATE';
+
+/**
+ * A player slot from the save header. Slot order matches the player IDs in
+ * the logs: major civs first, then city-states.
+ */
+export interface SaveSlot {
+  slot: number;
+  civilization: string;  // Raw type without prefix, e.g. "ROME"
+  leader: string;        // Raw type without prefix, e.g. "TRAJAN"; empty for city-states
+  isHuman: boolean;
+  isAlive: boolean;
+  isCurrentTurn: boolean;
+  isCityState: boolean;
+}
+
+/**
+ * A mod enabled in the save, as recorded in its MOD_BLOCK sections.
+ */
+export interface SaveMod {
+  id: string;
+  title: string;  // As stored: a plain title or a LOC_*_MOD_TITLE tag
+}
+
+/**
+ * Everything the save header says about the players and mods.
+ */
+export interface SaveRoster {
+  slots: SaveSlot[];       // Major civs
+  cityStates: SaveSlot[];
+  mods: SaveMod[];
+}
+
+// ============ Reading ============
+
+function stripPrefix(value: string | undefined, prefix: string): string {
+  if (!value) return '';
+  return value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+// Players missing the alive flag (older saves) are taken to be alive
+function toSlot(civ: ParsedCiv, slot: number): SaveSlot {
+  return {
+    slot,
+    civilization: stripPrefix(civ.ACTOR_NAME?.data, 'CIVILIZATION_'),
+    leader: stripPrefix(civ.LEADER_NAME?.data, 'LEADER_'),
+    isHuman: civ.ACTOR_AI_HUMAN?.data === ACTOR_HUMAN,
+    isAlive: civ.PLAYER_ALIVE?.data ?? true,
+    isCurrentTurn: civ.IS_CURRENT_TURN?.data ?? false,
+    isCityState: civ.ACTOR_TYPE?.data === CITY_STATE_LEVEL,
+  };
+}
+
+// Each MOD_BLOCK section lists the same mods again, so keep the first of each ID
+function readMods(parsed: ParsedData): SaveMod[] {
+  const mods = new Map<string, SaveMod>();
+  const blocks = Object.keys(parsed)
+    .filter((key): key is `MOD_BLOCK_${string}` => key.startsWith('MOD_BLOCK_'))
+    .map(key => parsed[key]?.data);
+
+  for (const block of blocks) {
+    if (!Array.isArray(block)) continue;  // Unreadable block
+    for (const mod of block) {
+      const id = mod.MOD_ID?.data;
+      if (!id || mods.has(id)) continue;
+      mods.set(id, { id, title: mod.MOD_TITLE?.data ?? id });
+    }
+  }
+  return [...mods.values()];
+}
+
+/**
+ * Read the players and mods from a save file's buffer.
+ */
+export function readSaveRoster(buffer: Buffer): SaveRoster {
+  const { parsed } = saveParser.parse(buffer);
+  const slots = parsed.CIVS.map(toSlot);
+  const cityStates = parsed.ACTORS
+    .filter(actor => actor.ACTOR_TYPE?.data === CITY_STATE_LEVEL)
+    .map((actor, i) => toSlot(actor, slots.length + i));
+
+  return { slots, cityStates, mods: readMods(parsed) };
+}
+
+/**
+ * Read the major civ slots from a save file's buffer.
+ */
+export function readSaveSlots(buffer: Buffer): SaveSlot[] {
+  return readSaveRoster(buffer).slots;
+}
+
+// Saves are several MB, so keep the last read per file until it changes
+const rosterCache = new Map<string, { fingerprint: string; roster: SaveRoster }>();
+
+/**
+ * Read the players and mods from a save file. Cached until the file changes.
+ */
+export function getSaveRoster(savePath: string): SaveRoster {
+  const stats = statSync(savePath);
+  const fingerprint = `${stats.mtimeMs}:${stats.size}`;
+  const cached = rosterCache.get(savePath);
+  if (cached && cached.fingerprint === fingerprint) {
+    return cached.roster;
+  }
+
+  const roster = readSaveRoster(readFileSync(savePath));
+  rosterCache.set(savePath, { fingerprint, roster });
+  return roster;
+}
+
+/**
+ * Read the major civ slots from a save file. Cached until the file changes.
+ */
+export function getSaveSlots(savePath: string): SaveSlot[] {
+  return getSaveRoster(savePath).slots;
+}
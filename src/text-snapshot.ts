@@ -0,0 +1,126 @@
+// English (en_US) names from the game's text XML for the types and city
+// names that title-casing gets wrong: apostrophes, accents, abbreviations,
+// small words, and unique units and buildings named apart from their type.
+// Used when the game install isn't available; everything else falls back to
+// title-casing the type.
+
+export const EN_US_TEXT_SNAPSHOT: Record<string, string> = {
+  // Wonders
+  LOC_BUILDING_AMUNDSEN_SCOTT_RESEARCH_STATION_NAME: 'Amundsen-Scott Research Station',
+  LOC_BUILDING_BIOSPHERE_NAME: 'Biosphère',
+  LOC_BUILDING_CASA_DE_CONTRATACION_NAME: 'Casa de Contratación',
+  LOC_BUILDING_ESTADIO_DO_MARACANA_NAME: 'Estádio do Maracanã',
+  LOC_BUILDING_KOTOKU_IN_NAME: 'Kotoku-in',
+  LOC_BUILDING_MAUSOLEUM_AT_HALICARNASSUS_NAME: 'Mausoleum at Halicarnassus',
+  LOC_BUILDING_MONT_ST_MICHEL_NAME: 'Mont St. Michel',
+  LOC_BUILDING_ORSZAGHAZ_NAME: 'Országház',
+  LOC_BUILDING_ST_BASILS_CATHEDRAL_NAME: "St. Basil's Cathedral",
+  LOC_BUILDING_STATUE_LIBERTY_NAME: 'Statue of Liberty',
+  LOC_BUILDING_STATUE_OF_ZEUS_NAME: 'Statue of Zeus',
+  LOC_BUILDING_TEMPLE_ARTEMIS_NAME: 'Temple of Artemis',
+  LOC_BUILDING_TORRE_DE_BELEM_NAME: 'Torre de Belém',
+  LOC_BUILDING_UNIVERSITY_SANKORE_NAME: 'University of Sankore',
+
+  // Government Plaza buildings
+  LOC_BUILDING_GOV_CITYSTATES_NAME: 'Foreign Ministry',
+  LOC_BUILDING_GOV_CONQUEST_NAME: "Warlord's Throne",
+  LOC_BUILDING_GOV_CULTURE_NAME: "Queen's Bibliotheque",
+  LOC_BUILDING_GOV_FAITH_NAME: "Grand Master's Chapel",
+  LOC_BUILDING_GOV_MILITARY_NAME: 'War Department',
+  LOC_BUILDING_GOV_SCIENCE_NAME: 'Royal Society',
+  LOC_BUILDING_GOV_SPIES_NAME: 'Intelligence Agency',
+  LOC_BUILDING_GOV_TALL_NAME: 'Audience Chamber',
+  LOC_BUILDING_GOV_WIDE_NAME: 'Ancestral Hall',
+
+  // Districts
+  LOC_DISTRICT_GOVERNMENT_NAME: 'Government Plaza',
+  LOC_DISTRICT_THANH_NAME: 'Thành',
+  LOC_DISTRICT_THEATER_NAME: 'Theater Square',
+  LOC_DISTRICT_WATER_ENTERTAINMENT_COMPLEX_NAME: 'Water Park',
+  LOC_DISTRICT_WATER_STREET_CARNIVAL_NAME: 'Copacabana',
+
+  // Units
+  LOC_UNIT_AMERICAN_P51_NAME: 'P-51 Mustang',
+  LOC_UNIT_ANTIAIR_GUN_NAME: 'Anti-Air Gun',
+  LOC_UNIT_AT_CREW_NAME: 'AT Crew',
+  LOC_UNIT_DUTCH_DE_ZEVEN_PROVINCIEN_NAME: 'De Zeven Provinciën',
+  LOC_UNIT_EGYPTIAN_CHARIOT_ARCHER_NAME: 'Maryannu Chariot Archer',
+  LOC_UNIT_ENGLISH_SEADOG_NAME: 'Sea Dog',
+  LOC_UNIT_FRENCH_GARDE_IMPERIALE_NAME: 'Garde Impériale',
+  LOC_UNIT_GERMAN_UBOAT_NAME: 'U-Boat',
+  LOC_UNIT_HUNGARY_HUSZAR_NAME: 'Huszár',
+  LOC_UNIT_INCA_WARAKAQ_NAME: "Warak'aq",
+  LOC_UNIT_JAPANESE_SAMURAI_NAME: 'Samurai',
+  LOC_UNIT_KONGO_SHIELD_BEARER_NAME: 'Ngao Mbeba',
+  LOC_UNIT_MAN_AT_ARMS_NAME: 'Man-At-Arms',
+  LOC_UNIT_MAPUCHE_MALON_RAIDER_NAME: 'Malón Raider',
+  LOC_UNIT_MOBILE_SAM_NAME: 'Mobile SAM',
+  LOC_UNIT_MODERN_AT_NAME: 'Modern AT',
+  LOC_UNIT_NORWEGIAN_LONGSHIP_NAME: 'Viking Longship',
+  LOC_UNIT_NUBIAN_PITATI_NAME: 'Pítati Archer',
+  LOC_UNIT_POLISH_HUSSAR_NAME: 'Winged Hussar',
+  LOC_UNIT_SCYTHIAN_HORSE_ARCHER_NAME: 'Saka Horse Archer',
+  LOC_UNIT_SUMERIAN_WAR_CART_NAME: 'War-Cart',
+
+  // Technologies
+  LOC_TECH_ADVANCED_AI_NAME: 'Advanced AI',
+
+  // Civics
+  LOC_CIVIC_CODE_OF_LAWS_NAME: 'Code of Laws',
+  LOC_CIVIC_DRAMA_POETRY_NAME: 'Drama and Poetry',
+  LOC_CIVIC_GAMES_RECREATION_NAME: 'Games and Recreation',
+  LOC_CIVIC_OPERA_BALLET_NAME: 'Opera and Ballet',
+
+  // Eras
+  LOC_ERA_ANCIENT_NAME: 'Ancient Era',
+  LOC_ERA_CLASSICAL_NAME: 'Classical Era',
+  LOC_ERA_MEDIEVAL_NAME: 'Medieval Era',
+  LOC_ERA_RENAISSANCE_NAME: 'Renaissance Era',
+  LOC_ERA_INDUSTRIAL_NAME: 'Industrial Era',
+  LOC_ERA_MODERN_NAME: 'Modern Era',
+  LOC_ERA_ATOMIC_NAME: 'Atomic Era',
+  LOC_ERA_INFORMATION_NAME: 'Information Era',
+  LOC_ERA_FUTURE_NAME: 'Future Era',
+
+  // City names, for the civs in reference-data.ts
+  LOC_CITY_NAME_BIEN_HOA: 'Biên Hòa',
+  LOC_CITY_NAME_BOGOTA: 'Bogotá',
+  LOC_CITY_NAME_BRASILIA: 'Brasília',
+  LOC_CITY_NAME_CANETE: 'Cañete',
+  LOC_CITY_NAME_CAN_THO: 'Cần Thơ',
+  LOC_CITY_NAME_CORDOBA: 'Córdoba',
+  LOC_CITY_NAME_DA_NANG: 'Đà Nẵng',
+  LOC_CITY_NAME_DJENNE: 'Djenné',
+  LOC_CITY_NAME_EVORA: 'Évora',
+  LOC_CITY_NAME_GDANSK: 'Gdańsk',
+  LOC_CITY_NAME_HAI_PHONG: 'Hải Phòng',
+  LOC_CITY_NAME_HANOI: 'Hà Nội',
+  LOC_CITY_NAME_HUANUCO_PAMPA: 'Huánuco Pampa',
+  LOC_CITY_NAME_HUE: 'Huế',
+  LOC_CITY_NAME_KAIKOURA: 'Kaikōura',
+  LOC_CITY_NAME_KRAKOW: 'Kraków',
+  LOC_CITY_NAME_LODZ: 'Łódź',
+  LOC_CITY_NAME_MEDELLIN: 'Medellín',
+  LOC_CITY_NAME_ORLEANS: 'Orléans',
+  LOC_CITY_NAME_OTAUTAHI: 'Ōtautahi',
+  LOC_CITY_NAME_OTEPOTI: 'Ōtepoti',
+  LOC_CITY_NAME_POZNAN: 'Poznań',
+  LOC_CITY_NAME_PUCON: 'Pucón',
+  LOC_CITY_NAME_PUREN: 'Purén',
+  LOC_CITY_NAME_SAIGON: 'Sài Gòn',
+  LOC_CITY_NAME_SAO_PAULO: 'São Paulo',
+  LOC_CITY_NAME_ST_PETERSBURG: 'St. Petersburg',
+  LOC_CITY_NAME_SZEKESFEHERVAR: 'Székesfehérvár',
+  LOC_CITY_NAME_TAMAKI_MAKAURAU: 'Tāmaki Makaurau',
+  LOC_CITY_NAME_TE_WHANGANUI_A_TARA: 'Te Whanganui-a-Tara',
+  LOC_CITY_NAME_THANG_LONG: 'Thăng Long',
+  LOC_CITY_NAME_TIRUA: 'Tirúa',
+  LOC_CITY_NAME_TROMSO: 'Tromsø',
+  LOC_CITY_NAME_WHAKATU: 'Whakatū',
+  LOC_CITY_NAME_WROCLAW: 'Wrocław',
+  LOC_CITY_NAME_XIAN: "Xi'an",
+
+  // Expansions, as named in a save's mod list
+  LOC_EXPANSION1_MOD_TITLE: 'Rise and Fall',
+  LOC_EXPANSION2_MOD_TITLE: 'Gathering Storm',
+};
@@ -0,0 +1,44 @@
+import { watchFile, unwatchFile } from 'fs';
+import { join } from 'path';
+import { getLatestCompleteTurn } from './history-parser.js';
+import { PLAYER_STATS_SCHEMA } from './log-schemas.js';
+
+// Polling rather than fs.watch: it works the same on every platform, on Proton
+// prefixes and network drives, and doesn't care whether the file exists yet.
+const DEFAULT_INTERVAL_MS = 2000;
+
+/**
+ * Watch a logs directory and call `onNewTurn` whenever a new complete turn
+ * (every major civ has reported stats) lands in Player_Stats.csv.
+ * Returns a function that stops watching.
+ */
+export function watchForNewTurns(
+  logsDir: string,
+  onNewTurn: (turn: number) => void,
+  intervalMs: number = DEFAULT_INTERVAL_MS
+): () => void {
+  const statsPath = join(logsDir, PLAYER_STATS_SCHEMA.file);
+
+  // Start from the turn already on disk so we don't announce it at startup
+  let lastTurn = safeLatestCompleteTurn(logsDir);
+
+  const onChange = () => {
+    const turn = safeLatestCompleteTurn(logsDir);
+    if (turn === null || turn === lastTurn) return;
+
+    lastTurn = turn;
+    onNewTurn(turn);
+  };
+
+  watchFile(statsPath, { persistent: false, interval: intervalMs }, onChange);
+  return () => unwatchFile(statsPath, onChange);
+}
+
+// The game may be mid-write; treat a failed read as "nothing new yet"
+function safeLatestCompleteTurn(logsDir: string): number | null {
+  try {
+    return getLatestCompleteTurn(logsDir);
+  } catch {
+    return null;
+  }
+}
@@ -26,6 +26,7 @@ export interface GameState {
   // Other players
   otherCivs: CivInfo[];
   cityStates: string[];
+  eliminatedCityStates: string[];
 
   // Mods
   mods: ModInfo[];
@@ -35,7 +36,9 @@ export interface CivInfo {
   leader: string;
   civilization: string;
   type: 'full_civ' | 'city_state' | 'free_cities';
+  playerId?: number;  // Slot in the save's actor data, matching the player IDs in the logs
   isHuman?: boolean;
+  isAlive?: boolean;
   isCurrentTurn?: boolean;
 }
 
@@ -146,10 +149,48 @@ export interface TurnData {
   civStats: CivStatistics[];
 }
 
+// ============ Autosave History Types ============
+
+// A civ alive on a turn of autosave history
+export interface RosterEntry {
+  civilization: string;
+  leader: string;
+  isCityState: boolean;
+}
+
+// One autosave's turn. Saves hold no yields, scores or counts, only the
+// header and the player slots.
+export interface SaveTurn {
+  turn: number;
+  era: string;
+  savePath: string;
+  majorCivsAlive: number;
+  cityStatesAlive: number;
+  roster: RosterEntry[];  // Major civs and city-states alive, in slot order
+}
+
+// History rebuilt from the autosaves of a game played without logging
+export interface SaveHistory {
+  turns: SaveTurn[];        // Oldest first
+  civilizations: string[];  // Every major civ seen alive
+}
+
+// What changed over a stretch of autosave history, which is all saves can tell
+export interface RosterTrend {
+  startTurn: number;
+  endTurn: number;
+  savesAnalyzed: number;
+  eras: { turn: number; era: string }[];  // Era on the first turn, then each turn a new era began
+  aliveByTurn: { turn: number; majorCivs: number; cityStates: number }[];
+  eliminated: (RosterEntry & { lastSeenTurn: number })[];
+  alive: RosterEntry[];  // Major civs alive on the last turn
+}
+
 // ============ Log Mining Types ============
 
 // Diplomacy
 export interface DiplomaticRelation {
+  turn: number;
   fromCiv: string;
   toCiv: string;
   fromPlayerId: number;
@@ -160,6 +201,39 @@ export interface DiplomaticRelation {
   trust: number;
 }
 
+export type DiplomaticEventKind =
+  'met' | 'war-declared' | 'peace' | 'alliance-formed' | 'alliance-ended' |
+  'friendship-declared' | 'denounced' | 'state-change';
+
+// A change in how one civ regards another between consecutive logged turns
+export interface DiplomaticEvent {
+  turn: number;
+  kind: DiplomaticEventKind;
+  fromCiv: string;
+  toCiv: string;
+  fromPlayerId: number;
+  toPlayerId: number;
+  previousState: string | null;  // null for 'met'
+  state: string;
+}
+
+export interface DiplomaticTrajectoryPoint {
+  turn: number;
+  state: string;
+  score: number;
+  threat: number;
+  trust: number;
+}
+
+// How one civ's view of another developed over the logged turns
+export interface DiplomaticTrajectory {
+  fromCiv: string;
+  toCiv: string;
+  fromPlayerId: number;
+  toPlayerId: number;
+  points: DiplomaticTrajectoryPoint[];
+}
+
 export interface DiplomaticModifier {
   turn: number;
   player: string;
@@ -200,6 +274,10 @@ export interface CombatRecord {
   defenderStrength: number;
   attackerDamage: number;
   defenderDamage: number;
+  attackerClass: string | null;  // Unit class and era from the rules data, null for unknown units
+  attackerEra: string | null;
+  defenderClass: string | null;
+  defenderEra: string | null;
 }
 
 // Production
@@ -214,6 +292,29 @@ export interface CityProduction {
   productionNeeded: number;
   turnsRemaining: number;
   overflow: number;
+  ownerId: number | null;  // Player ID, null when the owner couldn't be worked out
+  owner: string | null;    // Owning civilization's display name
+  ownerSource: CityOwnerSource | null;
+  itemKind: RuleKind | null;     // From the rules data, null for items it doesn't know (e.g. districts)
+  itemClass: string | null;      // Unit class display name, for units
+  itemEra: string | null;        // Era display name
+}
+
+// How a city's owner was found: a player ID in AI_CityBuild.csv on or before that turn, the last
+// such player for turns after the city's last row (it may have changed hands since), the human
+// for cities AI_CityBuild.csv never mentions (it only covers AI players), or the civ whose default
+// city names include it when the human can't be told apart.
+export type CityOwnerSource = 'log' | 'last-seen' | 'human' | 'name-list';
+
+// A city changing hands between two turns (from AI_CityBuild.csv)
+export interface CityTransfer {
+  turn: number;  // First turn seen under the new owner
+  city: string;
+  cityDisplayName: string;
+  fromPlayerId: number;
+  from: string;
+  toPlayerId: number;
+  to: string;
 }
 
 // City founding stats (from AI_CityBuild.csv)
@@ -236,6 +337,45 @@ export interface TechProgress {
   turnsRemaining: number;
 }
 
+// When a civ is expected to reach a milestone tech. `turns` is 0 once owned.
+export interface MilestoneForecast {
+  tech: string;
+  status: 'owned' | 'researching' | 'projected' | 'unknown';
+  turns: number | null;
+  projectedTurn: number | null;
+  gapToPlayer: number | null;  // Turns after the human player (negative: sooner)
+}
+
+export interface TechForecast {
+  civilization: string;
+  playerId: number;
+  isPlayer: boolean;
+  techsOwned: number;
+  researching: string | null;
+  turnsRemaining: number | null;
+  techsPerTurn: number | null;  // Over the recent trend window
+  milestones: MilestoneForecast[];
+}
+
+export interface CivicProgress {
+  turn: number;
+  civilization: string;
+  playerId: number;
+  civic: string;
+  status: string;  // OWNED, RESEARCHING, etc.
+  turnsRemaining: number;
+  keyCivic: boolean;  // Unlocks a government, or Ideology
+}
+
+// The first turn a civ is seen owning a key government civic
+export interface CivicMilestone {
+  turn: number;
+  civilization: string;
+  playerId: number;
+  civic: string;
+  unlocks: string;
+}
+
 // World Congress
 export interface CongressVote {
   turn: number;
@@ -260,6 +400,7 @@ export interface GreatPersonEvent {
   individual: string;
   displayName: string;
   gpClass: string;
+  classType: string;  // e.g. "GREAT_PERSON_CLASS_ARTIST"
   era: string;
   cost: number;
   recipientId: number;
@@ -276,10 +417,74 @@ export interface StrategicThreat {
 
 export interface StrategicOpportunity {
   civilization: string;
-  type: string;
+  type: string;  // Diplomatic state, e.g. ALLIED
+  score: number;
   suggestion: string;
 }
 
+export interface ActiveConflict {
+  civilizations: string[];  // Sorted pair
+  battles: number;
+}
+
+export interface VictoryRaceEntry {
+  victoryType: string;
+  leader: string | null;
+  leaderValue: number;
+  unit: string;  // Suffix for leaderValue, e.g. " techs"
+  playerPosition: number | null;
+}
+
+// Coalitions
+// Civs linked by mutual friendship; `cohesion` is the average score between members
+export interface DiplomaticBloc {
+  members: string[];
+  cohesion: number;
+  commonEnemies: string[];  // Civs most of the bloc is hostile toward
+}
+
+export interface MutualEnemy {
+  enemy: string;
+  opposedBy: string[];
+}
+
+export interface JointWarPartner {
+  civilization: string;
+  likelihood: 'HIGH' | 'MEDIUM' | 'LOW';
+  scoreTowardTarget: number | null;
+  scoreTowardYou: number | null;
+  reason: string;
+}
+
+// How likely `civilization` is to be attacked by several civs at once
+export interface DogpileRisk {
+  civilization: string;
+  risk: 'HIGH' | 'MEDIUM' | 'LOW';
+  hostileCivs: string[];
+  coordinated: string[];  // Hostile civs that are friends with another hostile civ
+}
+
+export interface CoalitionAnalysis {
+  turn: number;
+  blocs: DiplomaticBloc[];
+  mutualEnemies: MutualEnemy[];
+  dogpileRisks: DogpileRisk[];
+  target: string | null;
+  jointWarPartners: JointWarPartner[];  // Against `target`
+}
+
+export interface StrategicOverview {
+  turn: number;
+  playerCiv: string;
+  threats: StrategicThreat[];
+  opportunities: StrategicOpportunity[];
+  blocs: DiplomaticBloc[];
+  dogpileRisk: DogpileRisk | null;  // For the player
+  conflicts: ActiveConflict[];
+  victoryRace: VictoryRaceEntry[];
+  keyProduction: CityProduction[];
+}
+
 // Trend Analysis
 export interface CivTrend {
   civilization: string;
@@ -296,3 +501,149 @@ export interface CivTrend {
   territory: { start: number; end: number; change: number; percentChange: number };
   techs: { start: number; end: number; change: number };
 }
+
+// ============ Game Notes Types ============
+
+// A campaign, identified from its save header
+export interface GameIdentity {
+  id: string;
+  leader: string;
+  civilization: string;
+  map: string;        // Map type and size, e.g. "Continents (Standard)"
+  settings: string;   // Difficulty and game speed, e.g. "Prince, Standard speed"
+  startDate: string;  // YYYY-MM-DD of the earliest save seen for this game; the header has no start date
+  opponents: string[]; // Sorted leaders of the other civs, to tell apart games with the same leader and map
+  cityStates: string[]; // Sorted city-states drawn for the game, alive or not
+}
+
+export interface GameNote {
+  id: number;
+  turn: number;
+  createdAt: string;
+  updatedAt?: string;
+  text: string;
+}
+
+export interface GameNotes {
+  game: GameIdentity;
+  notes: GameNote[];
+}
+
+// ============ Reference Data Types ============
+
+export interface CivReference {
+  type: string;        // Raw type without prefix, e.g. "ROME"
+  name: string;        // e.g. "Rome"
+  leaders: string[];   // Leader types, base leader first
+  cities: string[];    // Default city names (after LOC_CITY_NAME_), capital first
+}
+
+export interface LeaderReference {
+  type: string;        // Raw type without prefix, e.g. "T_ROOSEVELT_ROUGHRIDER"
+  name: string;        // e.g. "Teddy Roosevelt"
+  persona?: string;    // e.g. "Rough Rider", for leaders with more than one persona
+  civ: string;         // Civ type, e.g. "AMERICA"
+}
+
+export type CityStateType = 'Cultural' | 'Industrial' | 'Militaristic' | 'Religious' | 'Scientific' | 'Trade';
+
+export interface CityStateReference {
+  type: string;        // Raw type without prefix, e.g. "GENEVA"
+  name: string;
+  cityStateType: CityStateType;
+}
+
+// A civ, leader or city-state the reference data doesn't know
+export interface UnknownName {
+  kind: 'civilization' | 'leader' | 'city-state';
+  raw: string;
+}
+
+// ============ Game Rules Types ============
+
+export type RuleKind = 'unit' | 'building' | 'wonder' | 'project';
+
+// Space race and nuclear projects are tracked as victory and threat signals
+export type ProjectCategory = 'space-race' | 'nuclear' | 'other';
+
+// One producible item from the game's Gameplay XML (or the bundled snapshot)
+export interface GameRule {
+  type: string;                // Full type, e.g. "UNIT_KNIGHT", "BUILDING_PYRAMIDS"
+  kind: RuleKind;
+  cost: number;                // Production cost on standard speed
+  era: string | null;          // Era type of the unlocking tech/civic, e.g. "ERA_MEDIEVAL"
+  prereqTech: string | null;
+  prereqCivic: string | null;
+  unitClass: string | null;    // Promotion class, e.g. "PROMOTION_CLASS_HEAVY_CAVALRY"
+  combat: number | null;
+  rangedCombat: number | null;
+  bombard: number | null;
+  projectCategory: ProjectCategory | null;
+}
+
+// ============ Save Comparison Types ============
+
+export interface SaveSnapshot {
+  path: string;
+  turn: number;
+  era: string;
+}
+
+// A game setting that differs between the two saves (difficulty, map, version, ...)
+export interface SettingChange {
+  setting: string;
+  from: string;
+  to: string;
+}
+
+// One civ's additions (techs, civics or cities) between the two saves
+export interface CivChanges {
+  playerId: number;
+  civilization: string;
+  items: string[];
+}
+
+export interface WonderCompletion {
+  turn: number;                  // The turn after its last production row, which had enough to finish it
+  wonder: string;
+  city: string;
+  civilization: string | null;   // The city's owner, null when it couldn't be worked out
+}
+
+export interface FirstContact {
+  turn: number;
+  civilizations: [string, string];
+}
+
+// Changes between the two saves' turns taken from the logs, which hold what
+// the save parser can't read
+export interface SaveLogChanges {
+  fromTurn: number;              // Exclusive; the later of the earlier save's turn and the first logged turn
+  toTurn: number;                // Inclusive; the earlier of the later save's turn and the last logged turn
+  techsResearched: CivChanges[];
+  civicsCompleted: CivChanges[];
+  citiesFounded: CivChanges[];
+  citiesLost: CivChanges[];      // No longer in the production log, usually razed
+  citiesCaptured: CityTransfer[];
+  wondersCompleted: WonderCompletion[];
+  civsMet: FirstContact[];
+}
+
+// What changed between two saves: the save parser's data, plus the logs' when they cover the turns
+export interface SaveComparison {
+  before: SaveSnapshot;
+  after: SaveSnapshot;
+  turnsElapsed: number;
+  sameGame: boolean;             // Same player civ, map and set of civilizations
+  eraChanged: boolean;
+  settingChanges: SettingChange[];
+  civsEliminated: string[];
+  civsAdded: string[];           // In the later save's roster but not the earlier one
+  civsRemoved: string[];         // In the earlier save's roster but not the later one
+  cityStatesEliminated: string[];
+  cityStatesAdded: string[];
+  modsAdded: ModInfo[];
+  modsRemoved: ModInfo[];
+  logChanges: SaveLogChanges | null;
+  logsNote: string | null;       // Why the logs weren't used, or only cover part of the span
+}